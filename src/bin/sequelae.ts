@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { SqlAgentMcpServer } from '../mcp';
+import { McpHttpTransport, parseTransportArgs } from '../mcp/http-transport';
 import { logger } from '../utils/logger';
 import { RateLimiterOptions } from '../utils/rate-limiter';
 
@@ -10,10 +11,28 @@ const isMcpMode = process.env.MCP_MODE === 'true' || args.includes('--mcp');
 
 async function main(): Promise<void> {
   if (isMcpMode) {
-    // Remove --mcp from args if present
-    const filteredArgs = args.filter(arg => arg !== '--mcp');
+    // stdout belongs to the protocol from the first byte; diagnostics go to stderr
+    logger.setStderrOnly(true);
+
+    const transportArgs = parseTransportArgs(args);
+
+    // Remove --mcp, --read-only and the transport flags from args if present
+    const transportFlags = ['--transport', '--port', '--host'];
+    const filteredArgs = args.filter(
+      (arg, i) =>
+        arg !== '--mcp' &&
+        arg !== '--read-only' &&
+        !transportFlags.includes(arg) &&
+        !transportFlags.includes(args[i - 1])
+    );
     process.argv = [process.argv[0], process.argv[1], ...filteredArgs];
 
+    // Read-only mode is picked up by every SqlExecutor the server creates
+    if (args.includes('--read-only')) {
+      process.env.SEQUELAE_READ_ONLY = 'true';
+      logger.info('Read-only mode enabled');
+    }
+
     // Configure rate limiting from environment variables
     let rateLimiterOptions: RateLimiterOptions | undefined;
 
@@ -47,7 +66,30 @@ async function main(): Promise<void> {
 
     // Start MCP server
     const server = new SqlAgentMcpServer(rateLimiterOptions);
-    await server.start();
+    if (transportArgs.transport === 'http') {
+      const http = new McpHttpTransport(server, {
+        port: transportArgs.port,
+        host: transportArgs.host,
+      });
+      const address = await http.listen();
+      const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+      logger.info(`MCP server listening on http://${host}:${address.port}/mcp`);
+
+      const shutdown = (signal: string): void => {
+        logger.info(`${signal} received, shutting down`);
+        http.close().then(
+          () => process.exit(0),
+          error => {
+            logger.error('Shutdown failed:', error);
+            process.exit(1);
+          }
+        );
+      };
+      process.once('SIGINT', () => shutdown('SIGINT'));
+      process.once('SIGTERM', () => shutdown('SIGTERM'));
+    } else {
+      await server.start();
+    }
   } else {
     // Run as CLI - import dynamically to avoid loading unnecessary code
     const { main: cliMain } = await import('../cli');
@@ -2,26 +2,40 @@
 import { Pool } from 'pg';
 import { PoolManager } from './core/pool-manager';
 import { config } from 'dotenv';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
+import { once } from 'events';
 import * as packageJson from '../package.json';
-import { SqlExecutor } from './core/sql-executor';
+import {
+  ProfileOptions,
+  SchemaOptions,
+  SqlExecutor,
+  StatementExecutionError,
+  StatementResult,
+  StreamBatch,
+  TABLE_PRIVILEGES,
+  TablePrivilege,
+} from './core/sql-executor';
+import { describeSchemaSource, loadSchemaSource } from './core/schema-source';
+import { createSchemaSnapshot, serializeSchemaSnapshot } from './core/schema-snapshot';
 import { BackupOptions } from './types/backup';
 import { logger } from './utils/logger';
-
-interface Constraint {
-  constraint_type: string;
-  constraint_name: string;
-  column_name: string;
-}
-
-interface Column {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  column_default: string | null;
-  character_maximum_length: number | null;
-}
+import { ReadOnlyViolationError } from './utils/sql-classifier';
+import { formatPlanSummaryText } from './utils/plan-summary';
+import { formatProfileText, SAMPLE_METHODS, SampleMethod } from './utils/table-profile';
+import { buildErdGraph, ERD_FORMATS, ErdFormat, ErdOptions, renderErd } from './utils/erd';
+import { CODEGEN_TARGETS, CodegenTarget, generateCode } from './utils/codegen';
+import { diffSchemas, formatSchemaDiffText, generateMigrationDdl } from './utils/schema-diff';
+import { formatSearchResultsText, SchemaSearchOptions, searchSchema } from './utils/schema-search';
+import {
+  formatPermissionText,
+  formatTableSummaryText,
+  parseSchemaInclude,
+  renderSchema,
+  SCHEMA_FORMATS,
+  SCHEMA_OBJECT_KINDS,
+  SchemaFormat,
+} from './utils/schema-renderer';
 
 // Load .env from the package root (handles both root and subdirectory execution)
 const envPath = resolve(__dirname, '../.env');
@@ -65,9 +79,27 @@ export function handleHelp(jsonMode: boolean): string {
         'sequelae schema                   Show all tables in public schema',
         'sequelae schema [tables]          Show specific table(s) - comma separated',
         'sequelae schema --all             Show all schemas including system tables',
+        'sequelae schema --format <fmt>    Schema as text, json, markdown or compact',
+        'sequelae schema --summary         Table names with estimated row and column counts only',
+        'sequelae schema diff <from> [to]  Compare schemas (URLs or JSON files; to defaults to DATABASE_URL), --ddl for migration SQL',
+        'sequelae schema search <term>     Find tables and columns by name, type or comment (fuzzy, ranked); --schemas, --limit',
+        'sequelae schema snapshot --out <file>  Save a versioned, deterministic snapshot of the whole schema',
+        'sequelae schema --include <kinds> Also show views, matviews, types, functions, indexes, triggers, sequences, policies, grants (comma separated, or all)',
+        'sequelae erd [tables]             ER diagram as mermaid (default), dot or plantuml via --format; --schemas, --seed <table> --depth <n>, --all-columns',
+        'sequelae codegen --target <t>     Generate types for tables and views: ts (default), zod or json-schema; --out <file>',
+        'sequelae explain "SQL query"      Show the query plan with a summary',
+        'sequelae profile <table>          Column statistics from pg_stats; --sample <pct> for exact figures over a TABLESAMPLE, --method, --top',
+        'sequelae permissions <role> <privilege> <table>  Whether the role may do it, with the row level security policies that apply; --column',
+        'sequelae explain "SQL" --analyze  Run the query (rolled back) and show actual timings',
         'sequelae backup                   Create a database backup',
         'sequelae exit                     Exit sequelae',
         'sequelae --json                   Output results in JSON format',
+        'sequelae --read-only              Reject statements that modify data',
+        'sequelae exec "SQL" --param <v>   Bind a $n parameter (repeatable)',
+        'sequelae exec "SQL" --params-json \'[...]\'  Bind $1..$n from a JSON array',
+        'sequelae exec "SQL" --ndjson      Stream rows as newline-delimited JSON',
+        'sequelae exec "SQL" --csv         Stream rows as CSV',
+        'sequelae --batch-size <n>         Rows fetched per round trip when streaming',
       ],
       examples: [
         'sequelae exec "SELECT * FROM users"',
@@ -75,9 +107,21 @@ export function handleHelp(jsonMode: boolean): string {
         'sequelae file migrations/001_init.sql',
         'sequelae schema',
         'sequelae schema users,posts',
+        'sequelae schema users --include indexes,triggers',
+        'sequelae schema --format markdown > SCHEMA.md',
+        'sequelae schema diff "$PROD_DATABASE_URL" "$STAGING_DATABASE_URL" --ddl',
+        'sequelae schema search invoice due date',
+        'sequelae schema snapshot --out schema.json',
+        'sequelae erd --seed orders --depth 2 > orders.mmd',
+        'sequelae codegen --target zod --out src/db-types.ts',
+        'sequelae profile orders --sample 1',
+        'sequelae permissions authenticated update posts',
         'sequelae backup --output db_backup.sql',
         'sequelae backup --tables users,posts --format custom',
         'sequelae --json exec "SELECT * FROM users"',
+        'sequelae exec "SELECT * FROM users WHERE id = $1" --param 42',
+        'sequelae exec "SELECT * FROM events" --csv > events.csv',
+        'sequelae explain "SELECT * FROM orders WHERE customer_id = 42" --analyze --buffers',
       ],
     });
   } else {
@@ -88,11 +132,46 @@ Usage:
   sequelae schema                   Show all tables in public schema
   sequelae schema [tables]          Show specific table(s) - comma separated
   sequelae schema --all             Show all schemas including system tables
+  sequelae schema --format <fmt>    Schema as text, json, markdown or compact
+  sequelae schema --summary         Table names with estimated row and column counts only
+  sequelae schema diff <from> [to]  Compare two schemas; each is a postgresql:// URL or a
+                                    JSON schema file (to defaults to DATABASE_URL), --ddl
+                                    adds the SQL that turns from into to
+  sequelae schema search <term>     Find tables and columns by name, type or comment,
+                                    fuzzy and ranked (--schemas a,b, --limit n)
+  sequelae schema snapshot --out <file>
+                                    Save a versioned, deterministic snapshot of the
+                                    whole schema (stdout without --out)
+  sequelae schema --include <kinds> Also show views, matviews, types, functions,
+                                    indexes, triggers, sequences, policies (row level
+                                    security), grants (comma separated, or all)
+  sequelae erd [tables]             ER diagram of tables, keys and foreign keys
+                                    --format mermaid (default), dot or plantuml
+                                    --schemas a,b, --seed <table> --depth <n>
+                                    (foreign key hops), --all-columns
+  sequelae codegen --target <t>     Generate types for every table and view:
+                                    ts (default), zod or json-schema; --out <file>
+  sequelae explain "SQL query"      Show the query plan with a summary
+  sequelae explain "SQL" --analyze  Run the query (rolled back) and show actual timings
+  sequelae profile <table>          Column statistics from pg_stats: nulls, distinct and
+                                    common values, histogram, min/max/avg; --sample <pct>
+                                    for exact figures over a TABLESAMPLE (--method, --top)
+  sequelae permissions <role> <privilege> <table>
+                                    Whether the role may SELECT, INSERT, UPDATE, ... the
+                                    table, and which RLS policies limit the rows (--column)
   sequelae backup                   Create a database backup
   sequelae exit                     Exit sequelae
   sequelae --json                   Output results in JSON format
   sequelae --no-transaction         Disable automatic transactions
   sequelae --timeout <ms>           Set query timeout in milliseconds
+  sequelae --read-only              Reject statements that modify data
+  sequelae --param <value>          Bind a $n parameter for exec (repeatable)
+  sequelae --params-json '[...]'    Bind $1..$n for exec from a JSON array
+  sequelae --ndjson                 Stream exec rows as newline-delimited JSON
+  sequelae --csv                    Stream exec rows as CSV
+  sequelae --batch-size <n>         Rows fetched per round trip when streaming (default 1000)
+  sequelae --analyze                Run EXPLAIN ANALYZE inside a rolled-back transaction
+  sequelae --buffers                Include buffer usage in EXPLAIN output
   
 Examples:
   sequelae exec "SELECT * FROM users"
@@ -100,9 +179,19 @@ Examples:
   sequelae file migrations/001_init.sql
   sequelae schema
   sequelae schema users,posts
+  sequelae schema search invoice due date
+  sequelae schema snapshot --out schema.json
+  sequelae erd --seed orders --depth 2 > orders.mmd
+  sequelae codegen --target zod --out src/db-types.ts
+  sequelae profile orders --sample 1
+  sequelae permissions authenticated update posts
   sequelae backup --output db_backup.sql
   sequelae backup --tables users,posts --format custom
   sequelae --json exec "SELECT * FROM users"
+  sequelae exec "SELECT * FROM users WHERE id = $1" --param 42
+  sequelae exec "INSERT INTO users (name, age) VALUES ($1, $2)" --params-json '["alice", 30]'
+  sequelae exec "SELECT * FROM events" --csv > events.csv
+  sequelae explain "SELECT * FROM orders WHERE customer_id = 42" --analyze --buffers
     `;
   }
 }
@@ -131,14 +220,32 @@ export interface ParsedArguments {
   jsonMode: boolean;
   allSchemas: boolean;
   noTransaction: boolean;
+  readOnly: boolean;
+  analyze?: boolean;
+  buffers?: boolean;
   timeout?: number;
+  params?: string[];
+  paramsJson?: string;
+  streamFormat?: StreamFormat;
+  batchSize?: number;
+  include?: string;
   filteredArgs: string[];
 }
 
+export type StreamFormat = 'ndjson' | 'csv';
+
 export function parseArguments(args: string[]): ParsedArguments {
   const jsonMode = args.includes('--json');
   const allSchemas = args.includes('--all');
   const noTransaction = args.includes('--no-transaction');
+  const readOnly = args.includes('--read-only');
+  const analyze = args.includes('--analyze') || undefined;
+  const buffers = args.includes('--buffers') || undefined;
+  const streamFormat: StreamFormat | undefined = args.includes('--csv')
+    ? 'csv'
+    : args.includes('--ndjson')
+      ? 'ndjson'
+      : undefined;
 
   // Extract timeout value
   let timeout: number | undefined;
@@ -157,9 +264,60 @@ export function parseArguments(args: string[]): ParsedArguments {
     }
   }
 
+  // Extract streaming batch size
+  let batchSize: number | undefined;
+  let batchSizeValueIndex: number | undefined;
+  const batchSizeIndex = args.indexOf('--batch-size');
+  if (batchSizeIndex !== -1 && batchSizeIndex + 1 < args.length) {
+    const possibleValue = args[batchSizeIndex + 1];
+    if (!possibleValue.startsWith('-')) {
+      const batchSizeValue = parseInt(possibleValue);
+      if (!isNaN(batchSizeValue) && batchSizeValue > 0) {
+        batchSize = batchSizeValue;
+      }
+      batchSizeValueIndex = batchSizeIndex + 1;
+    }
+  }
+
+  // Extract extra schema object kinds, e.g. --include views,indexes
+  let include: string | undefined;
+  let includeValueIndex: number | undefined;
+  const includeIndex = args.indexOf('--include');
+  if (includeIndex !== -1 && includeIndex + 1 < args.length) {
+    const possibleValue = args[includeIndex + 1];
+    if (!possibleValue.startsWith('-')) {
+      include = possibleValue;
+      includeValueIndex = includeIndex + 1;
+    }
+  }
+
+  // Extract bind parameters: --param may be repeated, --params-json takes a JSON array
+  let params: string[] | undefined;
+  let paramsJson: string | undefined;
+  const paramValueIndexes = new Set<number>();
+  args.forEach((arg, index) => {
+    if ((arg === '--param' || arg === '--params-json') && index + 1 < args.length) {
+      paramValueIndexes.add(index + 1);
+      if (arg === '--param') {
+        params = [...(params || []), args[index + 1]];
+      } else {
+        paramsJson = args[index + 1];
+      }
+    }
+  });
+
   const filteredArgs = args.filter((arg, index) => {
     // Remove flags
-    if (arg === '--json' || arg === '--all' || arg === '--no-transaction') {
+    if (
+      arg === '--json' ||
+      arg === '--all' ||
+      arg === '--no-transaction' ||
+      arg === '--read-only' ||
+      arg === '--ndjson' ||
+      arg === '--csv' ||
+      arg === '--analyze' ||
+      arg === '--buffers'
+    ) {
       return false;
     }
     // Remove --timeout and its value
@@ -169,6 +327,21 @@ export function parseArguments(args: string[]): ParsedArguments {
     if (timeoutValueIndex !== undefined && index === timeoutValueIndex) {
       return false;
     }
+    // Remove --batch-size and its value
+    if (
+      arg === '--batch-size' ||
+      (batchSizeValueIndex !== undefined && index === batchSizeValueIndex)
+    ) {
+      return false;
+    }
+    // Remove --include and its value
+    if (arg === '--include' || (includeValueIndex !== undefined && index === includeValueIndex)) {
+      return false;
+    }
+    // Remove --param/--params-json and their values
+    if (arg === '--param' || arg === '--params-json' || paramValueIndexes.has(index)) {
+      return false;
+    }
     return true;
   });
 
@@ -176,11 +349,349 @@ export function parseArguments(args: string[]): ParsedArguments {
     jsonMode,
     allSchemas,
     noTransaction,
+    readOnly,
+    analyze,
+    buffers,
     timeout,
+    params,
+    paramsJson,
+    streamFormat,
+    batchSize,
+    include,
     filteredArgs,
   };
 }
 
+/**
+ * Table names, --format and --summary for the schema command
+ * Table names may be comma separated and/or split across arguments
+ */
+export function parseSchemaCommandArgs(args: string[]): {
+  tables: string[];
+  format: SchemaFormat;
+  summary?: boolean;
+} {
+  let format: SchemaFormat = 'text';
+  let summary = false;
+  const tableArgs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--summary') {
+      summary = true;
+    } else if (args[i] === '--format' && i + 1 < args.length) {
+      const value = args[++i] as SchemaFormat;
+      if (!SCHEMA_FORMATS.includes(value)) {
+        throw new SqlAgentError(
+          `Unknown schema format: ${value}`,
+          'INVALID_FORMAT',
+          `Use one of: ${SCHEMA_FORMATS.join(', ')}`
+        );
+      }
+      format = value;
+    } else {
+      tableArgs.push(args[i]);
+    }
+  }
+
+  const tables = tableArgs
+    .join(' ')
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => t.length > 0);
+  if (tableArgs.length > 0 && tables.length === 0) {
+    throw new SqlAgentError('No table names provided', 'NO_TABLES');
+  }
+  return { tables, format, ...(summary && { summary }) };
+}
+
+/**
+ * Arguments of `schema diff <from> [<to>] [--ddl]`
+ * Each side is a connection string or a JSON schema file; `to` defaults to DATABASE_URL
+ */
+export function parseSchemaDiffArgs(args: string[]): { from: string; to?: string; ddl: boolean } {
+  const ddl = args.includes('--ddl');
+  const [from, to] = args.filter(arg => arg !== '--ddl');
+  if (!from) {
+    throw new SqlAgentError(
+      'No schema to compare against',
+      'NO_DIFF_SOURCE',
+      'Usage: sequelae schema diff <from> [<to>] [--ddl], where each side is a postgresql:// URL or a JSON schema file'
+    );
+  }
+  return { from, ...(to && { to }), ddl };
+}
+
+/**
+ * Arguments of `schema snapshot [--out <file>]`
+ */
+export function parseSchemaSnapshotArgs(args: string[]): { out?: string } {
+  let out: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out' && i + 1 < args.length) {
+      out = args[++i];
+    } else {
+      throw new SqlAgentError(
+        `Unexpected argument for schema snapshot: ${args[i]}`,
+        'INVALID_ARGUMENT',
+        'Usage: sequelae schema snapshot [--out schema.json] [--all]'
+      );
+    }
+  }
+  return { ...(out && { out }) };
+}
+
+/**
+ * Arguments of `schema search <term> [--schemas a,b] [--limit <n>]`
+ * The term may span several arguments, e.g. schema search invoice due date
+ */
+export function parseSchemaSearchArgs(args: string[]): {
+  term: string;
+  options: SchemaSearchOptions;
+} {
+  const options: SchemaSearchOptions = {};
+  const words: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--schemas' && i + 1 < args.length) {
+      options.schemas = args[++i]
+        .split(',')
+        .map(schema => schema.trim())
+        .filter(schema => schema.length > 0);
+    } else if (args[i] === '--limit' && i + 1 < args.length) {
+      const limit = Number(args[++i]);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new SqlAgentError(
+          `Invalid limit: ${args[i]}`,
+          'INVALID_LIMIT',
+          'Use a positive whole number, e.g. --limit 10'
+        );
+      }
+      options.limit = limit;
+    } else {
+      words.push(args[i]);
+    }
+  }
+
+  const term = words.join(' ').trim();
+  if (!term) {
+    throw new SqlAgentError(
+      'No search term provided',
+      'NO_SEARCH_TERM',
+      'Usage: sequelae schema search <term> [--schemas a,b] [--limit n]'
+    );
+  }
+  return { term, options };
+}
+
+/**
+ * Arguments of `erd [tables] [--format <fmt>] [--schemas a,b] [--seed <table>] [--depth <n>] [--all-columns]`
+ */
+export function parseErdArgs(args: string[]): { format: ErdFormat; options: ErdOptions } {
+  let format: ErdFormat = 'mermaid';
+  const options: ErdOptions = {};
+  const tableArgs: string[] = [];
+  const list = (value: string): string[] =>
+    value
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--format' && i + 1 < args.length) {
+      const value = args[++i] as ErdFormat;
+      if (!ERD_FORMATS.includes(value)) {
+        throw new SqlAgentError(
+          `Unknown diagram format: ${value}`,
+          'INVALID_FORMAT',
+          `Use one of: ${ERD_FORMATS.join(', ')}`
+        );
+      }
+      format = value;
+    } else if (arg === '--schemas' && i + 1 < args.length) {
+      options.schemas = list(args[++i]);
+    } else if (arg === '--seed' && i + 1 < args.length) {
+      options.seed = args[++i];
+    } else if (arg === '--depth' && i + 1 < args.length) {
+      const depth = Number(args[++i]);
+      if (!Number.isInteger(depth) || depth < 0) {
+        throw new SqlAgentError(
+          `Invalid depth: ${args[i]}`,
+          'INVALID_DEPTH',
+          'Use a whole number of foreign key hops, e.g. --depth 2'
+        );
+      }
+      options.depth = depth;
+    } else if (arg === '--all-columns') {
+      options.allColumns = true;
+    } else {
+      tableArgs.push(arg);
+    }
+  }
+
+  const tables = list(tableArgs.join(','));
+  if (tables.length > 0) {
+    options.tables = tables;
+  }
+  return { format, options };
+}
+
+/**
+ * Arguments of `profile <table> [--sample <percent>] [--method system|bernoulli] [--top <n>]`
+ */
+export function parseProfileArgs(args: string[]): { table: string; options: ProfileOptions } {
+  const options: ProfileOptions = {};
+  const tables: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--sample' && i + 1 < args.length) {
+      const percent = Number(args[++i]);
+      if (!(percent > 0 && percent <= 100)) {
+        throw new SqlAgentError(
+          `Invalid sample percent: ${args[i]}`,
+          'INVALID_SAMPLE',
+          'Use a percentage greater than 0 and at most 100, e.g. --sample 1'
+        );
+      }
+      options.samplePercent = percent;
+    } else if (arg === '--method' && i + 1 < args.length) {
+      const method = args[++i] as SampleMethod;
+      if (!SAMPLE_METHODS.includes(method)) {
+        throw new SqlAgentError(
+          `Unknown sample method: ${method}`,
+          'INVALID_METHOD',
+          `Use one of: ${SAMPLE_METHODS.join(', ')}`
+        );
+      }
+      options.method = method;
+    } else if (arg === '--top' && i + 1 < args.length) {
+      const top = Number(args[++i]);
+      if (!Number.isInteger(top) || top < 1) {
+        throw new SqlAgentError(
+          `Invalid top: ${args[i]}`,
+          'INVALID_TOP',
+          'Use a positive whole number, e.g. --top 5'
+        );
+      }
+      options.top = top;
+    } else {
+      tables.push(arg);
+    }
+  }
+
+  if (tables.length !== 1) {
+    throw new SqlAgentError(
+      tables.length === 0 ? 'No table name provided' : 'Profile one table at a time',
+      'INVALID_ARGUMENT',
+      'Usage: sequelae profile <table> [--sample <percent>] [--method system|bernoulli] [--top <n>]'
+    );
+  }
+  return { table: tables[0], options };
+}
+
+/**
+ * Arguments of `permissions <role> <privilege> <table> [--column <name>]`; the privilege is in any case
+ */
+export function parsePermissionArgs(args: string[]): {
+  role: string;
+  privilege: TablePrivilege;
+  table: string;
+  column?: string;
+} {
+  const positional: string[] = [];
+  let column: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--column' && i + 1 < args.length) {
+      column = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  if (positional.length !== 3) {
+    throw new SqlAgentError(
+      'Expected a role, a privilege and a table',
+      'INVALID_ARGUMENT',
+      'Usage: sequelae permissions <role> <privilege> <table> [--column <name>]'
+    );
+  }
+  const [role, privilegeArg, table] = positional;
+  const privilege = privilegeArg.toUpperCase() as TablePrivilege;
+  if (!TABLE_PRIVILEGES.includes(privilege)) {
+    throw new SqlAgentError(
+      `Unknown privilege: ${privilegeArg}`,
+      'INVALID_PRIVILEGE',
+      `Use one of: ${TABLE_PRIVILEGES.join(', ')}`
+    );
+  }
+  return { role, privilege, table, ...(column !== undefined && { column }) };
+}
+
+/**
+ * Arguments of `codegen [--target ts|zod|json-schema] [--out <file>]`
+ */
+export function parseCodegenArgs(args: string[]): { target: CodegenTarget; out?: string } {
+  let target: CodegenTarget = 'ts';
+  let out: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--target' && i + 1 < args.length) {
+      const value = args[++i] as CodegenTarget;
+      if (!CODEGEN_TARGETS.includes(value)) {
+        throw new SqlAgentError(
+          `Unknown codegen target: ${value}`,
+          'INVALID_TARGET',
+          `Use one of: ${CODEGEN_TARGETS.join(', ')}`
+        );
+      }
+      target = value;
+    } else if (args[i] === '--out' && i + 1 < args.length) {
+      out = args[++i];
+    } else {
+      throw new SqlAgentError(
+        `Unexpected argument for codegen: ${args[i]}`,
+        'INVALID_ARGUMENT',
+        'Usage: sequelae codegen [--target ts|zod|json-schema] [--out src/db-types.ts] [--all]'
+      );
+    }
+  }
+  return { target, ...(out && { out }) };
+}
+
+/**
+ * Schema options for the --include flag, or undefined when no extra objects were asked for
+ */
+export function buildSchemaOptions(include?: string): SchemaOptions | undefined {
+  if (include === undefined) {
+    return undefined;
+  }
+  const { options, unknown } = parseSchemaInclude(include);
+  if (unknown.length > 0) {
+    throw new SqlAgentError(
+      `Unknown schema object kind: ${unknown.join(', ')}`,
+      'INVALID_INCLUDE',
+      `Use a comma-separated list of: ${Object.keys(SCHEMA_OBJECT_KINDS).join(', ')}, or all`
+    );
+  }
+  return options;
+}
+
+export function buildQueryParams(params?: string[], paramsJson?: string): unknown[] | undefined {
+  if (paramsJson === undefined) {
+    return params;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(paramsJson);
+  } catch (_error) {
+    throw createInvalidParamsError('--params-json must be valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw createInvalidParamsError('--params-json must be a JSON array');
+  }
+
+  // --param values are appended after the JSON array
+  return [...parsed, ...(params || [])];
+}
+
 export function validateDatabaseUrl(
   databaseUrl: string | undefined,
   jsonMode: boolean
@@ -213,6 +724,11 @@ export function getCommandInfo(command: string): CommandInfo | null {
     exec: { command: 'exec', needsArgument: true, argumentName: 'SQL query' },
     file: { command: 'file', needsArgument: true, argumentName: 'file path' },
     schema: { command: 'schema', needsArgument: false },
+    explain: { command: 'explain', needsArgument: true, argumentName: 'SQL query' },
+    profile: { command: 'profile', needsArgument: true, argumentName: 'table name' },
+    permissions: { command: 'permissions', needsArgument: true, argumentName: 'role name' },
+    erd: { command: 'erd', needsArgument: false },
+    codegen: { command: 'codegen', needsArgument: false },
   };
 
   return commands[command] || null;
@@ -245,6 +761,7 @@ export interface QueryResult {
   rowCount?: number;
   rows?: Record<string, unknown>[];
   duration?: number;
+  statements?: StatementResult[];
 }
 
 export function formatQueryResultsJson(result: QueryResult, duration: number): string {
@@ -258,6 +775,65 @@ export function formatQueryResultsJson(result: QueryResult, duration: number): s
   return JSON.stringify(output);
 }
 
+/**
+ * Format a single CSV field (RFC 4180 quoting)
+ */
+export function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Buffer.isBuffer(value)) {
+    text = `\\x${value.toString('hex')}`;
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvValue).join(',');
+}
+
+/**
+ * Write streamed batches to `out` as NDJSON or CSV, waiting for the stream to drain
+ * between batches so memory stays constant regardless of the result size
+ * Returns the number of rows written
+ */
+export async function writeStreamedRows(
+  batches: AsyncIterable<StreamBatch>,
+  format: StreamFormat,
+  out: NodeJS.WritableStream
+): Promise<number> {
+  let rowCount = 0;
+  let headerWritten = false;
+
+  for await (const batch of batches) {
+    let chunk = '';
+    if (format === 'csv' && !headerWritten) {
+      chunk += formatCsvRow(batch.fields) + '\n';
+      headerWritten = true;
+    }
+    for (const row of batch.rows) {
+      chunk +=
+        format === 'csv'
+          ? formatCsvRow(batch.fields.map(field => row[field])) + '\n'
+          : JSON.stringify(row) + '\n';
+    }
+    rowCount += batch.rows.length;
+
+    if (chunk && !out.write(chunk)) {
+      await once(out, 'drain');
+    }
+  }
+
+  return rowCount;
+}
+
 export interface SqlError extends Error {
   position?: number;
 }
@@ -293,6 +869,22 @@ export function createFileNotFoundError(filepath: string): SqlAgentError {
   return new SqlAgentError(`File not found: ${filepath}`, 'FILE_NOT_FOUND');
 }
 
+export function createStreamNotSupportedError(command: string): SqlAgentError {
+  return new SqlAgentError(
+    `Streaming is not supported for the ${command} command`,
+    'STREAM_NOT_SUPPORTED',
+    'Use --ndjson or --csv with exec and a single SELECT query'
+  );
+}
+
+export function createInvalidParamsError(reason: string): SqlAgentError {
+  return new SqlAgentError(
+    `Invalid query parameters: ${reason}`,
+    'INVALID_PARAMS',
+    'Example: --params-json \'[42, "alice", null]\''
+  );
+}
+
 export function formatSqlError(error: SqlError, jsonMode: boolean): string {
   if (jsonMode) {
     const errorOutput = {
@@ -368,10 +960,24 @@ async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
   // Parse arguments
-  const { jsonMode, allSchemas, noTransaction, timeout, filteredArgs } = parseArguments(args);
+  const {
+    jsonMode,
+    allSchemas,
+    noTransaction,
+    readOnly,
+    analyze,
+    buffers,
+    timeout,
+    params,
+    paramsJson,
+    streamFormat,
+    batchSize,
+    include,
+    filteredArgs,
+  } = parseArguments(args);
 
-  // Skip header when running in Jest or JSON mode
-  if (typeof jest === 'undefined' && !jsonMode) {
+  // Skip header when running in Jest, JSON mode or when streaming rows to stdout
+  if (typeof jest === 'undefined' && !jsonMode && !streamFormat) {
     cliOutput.log('🔗 sequelae-mcp - PostgreSQL SQL executor\n');
   }
 
@@ -427,6 +1033,11 @@ async function main(): Promise<void> {
     process.env.POSTGRES_STATEMENT_TIMEOUT = timeout.toString();
   }
 
+  // Enable read-only mode for every executor created below
+  if (readOnly) {
+    process.env.SEQUELAE_READ_ONLY = 'true';
+  }
+
   const dbError = validateDatabaseUrl(databaseUrl, jsonMode);
   if (dbError) {
     if (jsonMode) {
@@ -486,177 +1097,133 @@ async function main(): Promise<void> {
       sql = readFileSync(filepath, 'utf8');
     } else if (filteredArgs[0] === 'schema') {
       // Schema command - show database structure
-      // Join all remaining arguments as they might be space-separated table names
-      const specificTables = filteredArgs.slice(1).join(' '); // Could be comma-separated list
+      if (streamFormat) {
+        throw createStreamNotSupportedError('schema');
+      }
 
-      if (specificTables) {
-        // Schema for specific tables
-        const tableList = specificTables
-          .split(',')
-          .map(t => t.trim())
-          .filter(t => t.length > 0); // Remove empty strings
+      if (filteredArgs[1] === 'diff') {
+        const diffArgs = parseSchemaDiffArgs(filteredArgs.slice(2));
+        const to = diffArgs.to || (databaseUrl as string);
+        const options = { includeIndexes: true };
+        const diff = diffSchemas(
+          await loadSchemaSource(diffArgs.from, allSchemas, options),
+          await loadSchemaSource(to, allSchemas, options)
+        );
+        const ddl = diffArgs.ddl ? generateMigrationDdl(diff) : undefined;
+
+        if (jsonMode) {
+          cliOutput.json({
+            success: true,
+            from: describeSchemaSource(diffArgs.from),
+            to: describeSchemaSource(to),
+            ...diff,
+            ...(ddl && { ddl: ddl.statements, ddlWarnings: ddl.warnings }),
+          });
+        } else {
+          cliOutput.log(
+            `SCHEMA DIFF: ${describeSchemaSource(diffArgs.from)} → ${describeSchemaSource(to)}\n`
+          );
+          cliOutput.log(formatSchemaDiffText(diff));
+          if (ddl && ddl.statements.length > 0) {
+            cliOutput.log('DDL:');
+            cliOutput.log(ddl.statements.join('\n'));
+            for (const warning of ddl.warnings) {
+              cliOutput.error(`⚠️  ${warning}`);
+            }
+          }
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      }
 
-        if (tableList.length === 0) {
+      if (filteredArgs[1] === 'search') {
+        const { term, options } = parseSchemaSearchArgs(filteredArgs.slice(2));
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const hits = searchSchema(await executor.getSchemaCatalog(), term, options);
           if (jsonMode) {
-            cliOutput.json({ error: 'No table names provided' });
+            cliOutput.json({ success: true, term, hits });
           } else {
-            cliOutput.error('Error: No table names provided');
+            cliOutput.log(formatSearchResultsText(term, hits));
           }
-          await cleanupPool(pool);
-          process.exit(1);
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      }
+
+      if (filteredArgs[1] === 'snapshot') {
+        const { out } = parseSchemaSnapshotArgs(filteredArgs.slice(2));
+        const executor = new SqlExecutor(databaseUrl as string);
+        let content: string;
+        let tableCount: number;
+        try {
+          // Snapshots always hold every object kind so they can stand in for the database
+          const schema = await executor.getSchema(
+            undefined,
+            allSchemas,
+            parseSchemaInclude('all').options
+          );
+          content = serializeSchemaSnapshot(createSchemaSnapshot(schema, allSchemas));
+          tableCount = schema.tables.length;
+        } finally {
+          await executor.close();
         }
 
-        const tableCondition = tableList.map(t => `'${t}'`).join(',');
-
-        sql = `
-        WITH requested_tables AS (
-          SELECT unnest(ARRAY[${tableCondition}]) as table_name
-        ),
-        existing_tables AS (
-          SELECT table_schema, table_name 
-          FROM information_schema.tables 
-          WHERE table_type = 'BASE TABLE' 
-            AND ${allSchemas ? "table_schema NOT IN ('pg_catalog', 'information_schema')" : "table_schema = 'public'"}
-        ),
-        table_info AS (
-          SELECT 
-            t.table_schema,
-            t.table_name,
-            json_agg(
-              json_build_object(
-                'column_name', c.column_name,
-                'data_type', c.data_type,
-                'is_nullable', c.is_nullable,
-                'column_default', c.column_default,
-                'character_maximum_length', c.character_maximum_length
-              ) ORDER BY c.ordinal_position
-            )::text as columns
-          FROM information_schema.tables t
-          JOIN information_schema.columns c 
-            ON t.table_schema = c.table_schema 
-            AND t.table_name = c.table_name
-          JOIN requested_tables rt ON t.table_name = rt.table_name
-          WHERE ${allSchemas ? "t.table_schema NOT IN ('pg_catalog', 'information_schema')" : "t.table_schema = 'public'"}
-            AND t.table_type = 'BASE TABLE'
-          GROUP BY t.table_schema, t.table_name
-        ),
-        constraint_info AS (
-          SELECT 
-            tc.table_schema,
-            tc.table_name,
-            json_agg(
-              json_build_object(
-                'constraint_name', tc.constraint_name,
-                'constraint_type', tc.constraint_type,
-                'column_name', kcu.column_name
-              )
-            )::text as constraints
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          JOIN requested_tables rt ON tc.table_name = rt.table_name
-          WHERE ${allSchemas ? "tc.table_schema NOT IN ('pg_catalog', 'information_schema')" : "tc.table_schema = 'public'"}
-          GROUP BY tc.table_schema, tc.table_name
-        ),
-        missing_tables AS (
-          SELECT rt.table_name as missing_table,
-                 string_agg(et.table_name, ', ') as suggestions
-          FROM requested_tables rt
-          LEFT JOIN existing_tables et ON rt.table_name = et.table_name
-          WHERE et.table_name IS NULL
-          GROUP BY rt.table_name
-        )
-        SELECT 
-          'found' as type,
-          ti.table_schema,
-          ti.table_name,
-          ti.columns,
-          COALESCE(ci.constraints, '[]') as constraints,
-          NULL as missing_table,
-          NULL as suggestions
-        FROM table_info ti
-        LEFT JOIN constraint_info ci
-          ON ti.table_schema = ci.table_schema
-          AND ti.table_name = ci.table_name
-        UNION ALL
-        SELECT 
-          'missing' as type,
-          NULL as table_schema,
-          NULL as table_name,
-          NULL as columns,
-          NULL as constraints,
-          mt.missing_table,
-          (SELECT string_agg(tn, ', ') FROM (
-             SELECT table_name as tn
-             FROM existing_tables
-             WHERE LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%')
-                OR LOWER(table_name) LIKE '%' || LOWER(LEFT(mt.missing_table, 3)) || '%'
-             ORDER BY 
-               CASE WHEN LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%') THEN 0 ELSE 1 END,
-               LENGTH(table_name)
-             LIMIT 3
-           ) s) as suggestions
-        FROM missing_tables mt
-        ORDER BY type, table_schema, table_name;
-        `;
-      } else {
-        // Show all tables
-        sql = `
-        WITH table_info AS (
-          SELECT 
-            t.table_schema,
-            t.table_name,
-            json_agg(
-              json_build_object(
-                'column_name', c.column_name,
-                'data_type', c.data_type,
-                'is_nullable', c.is_nullable,
-                'column_default', c.column_default,
-                'character_maximum_length', c.character_maximum_length
-              ) ORDER BY c.ordinal_position
-            )::text as columns
-          FROM information_schema.tables t
-          JOIN information_schema.columns c 
-            ON t.table_schema = c.table_schema 
-            AND t.table_name = c.table_name
-          WHERE ${allSchemas ? "t.table_schema NOT IN ('pg_catalog', 'information_schema')" : "t.table_schema = 'public'"}
-            AND t.table_type = 'BASE TABLE'
-          GROUP BY t.table_schema, t.table_name
-        ),
-        constraint_info AS (
-          SELECT 
-            tc.table_schema,
-            tc.table_name,
-            json_agg(
-              json_build_object(
-                'constraint_name', tc.constraint_name,
-                'constraint_type', tc.constraint_type,
-                'column_name', kcu.column_name
-              )
-            )::text as constraints
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          WHERE ${allSchemas ? "tc.table_schema NOT IN ('pg_catalog', 'information_schema')" : "tc.table_schema = 'public'"}
-          GROUP BY tc.table_schema, tc.table_name
-        )
-        SELECT 
-          'found' as type,
-          ti.table_schema,
-          ti.table_name,
-          ti.columns,
-          COALESCE(ci.constraints, '[]') as constraints,
-          NULL as missing_table,
-          NULL as suggestions
-        FROM table_info ti
-        LEFT JOIN constraint_info ci
-          ON ti.table_schema = ci.table_schema
-          AND ti.table_name = ci.table_name
-        ORDER BY ti.table_schema, ti.table_name;
-        `;
+        if (!out) {
+          process.stdout.write(content);
+        } else {
+          const outPath = resolve(process.cwd(), out);
+          writeFileSync(outPath, content);
+          if (jsonMode) {
+            cliOutput.json({ success: true, path: outPath, tables: tableCount });
+          } else {
+            cliOutput.log(`✓ Schema snapshot written to ${outPath} (${tableCount} tables)`);
+          }
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      }
+
+      const { tables, format, summary } = parseSchemaCommandArgs(filteredArgs.slice(1));
+      const schemaOptions = buildSchemaOptions(include);
+
+      // Errors fall through to the shared handler below
+      const executor = new SqlExecutor(databaseUrl as string);
+      try {
+        const start = Date.now();
+        if (summary) {
+          const tableSummary = await executor.getTableSummary(allSchemas);
+          const duration = Date.now() - start;
+          if (jsonMode || format === 'json') {
+            cliOutput.json({ success: true, tables: tableSummary, duration });
+          } else {
+            cliOutput.log(formatTableSummaryText(tableSummary));
+            cliOutput.log(`✓ ${tableSummary.length} tables - ${duration}ms`);
+          }
+        } else {
+          const schema = await executor.getSchema(
+            tables.length > 0 ? tables : undefined,
+            allSchemas,
+            schemaOptions
+          );
+          const duration = Date.now() - start;
+
+          if (jsonMode || format === 'json') {
+            cliOutput.json({ success: true, ...schema, duration });
+          } else {
+            cliOutput.log(renderSchema(schema, format));
+            if (format === 'text') {
+              cliOutput.log(`✓ ${schema.tables.length} tables - ${duration}ms`);
+            }
+          }
+        }
+      } finally {
+        await executor.close();
       }
+      await cleanupPool(pool);
+      process.exit(0);
     } else if (filteredArgs[0] === 'exec' || filteredArgs[0] === 'file') {
       // Command recognized but missing argument
       if (jsonMode) {
@@ -674,6 +1241,153 @@ async function main(): Promise<void> {
       if (sqlKeywords.includes(firstWord)) {
         // Direct SQL command
         sql = filteredArgs.join(' ');
+      } else if (filteredArgs[0] === 'explain') {
+        if (!filteredArgs[1]) {
+          const error = createNoSqlQueryError();
+          const output = formatError(error.message, jsonMode, error.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+
+        // Errors fall through to the shared handler below
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const result = await executor.explain(filteredArgs[1], {
+            analyze,
+            buffers,
+            params: buildQueryParams(params, paramsJson),
+            timeoutMs: timeout,
+          });
+
+          if (jsonMode) {
+            cliOutput.json({
+              success: true,
+              analyzed: result.analyzed,
+              summary: result.summary,
+              plan: result.plan,
+              duration: result.duration,
+            });
+          } else {
+            cliOutput.log('QUERY PLAN SUMMARY:\n');
+            cliOutput.log(formatPlanSummaryText(result.summary));
+            if (result.analyzed) {
+              cliOutput.log('(The statement was executed and rolled back)');
+            }
+            cliOutput.log(`\n✓ EXPLAIN - ${result.duration}ms`);
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'profile') {
+        const { table, options } = parseProfileArgs(filteredArgs.slice(1));
+
+        // Errors fall through to the shared handler below
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const profile = await executor.profileTable(table, { ...options, timeoutMs: timeout });
+          if (jsonMode) {
+            cliOutput.json({ success: true, ...profile });
+          } else {
+            cliOutput.log(formatProfileText(profile));
+            cliOutput.log(`✓ ${profile.columns.length} columns - ${profile.duration}ms`);
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'permissions') {
+        const { role, privilege, table, column } = parsePermissionArgs(filteredArgs.slice(1));
+
+        // Errors fall through to the shared handler below
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const check = await executor.checkPermission(role, table, privilege, column);
+          if (jsonMode) {
+            cliOutput.json({ success: true, ...check });
+          } else {
+            cliOutput.log(formatPermissionText(check));
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'erd') {
+        const { format, options } = parseErdArgs(filteredArgs.slice(1));
+        // Schemas other than public are only introspected with --all
+        const erdAllSchemas =
+          allSchemas || (options.schemas || []).some(schema => schema !== 'public');
+
+        // Errors fall through to the shared handler below
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const schema = await executor.getSchema(undefined, erdAllSchemas);
+          const graph = buildErdGraph(schema, options);
+          const diagram = renderErd(graph, format, options);
+
+          if (jsonMode) {
+            cliOutput.json({
+              success: true,
+              format,
+              tables: graph.tables.length,
+              relationships: graph.relationships.length,
+              ...(graph.missingTables.length > 0 && { missingTables: graph.missingTables }),
+              diagram,
+            });
+          } else {
+            process.stdout.write(diagram);
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'codegen') {
+        const { target, out } = parseCodegenArgs(filteredArgs.slice(1));
+
+        // Errors fall through to the shared handler below
+        const executor = new SqlExecutor(databaseUrl as string);
+        try {
+          const schema = await executor.getSchema(undefined, allSchemas, {
+            includeViews: true,
+            includeMaterializedViews: true,
+            includeTypes: true,
+          });
+          const generated = generateCode(schema, target);
+
+          if (!out) {
+            process.stdout.write(generated.code);
+          } else {
+            const outPath = resolve(process.cwd(), out);
+            writeFileSync(outPath, generated.code);
+            if (jsonMode) {
+              cliOutput.json({
+                success: true,
+                path: outPath,
+                target,
+                tables: generated.tables,
+                views: generated.views,
+                enums: generated.enums,
+              });
+            } else {
+              cliOutput.log(
+                `✓ Generated ${target} types for ${generated.tables} tables, ${generated.views} views and ${generated.enums} enums in ${outPath}`
+              );
+            }
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
       } else if (filteredArgs[0] === 'backup') {
         // Handle backup command
         const executor = new SqlExecutor(databaseUrl as string);
@@ -762,13 +1476,39 @@ async function main(): Promise<void> {
       }
     }
 
+    // Stream rows through a cursor instead of buffering the whole result
+    if (streamFormat) {
+      if (filteredArgs[0] === 'file') {
+        throw createStreamNotSupportedError(filteredArgs[0]);
+      }
+      const streamExecutor = new SqlExecutor(databaseUrl as string);
+      try {
+        const queryParams = buildQueryParams(params, paramsJson);
+        await writeStreamedRows(
+          streamExecutor.streamQuery(sql, { params: queryParams, batchSize, timeoutMs: timeout }),
+          streamFormat,
+          process.stdout
+        );
+      } finally {
+        await streamExecutor.close();
+      }
+      await cleanupPool(pool);
+      process.exit(0);
+    }
+
     // Execute the query using SqlExecutor
     const executor = new SqlExecutor(databaseUrl as string);
     let result: QueryResult;
 
     try {
+      const queryParams = buildQueryParams(params, paramsJson);
       if (filteredArgs[0] === 'file') {
+        if (queryParams) {
+          throw createInvalidParamsError('parameters are only supported for exec');
+        }
         result = await executor.executeFile(filteredArgs[1], !noTransaction, timeout);
+      } else if (queryParams) {
+        result = await executor.executeQuery(sql, queryParams, !noTransaction, timeout);
       } else {
         result = await executor.executeQuery(sql, !noTransaction, timeout);
       }
@@ -784,67 +1524,22 @@ async function main(): Promise<void> {
         rowCount: result.rowCount || 0,
         rows: result.rows || [],
         duration: result.duration || 0,
+        ...(result.statements && { statements: result.statements }),
       };
       cliOutput.json(output);
     } else {
-      // Special handling for schema command
-      if (filteredArgs[0] === 'schema' && result.rows && result.rows.length > 0) {
-        cliOutput.log('DATABASE SCHEMA:\n');
-
-        // Separate found and missing tables
-        const foundTables = result.rows.filter(r => r.type === 'found');
-        const missingTables = result.rows.filter(r => r.type === 'missing');
-
-        // Display found tables
-        for (const table of foundTables) {
-          cliOutput.log(`📋 ${table.table_schema}.${table.table_name}`);
-
-          // Display columns
-          const columns: Column[] = JSON.parse(table.columns as string);
-          cliOutput.log('  Columns:');
-          for (const col of columns) {
-            const nullable = col.is_nullable === 'YES' ? ' (nullable)' : '';
-            const dataType = col.character_maximum_length
-              ? `${col.data_type}(${col.character_maximum_length})`
-              : col.data_type;
-            const defaultVal = col.column_default ? ` DEFAULT ${col.column_default}` : '';
-            cliOutput.log(`    - ${col.column_name}: ${dataType}${nullable}${defaultVal}`);
-          }
-
-          // Display constraints
-          const constraints: Constraint[] = JSON.parse(table.constraints as string);
-          if (constraints.length > 0) {
-            cliOutput.log('  Constraints:');
-            const constraintsByType = constraints.reduce(
-              (acc: Record<string, Constraint[]>, c: Constraint) => {
-                if (!acc[c.constraint_type]) acc[c.constraint_type] = [];
-                acc[c.constraint_type].push(c);
-                return acc;
-              },
-              {}
-            );
-
-            for (const [type, consts] of Object.entries(constraintsByType)) {
-              const columns = consts.map(c => c.column_name).join(', ');
-              cliOutput.log(`    - ${type}: ${columns}`);
-            }
-          }
-          cliOutput.log('');
-        }
+      if (result.rows && result.rows.length > 0) {
+        cliOutput.table(result.rows);
+      }
 
-        // Display missing tables with suggestions
-        if (missingTables.length > 0) {
-          cliOutput.log('❌ TABLES NOT FOUND:\n');
-          for (const missing of missingTables) {
-            cliOutput.log(`  - "${missing.missing_table}"`);
-            if (missing.suggestions) {
-              cliOutput.log(`    Did you mean: ${missing.suggestions}?`);
-            }
-          }
-          cliOutput.log('');
+      // Per-statement summary for multi-statement files
+      if (result.statements && result.statements.length > 1) {
+        cliOutput.log('');
+        for (const statement of result.statements) {
+          cliOutput.log(
+            `  ✓ [${statement.index + 1}] ${statement.command} (lines ${statement.startLine}-${statement.endLine}) ${statement.rowCount ? `(${statement.rowCount} rows) ` : ''}- ${statement.duration}ms`
+          );
         }
-      } else if (result.rows && result.rows.length > 0) {
-        cliOutput.table(result.rows);
       }
 
       // Show execution info
@@ -860,13 +1555,33 @@ async function main(): Promise<void> {
         success: false,
         error: err.message,
         position: err.position,
+        ...(err instanceof ReadOnlyViolationError && {
+          code: err.code,
+          statementIndex: err.statementIndex,
+          command: err.command,
+          statement: err.statement,
+        }),
+        ...(err instanceof StatementExecutionError && {
+          statementIndex: err.statementIndex,
+          line: err.line,
+          startLine: err.startLine,
+          endLine: err.endLine,
+        }),
+        ...(err instanceof SqlAgentError && { code: err.code, hint: err.hint }),
       };
       cliOutput.json(errorOutput);
     } else {
       cliOutput.error(`\nError: ${err.message}`);
-      if (err.position) {
+      if (err instanceof StatementExecutionError) {
+        cliOutput.error(
+          `Statement: ${err.statementIndex + 1} (lines ${err.startLine}-${err.endLine}), error at line ${err.line}`
+        );
+      } else if (err.position) {
         cliOutput.error(`Position: ${err.position}`);
       }
+      if (err instanceof SqlAgentError && err.hint) {
+        cliOutput.error(err.hint);
+      }
     }
     await pool.end();
     process.exit(1);
@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import type { StreamBatch, StreamQueryOptions } from './sql-executor';
+
+export type StreamFactory = (
+  sql: string,
+  options: StreamQueryOptions
+) => AsyncGenerator<StreamBatch>;
+
+export interface CursorOpenOptions {
+  params?: unknown[];
+  pageSize?: number;
+  timeoutMs?: number;
+  owner?: string; // e.g. an MCP HTTP session id; other owners can't see the cursor
+}
+
+export interface CursorManagerOptions {
+  idleTimeoutMs?: number;
+  maxCursors?: number;
+}
+
+export interface CursorPage {
+  cursor?: string; // Only set while more rows may be available
+  fields: string[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  hasMore: boolean;
+  duration: number;
+}
+
+interface OpenCursor {
+  id: string;
+  stream: AsyncGenerator<StreamBatch>;
+  owner?: string;
+  timer?: NodeJS.Timeout;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Keeps query cursors open between tool calls so large results can be paged through
+ * Each open cursor holds a pooled client; idle cursors are closed after a timeout
+ */
+export class CursorManager {
+  private cursors: Map<string, OpenCursor> = new Map();
+  private idleTimeoutMs: number;
+  private maxCursors: number;
+
+  constructor(
+    private openStream: StreamFactory,
+    options: CursorManagerOptions = {}
+  ) {
+    this.idleTimeoutMs =
+      options.idleTimeoutMs ||
+      (process.env.SEQUELAE_CURSOR_IDLE_TIMEOUT
+        ? parseInt(process.env.SEQUELAE_CURSOR_IDLE_TIMEOUT)
+        : 120000); // 2 minutes default
+    this.maxCursors =
+      options.maxCursors ||
+      (process.env.SEQUELAE_MAX_CURSORS ? parseInt(process.env.SEQUELAE_MAX_CURSORS) : 5);
+  }
+
+  /**
+   * Run a query and return its first page
+   * A cursor id is returned only when the result did not fit in one page
+   */
+  async open(sql: string, options: CursorOpenOptions = {}): Promise<CursorPage> {
+    if (this.cursors.size >= this.maxCursors) {
+      throw new Error(
+        `Too many open cursors (max ${this.maxCursors}). Page through or close an existing cursor first.`
+      );
+    }
+
+    const pageSize =
+      options.pageSize && options.pageSize > 0 ? options.pageSize : DEFAULT_PAGE_SIZE;
+    const cursor: OpenCursor = {
+      id: randomUUID(),
+      stream: this.openStream(sql, {
+        params: options.params,
+        batchSize: pageSize,
+        timeoutMs: options.timeoutMs,
+      }),
+      owner: options.owner,
+    };
+
+    // Register before the first fetch so a concurrent open can't exceed the limit
+    this.cursors.set(cursor.id, cursor);
+    return this.nextPage(cursor);
+  }
+
+  /**
+   * Fetch the next page of an open cursor
+   */
+  async fetch(cursorId: string, owner?: string): Promise<CursorPage> {
+    return this.nextPage(this.getCursor(cursorId, owner));
+  }
+
+  /**
+   * Close a cursor before it is exhausted
+   */
+  async close(cursorId: string, owner?: string): Promise<void> {
+    const cursor = this.getCursor(cursorId, owner);
+    this.remove(cursor);
+    await cursor.stream.return(undefined);
+  }
+
+  /**
+   * Number of open cursors
+   */
+  count(): number {
+    return this.cursors.size;
+  }
+
+  /**
+   * Close every open cursor (used on shutdown)
+   */
+  async closeAll(): Promise<void> {
+    const cursors = [...this.cursors.values()];
+    for (const cursor of cursors) {
+      try {
+        await this.close(cursor.id, cursor.owner);
+      } catch (error) {
+        logger.error('Error closing cursor during shutdown:', { cursorId: cursor.id, error });
+      }
+    }
+  }
+
+  /**
+   * Close every cursor an owner opened, e.g. when its MCP HTTP session ends
+   */
+  async closeOwnedBy(owner: string): Promise<void> {
+    const cursors = [...this.cursors.values()].filter(cursor => cursor.owner === owner);
+    for (const cursor of cursors) {
+      try {
+        await this.close(cursor.id, owner);
+      } catch (error) {
+        logger.error('Error closing cursor of a closed owner:', { cursorId: cursor.id, error });
+      }
+    }
+  }
+
+  private async nextPage(cursor: OpenCursor): Promise<CursorPage> {
+    const start = Date.now();
+    let batch: IteratorResult<StreamBatch>;
+    try {
+      batch = await cursor.stream.next();
+    } catch (error) {
+      // The stream has already rolled back and released its client
+      this.remove(cursor);
+      throw error;
+    }
+
+    const page = batch.done ? { fields: [], rows: [], done: true } : batch.value;
+    if (page.done) {
+      this.remove(cursor);
+      // Let the stream commit and release its client
+      await cursor.stream.next();
+    } else {
+      this.touch(cursor);
+    }
+
+    return {
+      ...(!page.done && { cursor: cursor.id }),
+      fields: page.fields,
+      rows: page.rows,
+      rowCount: page.rows.length,
+      hasMore: !page.done,
+      duration: Date.now() - start,
+    };
+  }
+
+  // Another owner's cursor reads as missing, so its id can't be probed
+  private getCursor(cursorId: string, owner?: string): OpenCursor {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor || cursor.owner !== owner) {
+      throw new Error(
+        `Cursor not found: ${cursorId}. It may have been exhausted, closed or expired after ${this.idleTimeoutMs}ms of inactivity.`
+      );
+    }
+    return cursor;
+  }
+
+  private remove(cursor: OpenCursor): void {
+    if (cursor.timer) {
+      clearTimeout(cursor.timer);
+    }
+    this.cursors.delete(cursor.id);
+  }
+
+  /**
+   * Restart the idle timer; an expired cursor is closed automatically
+   */
+  private touch(cursor: OpenCursor): void {
+    if (cursor.timer) {
+      clearTimeout(cursor.timer);
+    }
+    cursor.timer = setTimeout(() => {
+      logger.warn('Closing idle cursor', {
+        cursorId: cursor.id,
+        idleTimeoutMs: this.idleTimeoutMs,
+      });
+      this.close(cursor.id, cursor.owner).catch(error => {
+        logger.error('Error closing idle cursor:', { cursorId: cursor.id, error });
+      });
+    }, this.idleTimeoutMs);
+    // Don't keep the process alive just for cursor timers
+    cursor.timer.unref();
+  }
+}
@@ -27,6 +27,14 @@ export class PoolManager {
     return PoolManager.instance;
   }
 
+  /**
+   * A separate pool that is not shared, for talking to a second database
+   * The caller owns it and must close() it
+   */
+  static createDedicated(): PoolManager {
+    return new PoolManager();
+  }
+
   /**
    * Initialize the pool with configuration
    */
@@ -0,0 +1,56 @@
+/**
+ * Files a project keeps next to its code for the MCP server, under `.sequelae/`
+ * (or SEQUELAE_PROJECT_DIR), e.g. saved queries in `.sequelae/queries/*.sql`
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+
+export interface ProjectFile {
+  name: string; // File name without the extension
+  path: string;
+  content: string;
+}
+
+// Names map to files in one directory: no separators, no leading dot
+const FILE_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+export function getProjectDir(): string {
+  return process.env.SEQUELAE_PROJECT_DIR || join(process.cwd(), '.sequelae');
+}
+
+/**
+ * Every `extension` file in a project subdirectory, sorted by name; none when the directory is missing
+ */
+export function listProjectFiles(subdir: string, extension: string): ProjectFile[] {
+  const dir = join(getProjectDir(), subdir);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter(file => extname(file) === extension && FILE_NAME.test(file))
+    .sort()
+    .map(file => ({
+      name: basename(file, extension),
+      path: join(dir, file),
+      content: readFileSync(join(dir, file), 'utf8'),
+    }));
+}
+
+/**
+ * One project file by name, or null when there is no such file
+ */
+export function readProjectFile(
+  subdir: string,
+  name: string,
+  extension: string
+): ProjectFile | null {
+  if (!FILE_NAME.test(name)) {
+    return null;
+  }
+  const path = join(getProjectDir(), subdir, `${name}${extension}`);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return { name, path, content: readFileSync(path, 'utf8') };
+}
@@ -0,0 +1,242 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { ConstraintInfo, MissingTableInfo, SchemaOptions, SchemaResult } from './sql-executor';
+
+/**
+ * Versioned schema snapshots
+ * A snapshot is a SchemaResult saved to disk in a stable form, so it can be committed,
+ * diffed in review and served to agents when no database is reachable
+ */
+
+export const SCHEMA_SNAPSHOT_VERSION = 1;
+
+export interface SchemaSnapshot {
+  version: number;
+  allSchemas: boolean; // Whether every schema was captured, or only public
+  schema: SchemaResult;
+}
+
+// Errors meaning the database could not be reached at all, as opposed to a failing query
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  '57P03', // cannot_connect_now
+]);
+
+const CONSTRAINT_ORDER: ConstraintInfo['constraint_type'][] = [
+  'PRIMARY KEY',
+  'UNIQUE',
+  'FOREIGN KEY',
+];
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortBy<T>(items: T[] | undefined, key: (item: T) => string[]): T[] | undefined {
+  if (!items) {
+    return undefined;
+  }
+  return [...items].sort((a, b) => {
+    const left = key(a);
+    const right = key(b);
+    for (let i = 0; i < left.length; i++) {
+      const order = compareText(left[i], right[i]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return 0;
+  });
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort(compareText)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Snapshot of a schema with every list in a fixed order
+ * Column, enum label and key column order is meaningful and kept as is;
+ * tables, constraints and other objects are sorted by name. Missing tables are dropped,
+ * and so are row estimates and sizes, which change without any change to the schema
+ */
+export function createSchemaSnapshot(schema: SchemaResult, allSchemas: boolean): SchemaSnapshot {
+  const tables = sortBy(schema.tables, t => [t.schema, t.name]) || [];
+  return {
+    version: SCHEMA_SNAPSHOT_VERSION,
+    allSchemas,
+    schema: {
+      tables: tables.map(
+        ({ rowEstimate: _rows, totalBytes: _total, indexBytes: _indexes, ...table }) => ({
+          ...table,
+          constraints:
+            sortBy(table.constraints, c => [
+              String(CONSTRAINT_ORDER.indexOf(c.constraint_type)),
+              c.constraint_name,
+            ]) || [],
+        })
+      ),
+      views: sortBy(schema.views, v => [v.schema, v.name]),
+      materializedViews: sortBy(schema.materializedViews, v => [v.schema, v.name]),
+      types: sortBy(schema.types, t => [t.schema, t.name]),
+      functions: sortBy(schema.functions, f => [f.schema, f.name, f.arguments]),
+      indexes: sortBy(schema.indexes, i => [i.schema, i.table, i.name]),
+      triggers: sortBy(schema.triggers, t => [t.schema, t.table, t.name]),
+      sequences: sortBy(schema.sequences, s => [s.schema, s.name]),
+      rowSecurity: sortBy(schema.rowSecurity, r => [r.schema, r.table])?.map(info => ({
+        ...info,
+        policies: sortBy(info.policies, p => [p.name]) || [],
+      })),
+      grants: sortBy(schema.grants, g => [g.schema, g.table, g.grantee]),
+    },
+  };
+}
+
+/**
+ * JSON text of a snapshot with sorted keys, so the same schema always gives the same bytes
+ */
+export function serializeSchemaSnapshot(snapshot: SchemaSnapshot): string {
+  return `${JSON.stringify(sortKeys(snapshot), null, 2)}\n`;
+}
+
+function isSnapshotEnvelope(value: object): value is SchemaSnapshot {
+  return 'version' in value && 'schema' in value;
+}
+
+/**
+ * Read a snapshot, or a plain schema saved from getSchema / sql_schema, from disk
+ */
+export function readSchemaSnapshot(filepath: string): SchemaSnapshot {
+  const resolved = resolve(process.cwd(), filepath);
+  if (!existsSync(resolved)) {
+    throw new Error(`Schema file not found: ${resolved}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolved, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid schema file ${resolved}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`Invalid schema file ${resolved}: expected an object with a "tables" array`);
+  }
+
+  if (isSnapshotEnvelope(parsed)) {
+    if (typeof parsed.version !== 'number' || parsed.version > SCHEMA_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported schema snapshot version ${parsed.version} in ${resolved} (supported: ${SCHEMA_SNAPSHOT_VERSION}). Upgrade sequelae-mcp to read it`
+      );
+    }
+    if (!parsed.schema || !Array.isArray(parsed.schema.tables)) {
+      throw new Error(`Invalid schema file ${resolved}: expected an object with a "tables" array`);
+    }
+    return { ...parsed, allSchemas: parsed.allSchemas === true };
+  }
+
+  const schema = parsed as SchemaResult;
+  if (!Array.isArray(schema.tables)) {
+    throw new Error(`Invalid schema file ${resolved}: expected an object with a "tables" array`);
+  }
+  return {
+    version: SCHEMA_SNAPSHOT_VERSION,
+    allSchemas: schema.tables.some(table => table.schema !== 'public'),
+    schema,
+  };
+}
+
+/**
+ * Answer a getSchema call from a snapshot, applying the same table, schema and object filters
+ * Missing table suggestions follow the database query: same first three letters first, then shortest
+ */
+export function querySchemaSnapshot(
+  snapshot: SchemaSnapshot,
+  tables?: string[],
+  allSchemas = false,
+  options: SchemaOptions = {}
+): SchemaResult {
+  const { schema } = snapshot;
+  const inScope = (item: { schema: string }): boolean => allSchemas || item.schema === 'public';
+  const inTables = (name: string): boolean => !tables || tables.includes(name);
+
+  const available = schema.tables.filter(inScope);
+  const found = available.filter(table => inTables(table.name));
+  const missingTables: MissingTableInfo[] = (tables || [])
+    .filter((name, index, all) => all.indexOf(name) === index)
+    .filter(name => !available.some(table => table.name === name))
+    .map(name => {
+      const prefix = name.slice(0, 3).toLowerCase();
+      const suggestions = available
+        .map(table => table.name)
+        .filter(candidate => candidate.toLowerCase().includes(prefix))
+        .sort(
+          (a, b) =>
+            Number(!a.toLowerCase().startsWith(prefix)) -
+              Number(!b.toLowerCase().startsWith(prefix)) || a.length - b.length
+        )
+        .slice(0, 3);
+      return { table_name: name, suggestions };
+    });
+
+  return {
+    tables: found,
+    ...(missingTables.length > 0 && { missingTables }),
+    ...(options.includeViews && {
+      views: (schema.views || []).filter(v => inScope(v) && inTables(v.name)),
+    }),
+    ...(options.includeMaterializedViews && {
+      materializedViews: (schema.materializedViews || []).filter(
+        v => inScope(v) && inTables(v.name)
+      ),
+    }),
+    ...(options.includeTypes && { types: (schema.types || []).filter(inScope) }),
+    ...(options.includeFunctions && { functions: (schema.functions || []).filter(inScope) }),
+    ...(options.includeIndexes && {
+      indexes: (schema.indexes || []).filter(i => inScope(i) && inTables(i.table)),
+    }),
+    ...(options.includeTriggers && {
+      triggers: (schema.triggers || []).filter(t => inScope(t) && inTables(t.table)),
+    }),
+    ...(options.includeSequences && { sequences: (schema.sequences || []).filter(inScope) }),
+    ...(options.includePolicies && {
+      rowSecurity: (schema.rowSecurity || []).filter(r => inScope(r) && inTables(r.table)),
+    }),
+    ...(options.includeGrants && {
+      grants: (schema.grants || []).filter(g => inScope(g) && inTables(g.table)),
+    }),
+  };
+}
+
+/**
+ * Whether an error means the database is unreachable (refused, unresolvable, timed out,
+ * or a SQLSTATE class 08 connection exception) rather than a problem with the query
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : '';
+  return /connection terminated|timeout exceeded when trying to connect/i.test(message);
+}
@@ -0,0 +1,73 @@
+import { readProjectFile } from './project-files';
+import { readSchemaSnapshot } from './schema-snapshot';
+import { SchemaOptions, SchemaResult, SqlExecutor } from './sql-executor';
+
+/**
+ * Where a schema comes from: a live connection string, a snapshot or a JSON file written from getSchema
+ */
+export function isConnectionString(source: string): boolean {
+  return /^postgres(ql)?:\/\//i.test(source);
+}
+
+/**
+ * Label for a schema source that is safe to show, with any password removed
+ */
+export function describeSchemaSource(source: string): string {
+  if (!isConnectionString(source)) {
+    return source;
+  }
+  try {
+    const url = new URL(source);
+    url.password = '';
+    url.search = '';
+    return url.toString();
+  } catch (_error) {
+    return 'postgresql://<invalid connection string>';
+  }
+}
+
+/**
+ * Read a schema snapshot, or a schema saved as JSON from getSchema (or sql_schema with json output)
+ */
+export function readSchemaFile(filepath: string): SchemaResult {
+  return readSchemaSnapshot(filepath).schema;
+}
+
+/**
+ * The file behind a schema source an MCP agent names: a snapshot in the project's `snapshots/`
+ * directory. Other paths and connection strings would let the agent read any file or reach any
+ * host the server can, so they need SEQUELAE_SCHEMA_DIFF_ANY_SOURCE=true from the operator
+ */
+export function resolveAgentSchemaSource(source: string): string {
+  const snapshot = readProjectFile('snapshots', source, '.json');
+  if (snapshot) {
+    return snapshot.path;
+  }
+  if (process.env.SEQUELAE_SCHEMA_DIFF_ANY_SOURCE === 'true') {
+    return source;
+  }
+  throw new Error(
+    `Unknown schema snapshot: ${describeSchemaSource(source)}. Use "database" or the name of a snapshot in .sequelae/snapshots/`
+  );
+}
+
+/**
+ * Load a schema from a connection string or a JSON file
+ * Connections get a pool of their own so the shared pool keeps pointing at its database
+ */
+export async function loadSchemaSource(
+  source: string,
+  allSchemas = false,
+  options: SchemaOptions = {}
+): Promise<SchemaResult> {
+  if (!isConnectionString(source)) {
+    return readSchemaFile(source);
+  }
+
+  const executor = new SqlExecutor(source, { dedicatedPool: true });
+  try {
+    return await executor.getSchema(undefined, allSchemas, options);
+  } finally {
+    await executor.close();
+  }
+}
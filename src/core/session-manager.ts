@@ -0,0 +1,332 @@
+import { PoolClient } from 'pg';
+import { randomUUID } from 'crypto';
+import { PoolManager } from './pool-manager';
+import { logger } from '../utils/logger';
+import { assertReadOnly } from '../utils/sql-classifier';
+import { splitSqlStatements } from '../utils/sql-splitter';
+import type { QueryResult } from './sql-executor';
+
+export interface SessionManagerOptions {
+  readOnly?: boolean;
+  idleTimeoutMs?: number;
+  maxSessions?: number;
+}
+
+export interface SessionBeginOptions {
+  readOnly?: boolean;
+  isolationLevel?: string;
+  owner?: string; // e.g. an MCP HTTP session id; other owners can't see the session
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  readOnly: boolean;
+  isolationLevel: string;
+  createdAt: string;
+  idleTimeoutMs: number;
+}
+
+export interface SessionEndResult {
+  sessionId: string;
+  command: string;
+  committed: boolean;
+  duration: number;
+}
+
+interface Session {
+  id: string;
+  client: PoolClient;
+  readOnly: boolean;
+  isolationLevel: string;
+  createdAt: Date;
+  owner?: string;
+  timer?: NodeJS.Timeout;
+  busy: boolean;
+}
+
+const ISOLATION_LEVELS = ['read committed', 'repeatable read', 'serializable'];
+
+/**
+ * Keeps transactions open across tool calls by pinning a pooled client to a session id
+ * Abandoned sessions are rolled back after an idle timeout
+ */
+export class SessionManager {
+  private sessions: Map<string, Session> = new Map();
+  private readOnly: boolean;
+  private idleTimeoutMs: number;
+  private maxSessions: number;
+
+  constructor(
+    private poolManager: PoolManager,
+    options: SessionManagerOptions = {}
+  ) {
+    this.readOnly = options.readOnly || false;
+    this.idleTimeoutMs =
+      options.idleTimeoutMs ||
+      (process.env.SEQUELAE_SESSION_IDLE_TIMEOUT
+        ? parseInt(process.env.SEQUELAE_SESSION_IDLE_TIMEOUT)
+        : 300000); // 5 minutes default
+    this.maxSessions =
+      options.maxSessions ||
+      (process.env.SEQUELAE_MAX_SESSIONS ? parseInt(process.env.SEQUELAE_MAX_SESSIONS) : 5);
+  }
+
+  /**
+   * Open a transaction on a dedicated client
+   */
+  async begin(options: SessionBeginOptions = {}): Promise<SessionInfo> {
+    if (this.sessions.size >= this.maxSessions) {
+      throw new Error(
+        `Too many open sessions (max ${this.maxSessions}). Commit or roll back an existing session first.`
+      );
+    }
+
+    const isolationLevel = (options.isolationLevel || 'read committed').toLowerCase();
+    if (!ISOLATION_LEVELS.includes(isolationLevel)) {
+      throw new Error(`Invalid isolation level. Must be one of: ${ISOLATION_LEVELS.join(', ')}`);
+    }
+
+    // A session can only tighten the server-wide read-only setting, never relax it
+    const readOnly = this.readOnly || options.readOnly === true;
+
+    const client = await this.poolManager.getClient();
+    try {
+      await client.query(
+        `BEGIN ISOLATION LEVEL ${isolationLevel.toUpperCase()}${readOnly ? ' READ ONLY' : ''}`
+      );
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+
+    const session: Session = {
+      id: randomUUID(),
+      client,
+      readOnly,
+      isolationLevel,
+      createdAt: new Date(),
+      owner: options.owner,
+      busy: false,
+    };
+    this.sessions.set(session.id, session);
+    this.touch(session);
+
+    logger.debug('Session started', { sessionId: session.id, readOnly, isolationLevel });
+
+    return {
+      sessionId: session.id,
+      readOnly,
+      isolationLevel,
+      createdAt: session.createdAt.toISOString(),
+      idleTimeoutMs: this.idleTimeoutMs,
+    };
+  }
+
+  /**
+   * Run SQL inside an open session
+   */
+  async exec(
+    sessionId: string,
+    sql: string,
+    params?: unknown[],
+    timeoutMs?: number,
+    owner?: string
+  ): Promise<QueryResult> {
+    const session = this.getSession(sessionId, owner);
+
+    if (session.readOnly) {
+      assertReadOnly(sql);
+    }
+
+    const statements = splitSqlStatements(sql);
+    for (const statement of statements) {
+      if (this.isTransactionControl(statement.tokens.map(t => t.text.toUpperCase()))) {
+        throw new Error(
+          'Transaction control statements are not allowed in a session. Use sql_session_commit or sql_session_rollback instead.'
+        );
+      }
+    }
+    if (params && statements.length > 1) {
+      throw new Error('Parameterized queries must contain a single statement');
+    }
+
+    if (session.busy) {
+      throw new Error(`Session ${sessionId} is already executing a query`);
+    }
+
+    const start = Date.now();
+    session.busy = true;
+    try {
+      // SET LOCAL lasts until the session's transaction ends, so the timeout in effect before
+      // this call is put back afterwards. If the statement fails the transaction is aborted,
+      // and a ROLLBACK TO SAVEPOINT undoes the SET LOCAL along with everything else
+      let previousTimeout: string | undefined;
+      if (timeoutMs && timeoutMs > 0) {
+        const current = await session.client.query('SHOW statement_timeout');
+        previousTimeout = current.rows[0]?.statement_timeout;
+        await session.client.query(`SET LOCAL statement_timeout = ${timeoutMs}`);
+      }
+
+      const raw = params
+        ? await session.client.query(sql, params)
+        : await session.client.query(sql);
+      // Multi-statement queries return one result per statement; report the last
+      const result = Array.isArray(raw) ? raw[raw.length - 1] : raw;
+
+      if (previousTimeout !== undefined) {
+        await session.client.query("SELECT set_config('statement_timeout', $1, true)", [
+          previousTimeout,
+        ]);
+      }
+
+      return {
+        command: result?.command,
+        rowCount: result?.rowCount || 0,
+        rows: result?.rows || [],
+        duration: Date.now() - start,
+      };
+    } finally {
+      session.busy = false;
+      this.touch(session);
+    }
+  }
+
+  /**
+   * Commit the session's transaction and release its client
+   * PostgreSQL turns a COMMIT of a failed transaction into a ROLLBACK
+   */
+  async commit(sessionId: string, owner?: string): Promise<SessionEndResult> {
+    return this.end(sessionId, 'COMMIT', owner);
+  }
+
+  /**
+   * Roll back the session's transaction and release its client
+   */
+  async rollback(sessionId: string, owner?: string): Promise<SessionEndResult> {
+    return this.end(sessionId, 'ROLLBACK', owner);
+  }
+
+  /**
+   * Number of open sessions
+   */
+  count(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Roll back every open session (used on shutdown)
+   */
+  async closeAll(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    for (const session of sessions) {
+      try {
+        await this.rollback(session.id, session.owner);
+      } catch (error) {
+        logger.error('Error rolling back session during shutdown:', {
+          sessionId: session.id,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Roll back every session an owner opened, e.g. when its MCP HTTP session ends
+   * A session in the middle of a query is left to its idle timeout
+   */
+  async closeOwnedBy(owner: string): Promise<void> {
+    const sessions = [...this.sessions.values()].filter(session => session.owner === owner);
+    for (const session of sessions) {
+      try {
+        await this.rollback(session.id, owner);
+      } catch (error) {
+        logger.error('Error rolling back session of a closed owner:', {
+          sessionId: session.id,
+          error,
+        });
+      }
+    }
+  }
+
+  private async end(
+    sessionId: string,
+    command: 'COMMIT' | 'ROLLBACK',
+    owner?: string
+  ): Promise<SessionEndResult> {
+    const session = this.getSession(sessionId, owner);
+    if (session.busy) {
+      throw new Error(`Session ${sessionId} is already executing a query`);
+    }
+
+    const start = Date.now();
+    this.remove(session);
+
+    let releaseError: Error | undefined;
+    try {
+      const result = await session.client.query(command);
+      return {
+        sessionId,
+        command: result.command,
+        committed: command === 'COMMIT' && result.command === 'COMMIT',
+        duration: Date.now() - start,
+      };
+    } catch (error) {
+      // Don't hand a client in an unknown transaction state back to the pool
+      releaseError = error instanceof Error ? error : new Error(String(error));
+      throw error;
+    } finally {
+      session.client.release(releaseError);
+    }
+  }
+
+  // Another owner's session reads as missing, so its id can't be probed
+  private getSession(sessionId: string, owner?: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== owner) {
+      throw new Error(
+        `Session not found: ${sessionId}. It may have been committed, rolled back or expired after ${this.idleTimeoutMs}ms of inactivity.`
+      );
+    }
+    return session;
+  }
+
+  private remove(session: Session): void {
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    this.sessions.delete(session.id);
+  }
+
+  /**
+   * Restart the idle timer; an expired session is rolled back automatically
+   */
+  private touch(session: Session): void {
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
+    session.timer = setTimeout(() => {
+      logger.warn('Rolling back idle session', {
+        sessionId: session.id,
+        idleTimeoutMs: this.idleTimeoutMs,
+      });
+      this.rollback(session.id, session.owner).catch(error => {
+        logger.error('Error rolling back idle session:', { sessionId: session.id, error });
+      });
+    }, this.idleTimeoutMs);
+    // Don't keep the process alive just for session timers
+    session.timer.unref();
+  }
+
+  private isTransactionControl(words: string[]): boolean {
+    const [first, second] = words;
+    if (first === 'ROLLBACK' || first === 'ABORT') {
+      // ROLLBACK TO SAVEPOINT stays inside the transaction
+      return second !== 'TO';
+    }
+    if (first === 'PREPARE') {
+      // PREPARE TRANSACTION hands the transaction over to two-phase commit
+      return second === 'TRANSACTION';
+    }
+    return ['BEGIN', 'START', 'COMMIT', 'END'].includes(first);
+  }
+}
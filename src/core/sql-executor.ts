@@ -1,26 +1,303 @@
-import { QueryResult as PgQueryResult } from 'pg';
+import { PoolClient, QueryResult as PgQueryResult } from 'pg';
 import { PoolManager } from './pool-manager';
+import { SessionManager } from './session-manager';
+import { CursorManager } from './cursor-manager';
 import { readFileSync, existsSync, statSync, accessSync, constants } from 'fs';
 import { resolve, dirname, isAbsolute, normalize } from 'path';
 import { spawn } from 'child_process';
 import { BackupOptions, BackupResult } from '../types/backup';
 import { logger } from '../utils/logger';
+import { assertReadOnly } from '../utils/sql-classifier';
+import { SqlStatement, splitSqlStatements } from '../utils/sql-splitter';
+import {
+  ExplainOutput,
+  PlanSummary,
+  parseExplainOutput,
+  seqScanRelations,
+  summarizePlan,
+} from '../utils/plan-summary';
+import {
+  ColumnSampleRow,
+  ColumnStatsRow,
+  isRangeColumn,
+  profileColumnFromSample,
+  profileColumnFromStats,
+  SampleMethod,
+  TableProfile,
+} from '../utils/table-profile';
 
 export interface QueryResult {
   command?: string;
   rowCount?: number;
   rows?: Record<string, unknown>[];
   duration?: number;
+  statements?: StatementResult[];
 }
 
-export interface SchemaResult {
+export interface StatementResult {
+  index: number;
+  command?: string;
+  rowCount: number;
+  rows: Record<string, unknown>[];
+  duration: number;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Raised when one statement of a multi-statement script fails
+ * Carries the statement index and the line within the script where it failed
+ */
+export class StatementExecutionError extends Error {
+  public readonly code?: string;
+  public readonly position?: number;
+
+  constructor(
+    message: string,
+    public readonly statementIndex: number,
+    public readonly line: number,
+    public readonly startLine: number,
+    public readonly endLine: number,
+    cause: Error & { code?: string; position?: string | number }
+  ) {
+    super(message);
+    this.name = 'StatementExecutionError';
+    this.code = cause.code;
+    this.position = cause.position !== undefined ? Number(cause.position) : undefined;
+  }
+}
+
+export interface SqlExecutorOptions {
+  // Reject anything but reads and run queries inside BEGIN READ ONLY
+  readOnly?: boolean;
+  // Use a pool of its own instead of the shared one, e.g. to compare two databases;
+  // close() ends it
+  dedicatedPool?: boolean;
+}
+
+export interface StreamQueryOptions {
+  params?: unknown[];
+  batchSize?: number; // Rows fetched per round trip
+  timeoutMs?: number; // Applies to each FETCH
+}
+
+export interface StreamBatch {
+  fields: string[];
+  rows: Record<string, unknown>[];
+  done: boolean; // True once the cursor is exhausted
+}
+
+export interface ExplainOptions {
+  analyze?: boolean; // Actually run the statement (always rolled back)
+  buffers?: boolean;
+  params?: unknown[];
+  timeoutMs?: number;
+}
+
+export interface ExplainResult {
+  plan: ExplainOutput;
+  summary: PlanSummary;
+  analyzed: boolean;
+  duration: number;
+}
+
+export interface ProfileOptions {
+  samplePercent?: number; // Profile exactly over a TABLESAMPLE of this many percent of the table
+  method?: SampleMethod; // system (default, reads whole pages) or bernoulli (reads every row)
+  top?: number; // Most common values per column (default 10)
+  timeoutMs?: number;
+}
+
+export interface SampleRowsOptions {
+  rows?: number; // How many rows (default 10, at most 100)
+  // random: ORDER BY random() over the whole table; system/bernoulli: TABLESAMPLE sized from the
+  // row estimate. Default: random up to 100000 estimated rows, bernoulli beyond
+  method?: 'random' | SampleMethod;
+  timeoutMs?: number;
+}
+
+export interface RowSample {
+  schema: string;
+  table: string;
+  rowEstimate: number | null;
+  method: 'random' | SampleMethod;
+  percent?: number; // TABLESAMPLE percentage used
+  columns: { column_name: string; data_type: string }[];
+  rows: Record<string, unknown>[];
+  duration: number;
+}
+
+const STREAM_CURSOR_NAME = 'sequelae_stream';
+const DEFAULT_PROFILE_TOP = 10;
+const DEFAULT_SAMPLE_ROWS = 10;
+const MAX_SAMPLE_ROWS = 100;
+const RANDOM_SAMPLE_MAX_ROWS = 100000; // Larger tables are sampled with TABLESAMPLE by default
+const SAMPLE_OVERSAMPLING = 3; // TABLESAMPLE asks for this many times the rows, as its size varies
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+const STREAMABLE_COMMANDS = ['SELECT', 'WITH', 'VALUES', 'TABLE'];
+
+export interface SchemaResult extends SchemaObjects {
   tables: TableInfo[];
   missingTables?: MissingTableInfo[];
 }
 
+// Opt-in extras beyond tables, each adds one catalog query
+export interface SchemaOptions {
+  includeViews?: boolean;
+  includeMaterializedViews?: boolean;
+  includeTypes?: boolean;
+  includeFunctions?: boolean;
+  includeIndexes?: boolean;
+  includeTriggers?: boolean;
+  includeSequences?: boolean;
+  includePolicies?: boolean; // Row level security status and policies per table
+  includeGrants?: boolean; // Table and column privileges per role
+}
+
+export interface SchemaObjects {
+  views?: ViewInfo[];
+  materializedViews?: ViewInfo[];
+  types?: TypeInfo[];
+  functions?: FunctionInfo[];
+  indexes?: IndexInfo[];
+  triggers?: TriggerInfo[];
+  sequences?: SequenceInfo[];
+  rowSecurity?: RowSecurityInfo[];
+  grants?: GrantInfo[];
+}
+
+export interface ViewInfo {
+  schema: string;
+  name: string;
+  definition: string;
+  columns: { column_name: string; data_type: string }[];
+  populated?: boolean; // Materialized views only
+}
+
+export interface TypeInfo {
+  schema: string;
+  name: string;
+  kind: 'enum' | 'composite' | 'domain' | 'range';
+  labels?: string[]; // Enum values in sort order
+  attributes?: { name: string; type: string }[]; // Composite types
+  baseType?: string; // Domains
+}
+
+export interface FunctionInfo {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  arguments: string;
+  returnType: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+}
+
+export interface IndexInfo {
+  schema: string;
+  table: string;
+  name: string;
+  definition: string;
+  isUnique: boolean;
+  isPrimary: boolean;
+}
+
+export interface TriggerInfo {
+  schema: string;
+  table: string;
+  name: string;
+  definition: string;
+  enabled: boolean;
+}
+
+export interface SequenceInfo {
+  schema: string;
+  name: string;
+  dataType: string;
+  startValue: string; // bigint values are kept as strings
+  increment: string;
+  minValue: string;
+  maxValue: string;
+  cycle: boolean;
+  ownedBy: string | null; // "schema.table.column" for serial/identity sequences
+}
+
+export interface RowSecurityInfo {
+  schema: string;
+  table: string;
+  enabled: boolean; // ALTER TABLE ... ENABLE ROW LEVEL SECURITY
+  forced: boolean; // FORCE ROW LEVEL SECURITY: policies apply to the table owner too
+  policies: PolicyInfo[];
+}
+
+// One pg_policies entry
+export interface PolicyInfo {
+  name: string;
+  command: 'ALL' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+  permissive: boolean; // Permissive policies are OR-ed together, restrictive ones AND-ed on top
+  roles: string[]; // "public" means every role
+  using: string | null; // Filters existing rows
+  withCheck: string | null; // Checks new rows
+}
+
+export type TablePrivilege =
+  | 'SELECT'
+  | 'INSERT'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'TRUNCATE'
+  | 'REFERENCES'
+  | 'TRIGGER';
+
+export const TABLE_PRIVILEGES: TablePrivilege[] = [
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'TRUNCATE',
+  'REFERENCES',
+  'TRIGGER',
+];
+
+// Privileges one role holds on one table or view, as granted (not through role membership)
+export interface GrantInfo {
+  schema: string;
+  table: string;
+  grantee: string; // Role name, or PUBLIC
+  privileges: TablePrivilege[]; // On the whole table
+  columns?: Record<string, TablePrivilege[]>; // Column-level grants
+}
+
+/**
+ * Whether a role may perform a command on a table, taking role membership,
+ * ownership and row level security into account
+ */
+export interface PermissionCheck {
+  role: string;
+  schema: string;
+  table: string;
+  privilege: TablePrivilege;
+  column?: string;
+  allowed: boolean; // Holds the privilege, directly or through a role it belongs to
+  superuser: boolean;
+  owner: boolean; // Owns the table or is a member of its owner
+  rowSecurity: {
+    enabled: boolean;
+    forced: boolean;
+    bypassed: boolean; // Superuser, BYPASSRLS, or owner without FORCE
+    policies: PolicyInfo[]; // Policies for this command that apply to the role
+  };
+  // denied: no privilege; all: every row; policies: rows the policies allow; none: no policy applies
+  access: 'denied' | 'all' | 'policies' | 'none';
+}
+
 export interface TableInfo {
   schema: string;
   name: string;
+  comment?: string; // COMMENT ON TABLE
+  rowEstimate?: number; // Planner estimate from pg_class.reltuples; absent until first VACUUM/ANALYZE
+  totalBytes?: number; // pg_total_relation_size: heap, TOAST and indexes
+  indexBytes?: number; // pg_indexes_size
   columns: ColumnInfo[];
   constraints: ConstraintInfo[];
 }
@@ -31,31 +308,155 @@ export interface ColumnInfo {
   is_nullable: string;
   column_default: string | null;
   character_maximum_length: number | null;
+  full_type?: string; // Declared type of ARRAY and USER-DEFINED columns, e.g. integer[] or public.mood
+  comment?: string; // COMMENT ON COLUMN
 }
 
+// One entry per constraint; composite keys list every column in key order
 export interface ConstraintInfo {
-  constraint_type: string;
+  constraint_type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE';
   constraint_name: string;
-  column_name: string;
+  columns: string[];
+  // Foreign keys only
+  referenced_schema?: string;
+  referenced_table?: string;
+  referenced_columns?: string[];
+  on_delete?: ForeignKeyAction;
+  on_update?: ForeignKeyAction;
 }
 
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
 export interface MissingTableInfo {
   table_name: string;
   suggestions: string[];
 }
 
+// A table without its columns, for a first overview of a large database
+export interface TableSummary {
+  schema: string;
+  name: string;
+  rowEstimate: number | null; // From pg_class.reltuples; null if never vacuumed or analyzed
+  columnCount: number;
+  comment: string | null;
+}
+
+// A table or view with its comments, as searched by sql_schema_search
+export interface CatalogEntry {
+  schema: string;
+  name: string;
+  kind: 'table' | 'view' | 'materialized view';
+  comment: string | null; // COMMENT ON TABLE / VIEW
+  columns: { column_name: string; data_type: string; comment: string | null }[];
+}
+
+// A nullable numeric column as a number; pg returns bigint as a string
+function optionalNumber(value: unknown): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+// JSON array of PolicyInfo for the table aliased c in namespace n, optionally narrowed by `condition` on p
+function policiesJson(condition = 'TRUE'): string {
+  return `COALESCE((
+    SELECT json_agg(json_build_object(
+      'name', p.policyname,
+      'command', p.cmd,
+      'permissive', p.permissive = 'PERMISSIVE',
+      'roles', p.roles,
+      'using', p.qual,
+      'withCheck', p.with_check
+    ) ORDER BY p.policyname)
+    FROM pg_policies p
+    WHERE p.schemaname = n.nspname AND p.tablename = c.relname AND ${condition}
+  ), '[]')`;
+}
+
+/**
+ * One GrantInfo per table and grantee from rows of (schema, table, grantee, column, privilege),
+ * ordered so that table-level rows come first
+ */
+function groupGrants(
+  rows: {
+    schema: string;
+    table: string;
+    grantee: string;
+    column: string | null;
+    privilege: TablePrivilege;
+  }[]
+): GrantInfo[] {
+  const grants = new Map<string, GrantInfo>();
+  for (const row of rows) {
+    const key = JSON.stringify([row.schema, row.table, row.grantee]);
+    let grant = grants.get(key);
+    if (!grant) {
+      grant = { schema: row.schema, table: row.table, grantee: row.grantee, privileges: [] };
+      grants.set(key, grant);
+    }
+    if (row.column === null) {
+      grant.privileges.push(row.privilege);
+    } else if (!grant.privileges.includes(row.privilege)) {
+      // A column grant adds nothing when the whole table is granted
+      const columns = grant.columns || (grant.columns = {});
+      columns[row.column] = [...(columns[row.column] || []), row.privilege];
+    }
+  }
+  const order = (list: TablePrivilege[]): TablePrivilege[] =>
+    [...list].sort((a, b) => TABLE_PRIVILEGES.indexOf(a) - TABLE_PRIVILEGES.indexOf(b));
+  return [...grants.values()].map(grant => ({
+    ...grant,
+    privileges: order(grant.privileges),
+    ...(grant.columns && {
+      columns: Object.fromEntries(
+        Object.entries(grant.columns).map(([column, list]) => [column, order(list)])
+      ),
+    }),
+  }));
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
 export class SqlExecutor {
   private poolManager: PoolManager;
+  private dedicatedPool: boolean;
   private connectionString: string;
+  private readOnly: boolean;
+  private sessionManager: SessionManager | null = null;
+  private cursorManager: CursorManager | null = null;
 
   // Getter for poolManager to allow health checks
   get poolManagerInstance(): PoolManager {
     return this.poolManager;
   }
 
-  constructor(connectionString: string) {
+  // Transactional sessions that span several calls, created on first use
+  get sessions(): SessionManager {
+    if (!this.sessionManager) {
+      this.sessionManager = new SessionManager(this.poolManager, { readOnly: this.readOnly });
+    }
+    return this.sessionManager;
+  }
+
+  // Open cursors that MCP clients page through, created on first use
+  get cursors(): CursorManager {
+    if (!this.cursorManager) {
+      this.cursorManager = new CursorManager((sql, options) => this.streamQuery(sql, options));
+    }
+    return this.cursorManager;
+  }
+
+  get isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  constructor(connectionString: string, options: SqlExecutorOptions = {}) {
     this.connectionString = connectionString;
-    this.poolManager = PoolManager.getInstance();
+    this.dedicatedPool = options.dedicatedPool ?? false;
+    this.poolManager = this.dedicatedPool
+      ? PoolManager.createDedicated()
+      : PoolManager.getInstance();
+    this.readOnly = options.readOnly ?? process.env.SEQUELAE_READ_ONLY === 'true';
 
     // Configure SSL based on environment variables
     const sslMode = process.env.POSTGRES_SSL_MODE || 'require';
@@ -106,9 +507,39 @@ export class SqlExecutor {
 
   async executeQuery(
     sql: string,
-    useTransaction: boolean = true,
+    useTransaction?: boolean,
+    timeoutMs?: number
+  ): Promise<QueryResult>;
+  async executeQuery(
+    sql: string,
+    params: unknown[],
+    useTransaction?: boolean,
     timeoutMs?: number
+  ): Promise<QueryResult>;
+  async executeQuery(
+    sql: string,
+    paramsOrTransaction?: unknown[] | boolean,
+    transactionOrTimeout?: boolean | number,
+    timeout?: number
   ): Promise<QueryResult> {
+    // Resolve overloads: executeQuery(sql, params, useTransaction, timeoutMs)
+    // or the original executeQuery(sql, useTransaction, timeoutMs)
+    const params = Array.isArray(paramsOrTransaction) ? paramsOrTransaction : undefined;
+    const useTransaction = params
+      ? (transactionOrTimeout as boolean | undefined) !== false
+      : paramsOrTransaction !== false;
+    const timeoutMs = params ? timeout : (transactionOrTimeout as number | undefined);
+
+    // Reject writes before a connection is even checked out
+    if (this.readOnly) {
+      assertReadOnly(sql);
+    }
+
+    // Bind parameters go through the extended protocol, which only accepts one statement
+    if (params && splitSqlStatements(sql).length > 1) {
+      throw new Error('Parameterized queries must contain a single statement');
+    }
+
     const start = Date.now();
     const client = await this.poolManager.getClient();
 
@@ -122,14 +553,17 @@ export class SqlExecutor {
       }
     }
 
+    // Read-only mode always runs inside a READ ONLY transaction as a second line of defense
+    const inTransaction = this.readOnly || (useTransaction && !this.isTransactionCommand(sql));
+
     try {
-      if (useTransaction && !this.isTransactionCommand(sql)) {
-        await client.query('BEGIN');
+      if (inTransaction) {
+        await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
       }
 
-      const result = await client.query(sql);
+      const result = params ? await client.query(sql, params) : await client.query(sql);
 
-      if (useTransaction && !this.isTransactionCommand(sql)) {
+      if (inTransaction) {
         await client.query('COMMIT');
       }
 
@@ -142,7 +576,7 @@ export class SqlExecutor {
         duration,
       };
     } catch (error) {
-      if (useTransaction && !this.isTransactionCommand(sql)) {
+      if (inTransaction) {
         try {
           await client.query('ROLLBACK');
         } catch (rollbackError) {
@@ -151,10 +585,507 @@ export class SqlExecutor {
       }
       throw error;
     } finally {
+      await this.releaseClient(client, !!timeoutMs && timeoutMs > 0);
+    }
+  }
+
+  /**
+   * Return a client to the pool, first undoing a session-level statement_timeout so it does not
+   * apply to whatever runs on the client next; a client that cannot be reset is discarded
+   */
+  private async releaseClient(client: PoolClient, resetTimeout: boolean): Promise<void> {
+    if (resetTimeout) {
+      try {
+        await client.query('RESET statement_timeout');
+      } catch (error) {
+        client.release(error instanceof Error ? error : true);
+        return;
+      }
+    }
+    client.release();
+  }
+
+  /**
+   * Stream the rows of a single query in batches through a server-side cursor,
+   * so that only one batch is held in memory at a time
+   * Stopping iteration early closes the cursor and releases the client
+   */
+  async *streamQuery(sql: string, options: StreamQueryOptions = {}): AsyncGenerator<StreamBatch> {
+    const batchSize =
+      options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_STREAM_BATCH_SIZE;
+
+    if (this.readOnly) {
+      assertReadOnly(sql);
+    }
+
+    const statements = splitSqlStatements(sql);
+    const command = statements[0]?.tokens[0]?.text.toUpperCase();
+    if (statements.length !== 1 || !command || !STREAMABLE_COMMANDS.includes(command)) {
+      throw new Error('Only a single SELECT, WITH, VALUES or TABLE query can be streamed');
+    }
+
+    const client = await this.poolManager.getClient();
+    let finished = false;
+
+    try {
+      // Cursors only live inside a transaction
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+
+      const declare = `DECLARE ${STREAM_CURSOR_NAME} NO SCROLL CURSOR FOR ${statements[0].text}`;
+      if (options.params) {
+        await client.query(declare, options.params);
+      } else {
+        await client.query(declare);
+      }
+
+      let done = false;
+      while (!done) {
+        const result = await client.query(`FETCH FORWARD ${batchSize} FROM ${STREAM_CURSOR_NAME}`);
+        const rows = result.rows || [];
+        done = rows.length < batchSize;
+        yield { fields: (result.fields || []).map(field => field.name), rows, done };
+      }
+
+      await client.query('COMMIT');
+      finished = true;
+    } finally {
+      // Runs on errors and when the consumer stops iterating early
+      if (!finished) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          logger.error('Error during rollback:', { error: rollbackError });
+        }
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * EXPLAIN a single statement and summarize the plan
+   * Runs inside a transaction that is always rolled back, so EXPLAIN ANALYZE
+   * of INSERT/UPDATE/DELETE never changes data
+   */
+  async explain(sql: string, options: ExplainOptions = {}): Promise<ExplainResult> {
+    const statements = splitSqlStatements(sql);
+    if (statements.length !== 1) {
+      throw new Error('EXPLAIN requires exactly one statement');
+    }
+    if (statements[0].tokens[0]?.text.toUpperCase() === 'EXPLAIN') {
+      throw new Error('Pass the statement without EXPLAIN; use the analyze and buffers options');
+    }
+
+    const explainOptions = ['FORMAT JSON'];
+    if (options.analyze) explainOptions.push('ANALYZE');
+    if (options.buffers) explainOptions.push('BUFFERS');
+    const explainSql = `EXPLAIN (${explainOptions.join(', ')}) ${statements[0].text}`;
+
+    // EXPLAIN ANALYZE of a write is still a write as far as read-only mode is concerned
+    if (this.readOnly) {
+      assertReadOnly(explainSql);
+    }
+
+    const start = Date.now();
+    const client = await this.poolManager.getClient();
+
+    try {
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+
+      const result = options.params
+        ? await client.query(explainSql, options.params)
+        : await client.query(explainSql);
+      const plan = parseExplainOutput(result.rows[0]?.['QUERY PLAN']);
+
+      // Table sizes tell whether a sequential scan is worth flagging
+      const tableRows: Record<string, number> = {};
+      const relations = seqScanRelations(plan);
+      if (relations.length > 0) {
+        const sizes = await client.query(
+          `SELECT n.nspname || '.' || c.relname AS relation, c.reltuples::bigint AS rows
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE n.nspname || '.' || c.relname = ANY($1)`,
+          [relations]
+        );
+        for (const row of sizes.rows) {
+          // reltuples is -1 for tables that were never analyzed
+          if (Number(row.rows) >= 0) {
+            tableRows[row.relation] = Number(row.rows);
+          }
+        }
+      }
+
+      return {
+        plan,
+        summary: summarizePlan(plan, { tableRows }),
+        analyzed: options.analyze === true,
+        duration: Date.now() - start,
+      };
+    } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Find a relation of one of `kinds` by "name" or "schema.name" in any user schema
+   * An unqualified name found in several schemas resolves to the public one, or is an error
+   */
+  private async resolveRelation(
+    queryable: { query: (sql: string, params: unknown[]) => Promise<PgQueryResult> },
+    table: string,
+    kinds: string[]
+  ): Promise<{ oid: number; schema: string; name: string; kind: string; row_estimate: string }> {
+    const dot = table.indexOf('.');
+    const schemaName = dot > 0 ? table.slice(0, dot) : null;
+    const tableName = dot > 0 ? table.slice(dot + 1) : table;
+
+    const found = await queryable.query(
+      `SELECT c.oid, n.nspname AS schema, c.relname AS name, c.relkind AS kind,
+              c.reltuples::bigint AS row_estimate
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind = ANY($3)
+         AND c.relname = $1
+         AND ($2::text IS NULL OR n.nspname = $2)
+         AND ${this.namespaceCondition('n.nspname', true)}
+       ORDER BY n.nspname`,
+      [tableName, schemaName, kinds]
+    );
+    if (found.rows.length === 0) {
+      throw new Error(`Table not found: ${table}`);
+    }
+    const relation =
+      found.rows.length === 1 ? found.rows[0] : found.rows.find(row => row.schema === 'public');
+    if (!relation) {
+      throw new Error(
+        `Table name ${table} is ambiguous; qualify it with a schema: ${found.rows
+          .map(row => `${row.schema}.${row.name}`)
+          .join(', ')}`
+      );
+    }
+    return relation;
+  }
+
+  /**
+   * Can `role` perform `privilege` on `table` (optionally on one column)?
+   * Combines has_table_privilege/has_column_privilege, which follow role membership,
+   * with the row level security policies that would filter the rows it touches
+   */
+  async checkPermission(
+    role: string,
+    table: string,
+    privilege: TablePrivilege,
+    column?: string
+  ): Promise<PermissionCheck> {
+    if (!TABLE_PRIVILEGES.includes(privilege)) {
+      throw new Error(`Unknown privilege: ${privilege}`);
+    }
+    if (column !== undefined && !['SELECT', 'INSERT', 'UPDATE', 'REFERENCES'].includes(privilege)) {
+      throw new Error(`${privilege} cannot be granted on columns`);
+    }
+    const pool = this.poolManager.getPool();
+
+    const roles = await pool.query(
+      'SELECT rolsuper AS superuser, rolbypassrls AS bypass_rls FROM pg_roles WHERE rolname = $1',
+      [role]
+    );
+    if (roles.rows.length === 0) {
+      throw new Error(`Role not found: ${role}`);
+    }
+    const relation = await this.resolveRelation(pool, table, ['r', 'p', 'v', 'm', 'f']);
+
+    if (column !== undefined) {
+      const columns = await pool.query(
+        'SELECT 1 FROM pg_attribute WHERE attrelid = $1 AND attname = $2 AND attnum > 0 AND NOT attisdropped',
+        [relation.oid, column]
+      );
+      if (columns.rows.length === 0) {
+        throw new Error(`Column not found: ${relation.schema}.${relation.name}.${column}`);
+      }
+    }
+
+    // Policies apply to a role directly, through membership, or to everyone via public
+    const result = await pool.query(
+      `SELECT ${
+        column === undefined
+          ? 'has_table_privilege($1, c.oid, $3)'
+          : 'has_column_privilege($1, c.oid, $4, $3)'
+      } AS allowed,
+              pg_has_role($1, c.relowner, 'USAGE') AS owner,
+              c.relrowsecurity AS enabled, c.relforcerowsecurity AS forced,
+              ${policiesJson(
+                `p.cmd IN ('ALL', $3) AND ('public' = ANY(p.roles) OR EXISTS (
+                   SELECT 1 FROM unnest(p.roles) r(name)
+                   WHERE r.name <> 'public' AND pg_has_role($1, r.name, 'MEMBER')
+                 ))`
+              )} AS policies
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.oid = $2`,
+      column === undefined
+        ? [role, relation.oid, privilege]
+        : [role, relation.oid, privilege, column]
+    );
+    const row = result.rows[0];
+    const { superuser, bypass_rls: bypassRls } = roles.rows[0];
+    const bypassed = superuser || bypassRls || (row.owner && !row.forced);
+    const policies: PolicyInfo[] = row.policies;
+
+    // TRUNCATE, REFERENCES and TRIGGER are not subject to row level security
+    let access: PermissionCheck['access'] = 'all';
+    if (!row.allowed) {
+      access = 'denied';
+    } else if (
+      row.enabled &&
+      !bypassed &&
+      ['SELECT', 'INSERT', 'UPDATE', 'DELETE'].includes(privilege)
+    ) {
+      access = policies.some(policy => policy.permissive) ? 'policies' : 'none';
+    }
+
+    return {
+      role,
+      schema: relation.schema,
+      table: relation.name,
+      privilege,
+      ...(column !== undefined && { column }),
+      allowed: row.allowed,
+      superuser,
+      owner: row.owner,
+      rowSecurity: { enabled: row.enabled, forced: row.forced, bypassed, policies },
+      access,
+    };
+  }
+
+  /**
+   * Per-column distribution of a table: null fraction, distinct count, most common values,
+   * histogram and range from pg_stats, or exact figures over a TABLESAMPLE when samplePercent is set
+   * `table` is "name" or "schema.name"; an unqualified name prefers the public schema
+   */
+  async profileTable(table: string, options: ProfileOptions = {}): Promise<TableProfile> {
+    const top = options.top ?? DEFAULT_PROFILE_TOP;
+    if (!Number.isInteger(top) || top < 1) {
+      throw new Error('top must be a positive integer');
+    }
+    const percent = options.samplePercent;
+    if (percent !== undefined && !(percent > 0 && percent <= 100)) {
+      throw new Error('Sample percent must be greater than 0 and at most 100');
+    }
+
+    const start = Date.now();
+    const client = await this.poolManager.getClient();
+
+    try {
+      // Profiling only ever reads
+      await client.query('BEGIN READ ONLY');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+
+      const relation = await this.resolveRelation(client, table, ['r', 'p', 'm']);
+      const rowEstimate = Number(relation.row_estimate) < 0 ? null : Number(relation.row_estimate);
+
+      // Array columns are left out of the value lists: their text form does not split cleanly
+      const stats = await client.query(
+        `SELECT a.attname AS column_name,
+                format_type(a.atttypid, a.atttypmod) AS data_type,
+                t.typcategory AS category,
+                s.null_frac, s.n_distinct,
+                CASE WHEN t.typcategory <> 'A' THEN s.most_common_vals::text::text[] END AS most_common_vals,
+                s.most_common_freqs,
+                CASE WHEN t.typcategory <> 'A' THEN s.histogram_bounds::text::text[] END AS histogram_bounds,
+                s.correlation
+         FROM pg_attribute a
+         JOIN pg_type t ON t.oid = a.atttypid
+         LEFT JOIN pg_stats s
+           ON s.schemaname = $2 AND s.tablename = $3 AND s.attname = a.attname
+           AND s.inherited = $4
+         WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+         ORDER BY a.attnum`,
+        // Partitioned tables keep their statistics as inherited ones
+        [relation.oid, relation.schema, relation.name, relation.kind === 'p']
+      );
+      const columns = stats.rows as ColumnStatsRow[];
+      const analyzed = columns.some(column => column.null_frac !== null);
+
+      if (percent === undefined) {
+        return {
+          schema: relation.schema,
+          table: relation.name,
+          rowEstimate,
+          source: 'pg_stats',
+          analyzed,
+          columns: columns.map(column => profileColumnFromStats(column, rowEstimate, top)),
+          duration: Date.now() - start,
+        };
+      }
+
+      const method = options.method || 'system';
+      const sample = await client.query(
+        this.buildSampleProfileQuery(relation.schema, relation.name, columns, method),
+        [percent, top]
+      );
+      const rows = Number(sample.rows[0]?.rows || 0);
+      return {
+        schema: relation.schema,
+        table: relation.name,
+        rowEstimate,
+        source: 'sample',
+        analyzed,
+        sample: { method, percent, rows },
+        columns: columns.map((column, i) =>
+          profileColumnFromSample(column, sample.rows[0][`c${i}`] as ColumnSampleRow, rows)
+        ),
+        duration: Date.now() - start,
+      };
+    } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
       client.release();
     }
   }
 
+  /**
+   * A handful of rows from anywhere in a table, in a read-only transaction
+   * TABLESAMPLE only reads a fraction of the table but may return fewer rows than asked for
+   * when the row estimate is off; ORDER BY random() reads all of it
+   */
+  async sampleRows(table: string, options: SampleRowsOptions = {}): Promise<RowSample> {
+    const limit = options.rows ?? DEFAULT_SAMPLE_ROWS;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SAMPLE_ROWS) {
+      throw new Error(`rows must be a whole number from 1 to ${MAX_SAMPLE_ROWS}`);
+    }
+
+    const start = Date.now();
+    const client = await this.poolManager.getClient();
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+
+      const relation = await this.resolveRelation(client, table, ['r', 'p', 'm']);
+      const rowEstimate = Number(relation.row_estimate) < 0 ? null : Number(relation.row_estimate);
+      const columns = (
+        await client.query(
+          `SELECT a.attname AS column_name, format_type(a.atttypid, a.atttypmod) AS data_type
+           FROM pg_attribute a
+           WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+           ORDER BY a.attnum`,
+          [relation.oid]
+        )
+      ).rows as RowSample['columns'];
+
+      const method =
+        options.method ||
+        (rowEstimate !== null && rowEstimate > RANDOM_SAMPLE_MAX_ROWS ? 'bernoulli' : 'random');
+      const source = `${quoteIdentifier(relation.schema)}.${quoteIdentifier(relation.name)}`;
+      const selectList = columns.map(column => quoteIdentifier(column.column_name)).join(', ');
+
+      let percent: number | undefined;
+      let result: PgQueryResult;
+      if (method === 'random') {
+        result = await client.query(
+          `SELECT ${selectList} FROM ${source} ORDER BY random() LIMIT $1`,
+          [limit]
+        );
+      } else {
+        // Without an estimate there is nothing to size the sample by, so read everything
+        percent =
+          rowEstimate !== null && rowEstimate > 0
+            ? Math.min(
+                100,
+                Number(((limit * SAMPLE_OVERSAMPLING * 100) / rowEstimate).toPrecision(2))
+              )
+            : 100;
+        // Shuffle what was sampled so rows aren't in physical order
+        result = await client.query(
+          `SELECT ${selectList} FROM ${source} TABLESAMPLE ${method.toUpperCase()} ($1)
+           ORDER BY random() LIMIT $2`,
+          [percent, limit]
+        );
+      }
+
+      return {
+        schema: relation.schema,
+        table: relation.name,
+        rowEstimate,
+        method,
+        ...(percent !== undefined && { percent }),
+        columns,
+        rows: result.rows,
+        duration: Date.now() - start,
+      };
+    } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * One pass over a sample: the row count, then per column c0..cN a JSON object with
+   * non-null and distinct counts, the most common values and, for numbers and dates, min/max/avg
+   */
+  private buildSampleProfileQuery(
+    schema: string,
+    table: string,
+    columns: ColumnStatsRow[],
+    method: SampleMethod
+  ): string {
+    const select = columns.map((column, i) => {
+      const name = quoteIdentifier(column.column_name);
+      const fields = [
+        `'nonNull', count(${name})`,
+        `'distinct', count(DISTINCT ${name}::text)`,
+        `'top', (SELECT json_agg(v) FROM (
+            SELECT ${name}::text AS value, count(*)::int AS count FROM sample
+            WHERE ${name} IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT $2) v)`,
+      ];
+      if (isRangeColumn(column.category, column.data_type)) {
+        fields.push(`'min', min(${name})::text`, `'max', max(${name})::text`);
+        // Dates and timestamps are averaged as epoch seconds; money has no avg()
+        if (column.category === 'D') {
+          const average = `to_timestamp(avg(extract(epoch FROM ${name})))`;
+          const cast = column.data_type.startsWith('date')
+            ? `(${average} AT TIME ZONE 'UTC')::date`
+            : column.data_type.includes('with time zone')
+              ? average
+              : `${average} AT TIME ZONE 'UTC'`;
+          fields.push(`'avg', (${cast})::text`);
+        } else if (column.data_type !== 'money') {
+          fields.push(`'avg', avg(${name})::text`);
+        }
+      }
+      return `json_build_object(${fields.join(', ')}) AS c${i}`;
+    });
+
+    return `WITH sample AS (
+        SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)}
+        TABLESAMPLE ${method.toUpperCase()} ($1)
+      )
+      SELECT count(*) AS rows${select.map(item => `,\n        ${item}`).join('')}
+      FROM sample`;
+  }
+
   private isTransactionCommand(sql: string): boolean {
     const trimmedSql = sql.trim().toUpperCase();
     return (
@@ -177,97 +1108,492 @@ export class SqlExecutor {
     }
 
     const sql = readFileSync(resolvedPath, 'utf8');
-    return this.executeQuery(sql, useTransaction, timeoutMs);
+    return this.executeScript(sql, useTransaction, timeoutMs);
   }
 
-  async getSchema(tables?: string[], allSchemas = false): Promise<SchemaResult> {
-    const schemaCondition = allSchemas
-      ? "table_schema NOT IN ('pg_catalog', 'information_schema')"
-      : "table_schema = 'public'";
+  /**
+   * Execute a multi-statement script one statement at a time on a single client,
+   * collecting a result per statement
+   */
+  async executeScript(
+    sql: string,
+    useTransaction: boolean = true,
+    timeoutMs?: number
+  ): Promise<QueryResult> {
+    if (this.readOnly) {
+      assertReadOnly(sql);
+    }
+
+    const statements = splitSqlStatements(sql);
+    const start = Date.now();
+    const client = await this.poolManager.getClient();
+
+    // Set statement timeout if provided
+    if (timeoutMs && timeoutMs > 0) {
+      try {
+        await client.query(`SET statement_timeout = ${timeoutMs}`);
+      } catch (error) {
+        client.release();
+        throw error;
+      }
+    }
+
+    // Scripts that manage their own transactions are not wrapped
+    const inTransaction =
+      this.readOnly ||
+      (useTransaction && !statements.some(statement => this.isTransactionCommand(statement.text)));
 
-    let sql: string;
+    const results: StatementResult[] = [];
+    let current: SqlStatement | undefined;
 
-    if (tables && tables.length > 0) {
-      const tableCondition = tables.map(t => `'${t}'`).join(',');
-      sql = this.buildSpecificTablesQuery(tableCondition, schemaCondition);
-    } else {
-      sql = this.buildAllTablesQuery(schemaCondition);
+    try {
+      if (inTransaction) {
+        await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      }
+
+      for (const statement of statements) {
+        current = statement;
+        const statementStart = Date.now();
+        const result = await client.query(statement.text);
+        results.push({
+          index: statement.index,
+          command: result.command,
+          rowCount: result.rowCount || 0,
+          rows: result.rows || [],
+          duration: Date.now() - statementStart,
+          startLine: statement.startLine,
+          endLine: statement.endLine,
+        });
+      }
+      current = undefined;
+
+      if (inTransaction) {
+        await client.query('COMMIT');
+      }
+
+      // Top-level fields mirror the last statement, as a single multi-statement query would
+      const last = results[results.length - 1];
+      return {
+        command: last?.command,
+        rowCount: last?.rowCount || 0,
+        rows: last?.rows || [],
+        duration: Date.now() - start,
+        statements: results,
+      };
+    } catch (error) {
+      if (inTransaction) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          logger.error('Error during rollback:', { error: rollbackError });
+        }
+      }
+      if (current && error instanceof Error) {
+        throw this.toStatementError(current, error);
+      }
+      throw error;
+    } finally {
+      await this.releaseClient(client, !!timeoutMs && timeoutMs > 0);
     }
+  }
 
+  private toStatementError(
+    statement: SqlStatement,
+    error: Error & { code?: string; position?: string | number }
+  ): StatementExecutionError {
+    // pg reports the position relative to the statement; translate it to a line in the script
+    let line = statement.startLine;
+    const position = error.position !== undefined ? Number(error.position) : NaN;
+    if (!isNaN(position) && position > 0) {
+      line += (statement.text.slice(0, position - 1).match(/\n/g) || []).length;
+    }
+
+    return new StatementExecutionError(
+      `Statement ${statement.index + 1} (line ${line}) failed: ${error.message}`,
+      statement.index,
+      line,
+      statement.startLine,
+      statement.endLine,
+      error
+    );
+  }
+
+  /**
+   * Every table with its estimated row count and number of columns, without column details
+   */
+  async getTableSummary(allSchemas = false): Promise<TableSummary[]> {
+    const pool = this.poolManager.getPool();
+    const result = await pool.query(
+      `SELECT n.nspname AS schema, c.relname AS name, c.reltuples::bigint AS row_estimate,
+              (SELECT count(*) FROM pg_attribute a
+               WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped)::int AS column_count,
+              obj_description(c.oid, 'pg_class') AS comment
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p')
+         AND ${this.namespaceCondition('n.nspname', allSchemas)}
+       ORDER BY n.nspname, c.relname`
+    );
+    return result.rows.map(row => ({
+      schema: row.schema,
+      name: row.name,
+      // reltuples is -1 before the first VACUUM or ANALYZE (0 on PostgreSQL 13 and older)
+      rowEstimate: Number(row.row_estimate) < 0 ? null : Number(row.row_estimate),
+      columnCount: row.column_count,
+      comment: row.comment,
+    }));
+  }
+
+  /**
+   * Tables, views and materialized views in every user schema with their column types and comments
+   */
+  async getSchemaCatalog(): Promise<CatalogEntry[]> {
+    const pool = this.poolManager.getPool();
+    const result = await pool.query(
+      `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind,
+              obj_description(c.oid, 'pg_class') AS comment,
+              COALESCE((
+                SELECT json_agg(json_build_object(
+                  'column_name', a.attname,
+                  'data_type', format_type(a.atttypid, a.atttypmod),
+                  'comment', col_description(c.oid, a.attnum)
+                ) ORDER BY a.attnum)
+                FROM pg_attribute a
+                WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+              ), '[]') AS columns
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'v', 'm')
+         AND ${this.namespaceCondition('n.nspname', true)}
+       ORDER BY n.nspname, c.relname`
+    );
+    const kinds: Record<string, CatalogEntry['kind']> = { v: 'view', m: 'materialized view' };
+    return result.rows.map(row => ({
+      schema: row.schema,
+      name: row.name,
+      kind: kinds[row.kind] || 'table',
+      comment: row.comment,
+      columns: row.columns,
+    }));
+  }
+
+  async getSchema(
+    tables?: string[],
+    allSchemas = false,
+    options: SchemaOptions = {}
+  ): Promise<SchemaResult> {
+    // Table names are bound as a parameter, never interpolated into the SQL
+    const filter = tables && tables.length > 0 ? tables : undefined;
     const pool = this.poolManager.getPool();
-    const result = await pool.query(sql);
-    return this.parseSchemaResult(result);
+    const result = filter
+      ? await pool.query(this.buildSpecificTablesQuery(allSchemas), [filter])
+      : await pool.query(this.buildAllTablesQuery(allSchemas));
+    return {
+      ...this.parseSchemaResult(result),
+      ...(await this.getSchemaObjects(tables, allSchemas, options)),
+    };
+  }
+
+  /**
+   * Views, types, functions, indexes, triggers and sequences, as requested by `options`
+   * Views, indexes and triggers are limited to `tables` when given
+   */
+  async getSchemaObjects(
+    tables?: string[],
+    allSchemas = false,
+    options: SchemaOptions = {}
+  ): Promise<SchemaObjects> {
+    const pool = this.poolManager.getPool();
+    const tableFilter = tables && tables.length > 0 ? tables : null;
+    const objects: SchemaObjects = {};
+
+    if (options.includeViews || options.includeMaterializedViews) {
+      const kinds = [
+        ...(options.includeViews ? ['v'] : []),
+        ...(options.includeMaterializedViews ? ['m'] : []),
+      ];
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind,
+                pg_get_viewdef(c.oid, true) AS definition, c.relispopulated AS populated,
+                COALESCE((
+                  SELECT json_agg(json_build_object(
+                    'column_name', a.attname,
+                    'data_type', format_type(a.atttypid, a.atttypmod)
+                  ) ORDER BY a.attnum)
+                  FROM pg_attribute a
+                  WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+                ), '[]') AS columns
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE c.relkind = ANY($1)
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($2::text[] IS NULL OR c.relname = ANY($2))
+         ORDER BY n.nspname, c.relname`,
+        [kinds, tableFilter]
+      );
+      const views = result.rows.map(row => ({
+        schema: row.schema,
+        name: row.name,
+        definition: row.definition,
+        columns: row.columns,
+        ...(row.kind === 'm' && { populated: row.populated }),
+      }));
+      if (options.includeViews) {
+        objects.views = views.filter(view => view.populated === undefined);
+      }
+      if (options.includeMaterializedViews) {
+        objects.materializedViews = views.filter(view => view.populated !== undefined);
+      }
+    }
+
+    if (options.includeTypes) {
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, t.typname AS name,
+                CASE t.typtype WHEN 'e' THEN 'enum' WHEN 'c' THEN 'composite'
+                               WHEN 'd' THEN 'domain' ELSE 'range' END AS kind,
+                (SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder)
+                 FROM pg_enum e WHERE e.enumtypid = t.oid) AS labels,
+                (SELECT json_agg(json_build_object(
+                   'name', a.attname, 'type', format_type(a.atttypid, a.atttypmod)
+                 ) ORDER BY a.attnum)
+                 FROM pg_attribute a
+                 WHERE t.typtype = 'c' AND a.attrelid = t.typrelid
+                   AND a.attnum > 0 AND NOT a.attisdropped) AS attributes,
+                CASE WHEN t.typtype = 'd' THEN format_type(t.typbasetype, t.typtypmod) END AS base_type
+         FROM pg_type t
+         JOIN pg_namespace n ON n.oid = t.typnamespace
+         WHERE t.typtype IN ('e', 'c', 'd', 'r')
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           -- Every table has a composite row type; only keep standalone ones
+           AND (t.typtype <> 'c' OR (SELECT c.relkind FROM pg_class c WHERE c.oid = t.typrelid) = 'c')
+         ORDER BY n.nspname, t.typname`
+      );
+      objects.types = result.rows.map(row => ({
+        schema: row.schema,
+        name: row.name,
+        kind: row.kind,
+        ...(row.labels && { labels: row.labels }),
+        ...(row.attributes && { attributes: row.attributes }),
+        ...(row.base_type && { baseType: row.base_type }),
+      }));
+    }
+
+    if (options.includeFunctions) {
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, p.proname AS name,
+                CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate'
+                               WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+                pg_get_function_arguments(p.oid) AS arguments,
+                pg_get_function_result(p.oid) AS return_type,
+                l.lanname AS language,
+                CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable'
+                                   ELSE 'volatile' END AS volatility
+         FROM pg_proc p
+         JOIN pg_namespace n ON n.oid = p.pronamespace
+         JOIN pg_language l ON l.oid = p.prolang
+         WHERE ${this.namespaceCondition('n.nspname', allSchemas)}
+           -- Skip functions installed by extensions
+           AND NOT EXISTS (
+             SELECT 1 FROM pg_depend d
+             WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+           )
+         ORDER BY n.nspname, p.proname, arguments`
+      );
+      objects.functions = result.rows.map(row => ({
+        schema: row.schema,
+        name: row.name,
+        kind: row.kind,
+        arguments: row.arguments,
+        returnType: row.return_type,
+        language: row.language,
+        volatility: row.volatility,
+      }));
+    }
+
+    if (options.includeIndexes) {
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, t.relname AS table, i.relname AS name,
+                pg_get_indexdef(ix.indexrelid) AS definition,
+                ix.indisunique AS is_unique, ix.indisprimary AS is_primary
+         FROM pg_index ix
+         JOIN pg_class i ON i.oid = ix.indexrelid
+         JOIN pg_class t ON t.oid = ix.indrelid
+         JOIN pg_namespace n ON n.oid = t.relnamespace
+         WHERE ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($1::text[] IS NULL OR t.relname = ANY($1))
+         ORDER BY n.nspname, t.relname, i.relname`,
+        [tableFilter]
+      );
+      objects.indexes = result.rows.map(row => ({
+        schema: row.schema,
+        table: row.table,
+        name: row.name,
+        definition: row.definition,
+        isUnique: row.is_unique,
+        isPrimary: row.is_primary,
+      }));
+    }
+
+    if (options.includeTriggers) {
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, c.relname AS table, tg.tgname AS name,
+                pg_get_triggerdef(tg.oid, true) AS definition,
+                tg.tgenabled <> 'D' AS enabled
+         FROM pg_trigger tg
+         JOIN pg_class c ON c.oid = tg.tgrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE NOT tg.tgisinternal
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($1::text[] IS NULL OR c.relname = ANY($1))
+         ORDER BY n.nspname, c.relname, tg.tgname`,
+        [tableFilter]
+      );
+      objects.triggers = result.rows.map(row => ({
+        schema: row.schema,
+        table: row.table,
+        name: row.name,
+        definition: row.definition,
+        enabled: row.enabled,
+      }));
+    }
+
+    if (options.includeSequences) {
+      const result = await pool.query(
+        `SELECT s.schemaname AS schema, s.sequencename AS name, format_type(s.data_type, NULL) AS data_type,
+                s.start_value::text AS start_value, s.increment_by::text AS increment,
+                s.min_value::text AS min_value, s.max_value::text AS max_value, s.cycle,
+                (SELECT dn.nspname || '.' || dc.relname || '.' || a.attname
+                 FROM pg_depend d
+                 JOIN pg_class dc ON dc.oid = d.refobjid
+                 JOIN pg_namespace dn ON dn.oid = dc.relnamespace
+                 JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+                 WHERE d.classid = 'pg_class'::regclass
+                   AND d.objid = format('%I.%I', s.schemaname, s.sequencename)::regclass
+                   AND d.deptype IN ('a', 'i')
+                 LIMIT 1) AS owned_by
+         FROM pg_sequences s
+         WHERE ${this.namespaceCondition('s.schemaname', allSchemas)}
+         ORDER BY s.schemaname, s.sequencename`
+      );
+      objects.sequences = result.rows.map(row => ({
+        schema: row.schema,
+        name: row.name,
+        dataType: row.data_type,
+        startValue: row.start_value,
+        increment: row.increment,
+        minValue: row.min_value,
+        maxValue: row.max_value,
+        cycle: row.cycle,
+        ownedBy: row.owned_by,
+      }));
+    }
+
+    if (options.includePolicies) {
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, c.relname AS table,
+                c.relrowsecurity AS enabled, c.relforcerowsecurity AS forced,
+                ${policiesJson()} AS policies
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE c.relkind IN ('r', 'p')
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($1::text[] IS NULL OR c.relname = ANY($1))
+         ORDER BY n.nspname, c.relname`,
+        [tableFilter]
+      );
+      objects.rowSecurity = result.rows.map(row => ({
+        schema: row.schema,
+        table: row.table,
+        enabled: row.enabled,
+        forced: row.forced,
+        policies: row.policies,
+      }));
+    }
+
+    if (options.includeGrants) {
+      // A NULL acl means the owner's default privileges; column acls are NULL unless granted
+      const result = await pool.query(
+        `SELECT n.nspname AS schema, c.relname AS table,
+                CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(acl.grantee) END AS grantee,
+                NULL::text AS column, acl.privilege_type AS privilege
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         CROSS JOIN LATERAL aclexplode(COALESCE(c.relacl, acldefault('r', c.relowner))) acl
+         WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($1::text[] IS NULL OR c.relname = ANY($1))
+         UNION ALL
+         SELECT n.nspname, c.relname,
+                CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(acl.grantee) END,
+                a.attname::text, acl.privilege_type
+         FROM pg_attribute a
+         JOIN pg_class c ON c.oid = a.attrelid
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         CROSS JOIN LATERAL aclexplode(a.attacl) acl
+         WHERE a.attacl IS NOT NULL AND a.attnum > 0 AND NOT a.attisdropped
+           AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+           AND ${this.namespaceCondition('n.nspname', allSchemas)}
+           AND ($1::text[] IS NULL OR c.relname = ANY($1))
+         ORDER BY 1, 2, 3, 4 NULLS FIRST`,
+        [tableFilter]
+      );
+      objects.grants = groupGrants(result.rows);
+    }
+
+    return objects;
+  }
+
+  private namespaceCondition(column: string, allSchemas: boolean): string {
+    return allSchemas
+      ? `${column} NOT IN ('pg_catalog', 'information_schema') AND ${column} NOT LIKE 'pg_toast%' AND ${column} NOT LIKE 'pg_temp%'`
+      : `${column} = 'public'`;
   }
 
   async close(): Promise<void> {
+    // Roll back any sessions still holding a client
+    if (this.sessionManager) {
+      await this.sessionManager.closeAll();
+      this.sessionManager = null;
+    }
+    if (this.cursorManager) {
+      await this.cursorManager.closeAll();
+      this.cursorManager = null;
+    }
+    if (this.dedicatedPool) {
+      await this.poolManager.close();
+    }
     // Don't close the shared pool, just mark this executor as closed
     // The pool will be closed when the application exits
   }
 
-  private buildSpecificTablesQuery(tableCondition: string, schemaCondition: string): string {
+  private buildSpecificTablesQuery(allSchemas: boolean): string {
     return `
       WITH requested_tables AS (
-        SELECT unnest(ARRAY[${tableCondition}]) as table_name
+        SELECT unnest($1::text[]) as table_name
       ),
       existing_tables AS (
-        SELECT table_schema, table_name 
-        FROM information_schema.tables 
-        WHERE table_type = 'BASE TABLE' 
-          AND ${schemaCondition}
-      ),
-      table_info AS (
-        SELECT 
-          t.table_schema,
-          t.table_name,
-          json_agg(
-            json_build_object(
-              'column_name', c.column_name,
-              'data_type', c.data_type,
-              'is_nullable', c.is_nullable,
-              'column_default', c.column_default,
-              'character_maximum_length', c.character_maximum_length
-            ) ORDER BY c.ordinal_position
-          )::text as columns
-        FROM information_schema.tables t
-        JOIN information_schema.columns c 
-          ON t.table_schema = c.table_schema 
-          AND t.table_name = c.table_name
-        JOIN requested_tables rt ON t.table_name = rt.table_name
-        WHERE ${schemaCondition}
-          AND t.table_type = 'BASE TABLE'
-        GROUP BY t.table_schema, t.table_name
-      ),
-      constraint_info AS (
-        SELECT 
-          tc.table_schema,
-          tc.table_name,
-          json_agg(
-            json_build_object(
-              'constraint_name', tc.constraint_name,
-              'constraint_type', tc.constraint_type,
-              'column_name', kcu.column_name
-            )
-          )::text as constraints
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        JOIN requested_tables rt ON tc.table_name = rt.table_name
-        WHERE ${schemaCondition}
-        GROUP BY tc.table_schema, tc.table_name
+        SELECT table_schema, table_name
+        FROM information_schema.tables
+        WHERE table_type = 'BASE TABLE'
+          AND ${this.namespaceCondition('table_schema', allSchemas)}
       ),
+      table_info AS (${this.buildTableInfoQuery(allSchemas, true)}),
+      constraint_info AS (${this.buildConstraintInfoQuery(allSchemas, true)}),
       missing_tables AS (
-        SELECT rt.table_name as missing_table,
-               string_agg(et.table_name, ', ') as suggestions
+        SELECT rt.table_name as missing_table
         FROM requested_tables rt
         LEFT JOIN existing_tables et ON rt.table_name = et.table_name
         WHERE et.table_name IS NULL
         GROUP BY rt.table_name
       )
-      SELECT 
+      SELECT
         'found' as type,
         ti.table_schema,
         ti.table_name,
+        ti.table_comment,
+        ti.row_estimate,
+        ti.total_bytes,
+        ti.index_bytes,
         ti.columns,
         COALESCE(ci.constraints, '[]') as constraints,
         NULL as missing_table,
@@ -277,10 +1603,14 @@ export class SqlExecutor {
         ON ti.table_schema = ci.table_schema
         AND ti.table_name = ci.table_name
       UNION ALL
-      SELECT 
+      SELECT
         'missing' as type,
         NULL as table_schema,
         NULL as table_name,
+        NULL as table_comment,
+        NULL as row_estimate,
+        NULL as total_bytes,
+        NULL as index_bytes,
         NULL as columns,
         NULL as constraints,
         mt.missing_table,
@@ -289,7 +1619,7 @@ export class SqlExecutor {
            FROM existing_tables
            WHERE LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%')
               OR LOWER(table_name) LIKE '%' || LOWER(LEFT(mt.missing_table, 3)) || '%'
-           ORDER BY 
+           ORDER BY
              CASE WHEN LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%') THEN 0 ELSE 1 END,
              LENGTH(table_name)
            LIMIT 3
@@ -299,51 +1629,18 @@ export class SqlExecutor {
     `;
   }
 
-  private buildAllTablesQuery(schemaCondition: string): string {
+  private buildAllTablesQuery(allSchemas: boolean): string {
     return `
-      WITH table_info AS (
-        SELECT 
-          t.table_schema,
-          t.table_name,
-          json_agg(
-            json_build_object(
-              'column_name', c.column_name,
-              'data_type', c.data_type,
-              'is_nullable', c.is_nullable,
-              'column_default', c.column_default,
-              'character_maximum_length', c.character_maximum_length
-            ) ORDER BY c.ordinal_position
-          )::text as columns
-        FROM information_schema.tables t
-        JOIN information_schema.columns c 
-          ON t.table_schema = c.table_schema 
-          AND t.table_name = c.table_name
-        WHERE ${schemaCondition}
-          AND t.table_type = 'BASE TABLE'
-        GROUP BY t.table_schema, t.table_name
-      ),
-      constraint_info AS (
-        SELECT 
-          tc.table_schema,
-          tc.table_name,
-          json_agg(
-            json_build_object(
-              'constraint_name', tc.constraint_name,
-              'constraint_type', tc.constraint_type,
-              'column_name', kcu.column_name
-            )
-          )::text as constraints
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        WHERE ${schemaCondition}
-        GROUP BY tc.table_schema, tc.table_name
-      )
-      SELECT 
+      WITH table_info AS (${this.buildTableInfoQuery(allSchemas, false)}),
+      constraint_info AS (${this.buildConstraintInfoQuery(allSchemas, false)})
+      SELECT
         'found' as type,
         ti.table_schema,
         ti.table_name,
+        ti.table_comment,
+        ti.row_estimate,
+        ti.total_bytes,
+        ti.index_bytes,
         ti.columns,
         COALESCE(ci.constraints, '[]') as constraints,
         NULL as missing_table,
@@ -356,16 +1653,123 @@ export class SqlExecutor {
     `;
   }
 
+  /**
+   * Columns of each base table, aggregated as JSON text in ordinal order, with the table's
+   * comment, row estimate and on-disk size
+   */
+  private buildTableInfoQuery(allSchemas: boolean, requestedOnly: boolean): string {
+    return `
+        SELECT
+          t.table_schema,
+          t.table_name,
+          obj_description(cls.oid, 'pg_class') as table_comment,
+          cls.reltuples::bigint as row_estimate,
+          pg_total_relation_size(cls.oid) as total_bytes,
+          pg_indexes_size(cls.oid) as index_bytes,
+          json_agg(
+            json_build_object(
+              'column_name', c.column_name,
+              'data_type', c.data_type,
+              'is_nullable', c.is_nullable,
+              'column_default', c.column_default,
+              'character_maximum_length', c.character_maximum_length,
+              -- information_schema hides the element and type names of these
+              'full_type', CASE WHEN c.data_type IN ('ARRAY', 'USER-DEFINED') THEN (
+                SELECT format_type(a.atttypid, a.atttypmod)
+                FROM pg_attribute a
+                WHERE a.attrelid = format('%I.%I', c.table_schema, c.table_name)::regclass
+                  AND a.attname = c.column_name
+              ) END,
+              -- ordinal_position is the attribute number
+              'comment', col_description(cls.oid, c.ordinal_position::int)
+            ) ORDER BY c.ordinal_position
+          )::text as columns
+        FROM information_schema.tables t
+        JOIN pg_class cls ON cls.oid = format('%I.%I', t.table_schema, t.table_name)::regclass
+        JOIN information_schema.columns c
+          ON t.table_schema = c.table_schema
+          AND t.table_name = c.table_name
+        ${requestedOnly ? 'JOIN requested_tables rt ON t.table_name = rt.table_name' : ''}
+        WHERE ${this.namespaceCondition('t.table_schema', allSchemas)}
+          AND t.table_type = 'BASE TABLE'
+        GROUP BY t.table_schema, t.table_name, cls.oid
+      `;
+  }
+
+  /**
+   * Primary key, unique and foreign key constraints per table, one entry per constraint
+   * Read from pg_constraint so composite keys keep their column order and foreign keys
+   * can name the referenced columns, which information_schema can't pair up reliably
+   */
+  private buildConstraintInfoQuery(allSchemas: boolean, requestedOnly: boolean): string {
+    const actionName = (column: string): string => `CASE ${column}
+            WHEN 'a' THEN 'NO ACTION' WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE'
+            WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' END`;
+    const keyColumns = (keys: string, relation: string): string => `(
+            SELECT json_agg(a.attname ORDER BY k.ord)
+            FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, ord)
+            JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+          )`;
+
+    return `
+        SELECT
+          kc.table_schema,
+          kc.table_name,
+          json_agg(kc.info ORDER BY kc.type_order, kc.constraint_name)::text as constraints
+        FROM (
+          SELECT
+            n.nspname as table_schema,
+            cl.relname as table_name,
+            con.conname as constraint_name,
+            position(con.contype::text in 'puf') as type_order,
+            json_strip_nulls(json_build_object(
+              'constraint_name', con.conname,
+              'constraint_type', CASE con.contype
+                WHEN 'p' THEN 'PRIMARY KEY' WHEN 'u' THEN 'UNIQUE' ELSE 'FOREIGN KEY' END,
+              'columns', ${keyColumns('con.conkey', 'con.conrelid')},
+              'referenced_schema', rn.nspname,
+              'referenced_table', rcl.relname,
+              'referenced_columns', ${keyColumns('con.confkey', 'con.confrelid')},
+              'on_delete', ${actionName('con.confdeltype')},
+              'on_update', ${actionName('con.confupdtype')}
+            )) as info
+          FROM pg_constraint con
+          JOIN pg_class cl ON cl.oid = con.conrelid
+          JOIN pg_namespace n ON n.oid = cl.relnamespace
+          LEFT JOIN pg_class rcl ON rcl.oid = con.confrelid
+          LEFT JOIN pg_namespace rn ON rn.oid = rcl.relnamespace
+          WHERE con.contype IN ('p', 'u', 'f')
+        ) kc
+        ${requestedOnly ? 'JOIN requested_tables rt ON kc.table_name = rt.table_name' : ''}
+        WHERE ${this.namespaceCondition('kc.table_schema', allSchemas)}
+        GROUP BY kc.table_schema, kc.table_name
+      `;
+  }
+
   private parseSchemaResult(result: PgQueryResult): SchemaResult {
     const tables: TableInfo[] = [];
     const missingTables: MissingTableInfo[] = [];
 
     for (const row of result.rows) {
       if (row.type === 'found') {
+        // bigint values arrive as strings; a negative reltuples means never analyzed
+        const rowEstimate = optionalNumber(row.row_estimate);
+        const totalBytes = optionalNumber(row.total_bytes);
+        const indexBytes = optionalNumber(row.index_bytes);
         tables.push({
           schema: row.table_schema as string,
           name: row.table_name as string,
-          columns: JSON.parse(row.columns as string),
+          ...(row.table_comment && { comment: row.table_comment as string }),
+          ...(rowEstimate !== undefined && rowEstimate >= 0 && { rowEstimate }),
+          ...(totalBytes !== undefined && { totalBytes }),
+          ...(indexBytes !== undefined && { indexBytes }),
+          columns: (JSON.parse(row.columns as string) as ColumnInfo[]).map(
+            ({ full_type, comment, ...column }) => ({
+              ...column,
+              ...(full_type && { full_type }),
+              ...(comment && { comment }),
+            })
+          ),
           constraints: JSON.parse(row.constraints as string),
         });
       } else if (row.type === 'missing') {
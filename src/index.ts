@@ -3,23 +3,185 @@
  */
 
 // Export MCP server and related types
-export { SqlAgentMcpServer } from './mcp';
+export { SqlAgentMcpServer, createMcpSession } from './mcp';
 export { SQL_AGENT_TOOLS, getToolDefinition, validateToolInput } from './mcp/tool-definition';
 export { McpToolHandler, McpToolRequest, McpToolResponse } from './mcp/tool-handler';
 export type { McpToolDefinition, McpPropertySchema } from './mcp/tool-definition';
-export type { McpServerInfo, McpToolsListResponse } from './mcp';
+export { McpResourceHandler, ResourceNotFoundError } from './mcp/resource-handler';
+export type { McpResource, McpResourceContents, McpResourceTemplate } from './mcp/resource-handler';
+export { McpPromptHandler, InvalidPromptError } from './mcp/prompt-handler';
+export { McpHttpTransport, parseTransportArgs } from './mcp/http-transport';
+export type { HttpTransportOptions, TransportArgs } from './mcp/http-transport';
+export type {
+  McpPrompt,
+  McpPromptArgument,
+  McpPromptMessage,
+  McpPromptResult,
+} from './mcp/prompt-handler';
+export type {
+  McpServerInfo,
+  McpInitializeResult,
+  McpSession,
+  McpToolsListResponse,
+  JsonRpcId,
+  JsonRpcError,
+  JsonRpcResponse,
+} from './mcp';
 
 // Export SQL executor
-export { SqlExecutor } from './core/sql-executor';
+export { SqlExecutor, StatementExecutionError, TABLE_PRIVILEGES } from './core/sql-executor';
 export type {
+  SqlExecutorOptions,
   QueryResult,
+  StatementResult,
+  StreamQueryOptions,
+  StreamBatch,
+  ExplainOptions,
+  ExplainResult,
+  ProfileOptions,
+  SampleRowsOptions,
+  RowSample,
   SchemaResult,
+  SchemaOptions,
+  SchemaObjects,
+  ViewInfo,
+  TypeInfo,
+  FunctionInfo,
+  IndexInfo,
+  TriggerInfo,
+  SequenceInfo,
+  RowSecurityInfo,
+  PolicyInfo,
+  GrantInfo,
+  TablePrivilege,
+  PermissionCheck,
   TableInfo,
   ColumnInfo,
   ConstraintInfo,
+  ForeignKeyAction,
   MissingTableInfo,
+  TableSummary,
+  CatalogEntry,
 } from './core/sql-executor';
 
+// Export transactional sessions and paging cursors
+export { SessionManager } from './core/session-manager';
+export type { SessionInfo, SessionEndResult } from './core/session-manager';
+export { CursorManager } from './core/cursor-manager';
+export type { CursorPage } from './core/cursor-manager';
+
+// Export SQL parsing and read-only classification
+export { splitSqlStatements, tokenizeSql } from './utils/sql-splitter';
+export type { SqlStatement, SqlToken } from './utils/sql-splitter';
+export { classifySql, assertReadOnly, ReadOnlyViolationError } from './utils/sql-classifier';
+export type { StatementClassification } from './utils/sql-classifier';
+
+// Export result size budgeting
+export {
+  getResultBudget,
+  applyResultBudget,
+  applyByteBudget,
+  truncateCell,
+  estimateTokens,
+} from './utils/result-budget';
+export type { ResultBudget, BudgetedRows } from './utils/result-budget';
+
+// Export schema rendering, diffing, snapshots, diagrams and code generation
+export {
+  renderSchema,
+  formatSchemaText,
+  formatSchemaMarkdown,
+  formatSchemaCompact,
+  formatSchemaObjectsText,
+  formatTableSummaryText,
+  formatTableStats,
+  formatByteSize,
+  formatPolicyText,
+  formatRowSecurityText,
+  formatGrantText,
+  formatPermissionText,
+  parseSchemaInclude,
+} from './utils/schema-renderer';
+export type { SchemaFormat } from './utils/schema-renderer';
+export {
+  searchSchema,
+  searchWords,
+  wordSimilarity,
+  catalogFromSchema,
+  formatSearchResultsText,
+} from './utils/schema-search';
+export type { SchemaSearchHit, SchemaSearchOptions, SearchField } from './utils/schema-search';
+export {
+  diffSchemas,
+  generateMigrationDdl,
+  createTableDdl,
+  formatSchemaDiffText,
+  quoteIdent,
+} from './utils/schema-diff';
+export type {
+  SchemaDiff,
+  TableDiff,
+  ChangedColumn,
+  ColumnChange,
+  ChangedIndex,
+  MigrationDdl,
+} from './utils/schema-diff';
+export { loadSchemaSource, readSchemaFile, describeSchemaSource } from './core/schema-source';
+export { getProjectDir, listProjectFiles, readProjectFile } from './core/project-files';
+export type { ProjectFile } from './core/project-files';
+export {
+  SCHEMA_SNAPSHOT_VERSION,
+  createSchemaSnapshot,
+  serializeSchemaSnapshot,
+  readSchemaSnapshot,
+  querySchemaSnapshot,
+} from './core/schema-snapshot';
+export type { SchemaSnapshot } from './core/schema-snapshot';
+export {
+  buildErdGraph,
+  renderErd,
+  formatErdMermaid,
+  formatErdDot,
+  formatErdPlantUml,
+} from './utils/erd';
+export type { ErdFormat, ErdOptions, ErdGraph, ErdRelationship } from './utils/erd';
+export {
+  generateCode,
+  generateTypeScript,
+  generateZod,
+  generateJsonSchema,
+  toTypeName,
+} from './utils/codegen';
+export type { CodegenTarget, GeneratedCode } from './utils/codegen';
+
+// Export query plan summarization
+export { summarizePlan, parseExplainOutput, formatPlanSummaryText } from './utils/plan-summary';
+export type { PlanSummary, PlanNode, ExplainOutput } from './utils/plan-summary';
+
+// Export table profiling
+export {
+  profileColumnFromStats,
+  profileColumnFromSample,
+  formatProfileText,
+  SAMPLE_METHODS,
+} from './utils/table-profile';
+export type {
+  TableProfile,
+  ColumnProfile,
+  ValueFrequency,
+  SampleMethod,
+} from './utils/table-profile';
+
+// Export sensitive column redaction
+export {
+  DEFAULT_SENSITIVE_PATTERNS,
+  getSensitivePatterns,
+  isSensitiveColumn,
+  maskValue,
+  redactRows,
+} from './utils/redaction';
+export type { RedactedRows } from './utils/redaction';
+
 // Export backup types
 export type { BackupOptions, BackupResult } from './types/backup';
 
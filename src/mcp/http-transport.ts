@@ -0,0 +1,384 @@
+/**
+ * MCP streamable HTTP transport, so one server can be shared by a team or a remote agent runner
+ * Clients POST JSON-RPC messages to a single endpoint (/mcp) and get the replies as JSON or, when
+ * they accept it, as a server-sent event stream. initialize hands out an Mcp-Session-Id that every
+ * later request carries; each session has its own handshake state, while the rate limit budget
+ * belongs to the remote address. Requests go through the same SqlAgentMcpServer.handleMessage as stdio
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import {
+  createMcpSession,
+  JsonRpcResponse,
+  McpSession,
+  SqlAgentMcpServer,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from './index';
+import { logger } from '../utils/logger';
+
+export interface HttpTransportOptions {
+  port: number; // 0 picks a free port
+  host?: string; // Default 127.0.0.1; other addresses require a token
+  token?: string; // Bearer token clients must send (default SEQUELAE_HTTP_TOKEN)
+  path?: string; // Endpoint path (default /mcp)
+  allowedOrigins?: string[]; // Browser origins besides localhost (default SEQUELAE_HTTP_ALLOWED_ORIGINS)
+  sessionIdleTimeoutMs?: number; // Sessions unused this long are forgotten (default 30 minutes)
+  maxSessions?: number; // Open sessions allowed at once (default SEQUELAE_HTTP_MAX_SESSIONS, else 100)
+  shutdownTimeoutMs?: number; // How long close() lets requests in flight finish (default 10 seconds)
+}
+
+export type TransportArgs =
+  | { transport: 'stdio' }
+  | { transport: 'http'; port: number; host?: string };
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1', '[::1]'];
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// JSON-RPC error code for failures outside the protocol (auth, sessions, HTTP method)
+const TRANSPORT_ERROR = -32000;
+
+/**
+ * Transport flags of MCP mode: `--transport stdio|http`, and for http `--port <n>` and `--host <address>`
+ */
+export function parseTransportArgs(args: string[]): TransportArgs {
+  const value = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    if (index === -1) {
+      return undefined;
+    }
+    const next = args[index + 1];
+    if (next === undefined || next.startsWith('--')) {
+      throw new Error(`${flag} requires a value`);
+    }
+    return next;
+  };
+
+  const transport = value('--transport') || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport: ${transport}. Must be one of: stdio, http`);
+  }
+  const port = value('--port');
+  const host = value('--host');
+  if (transport === 'stdio') {
+    if (port !== undefined || host !== undefined) {
+      throw new Error('--port and --host only apply to --transport http');
+    }
+    return { transport };
+  }
+
+  const portNumber = port === undefined ? DEFAULT_PORT : Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`Invalid port: ${port}. Must be a whole number from 0 to 65535`);
+  }
+  return { transport, port: portNumber, ...(host && { host }) };
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+class BodyTooLargeError extends Error {}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Drain the rest so the 413 still reaches the client
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+interface HttpSession {
+  state: McpSession;
+  lastSeen: number;
+}
+
+export class McpHttpTransport {
+  private server: Server | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private sweepInterval?: NodeJS.Timeout;
+  private closing = false;
+  private readonly host: string;
+  private readonly token?: string;
+  private readonly path: string;
+  private readonly allowedOrigins: string[];
+  private readonly sessionIdleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly shutdownTimeoutMs: number;
+
+  constructor(
+    private mcp: SqlAgentMcpServer,
+    private options: HttpTransportOptions
+  ) {
+    this.host = options.host || DEFAULT_HOST;
+    this.token = options.token ?? (process.env.SEQUELAE_HTTP_TOKEN || undefined);
+    this.path = options.path || '/mcp';
+    this.allowedOrigins =
+      options.allowedOrigins ??
+      (process.env.SEQUELAE_HTTP_ALLOWED_ORIGINS || '')
+        .split(',')
+        .map(origin => origin.trim())
+        .filter(origin => origin.length > 0);
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+    this.maxSessions =
+      options.maxSessions ||
+      (process.env.SEQUELAE_HTTP_MAX_SESSIONS
+        ? parseInt(process.env.SEQUELAE_HTTP_MAX_SESSIONS)
+        : 100);
+    this.shutdownTimeoutMs = options.shutdownTimeoutMs ?? 10000;
+
+    // A database behind an open port is one scan away from being dumped
+    if (!this.token && !LOOPBACK_HOSTS.includes(this.host)) {
+      throw new Error(
+        `Refusing to listen on ${this.host} without a bearer token: set SEQUELAE_HTTP_TOKEN`
+      );
+    }
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening; resolves with the bound address once the port is open
+   */
+  listen(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          logger.error('MCP HTTP request failed', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          if (!res.headersSent) {
+            this.sendError(res, 500, -32603, 'Internal error');
+          } else {
+            res.end();
+          }
+        });
+      });
+      server.once('error', reject);
+      server.listen(this.options.port, this.host, () => {
+        server.off('error', reject);
+        resolve(server.address() as AddressInfo);
+      });
+      this.server = server;
+
+      this.sweepInterval = setInterval(
+        () => this.expireSessions(),
+        Math.min(60000, this.sessionIdleTimeoutMs)
+      );
+      this.sweepInterval.unref();
+    });
+  }
+
+  /**
+   * Graceful shutdown: stop accepting connections, let requests in flight finish (up to
+   * shutdownTimeoutMs, then cut them off), forget all sessions and close the MCP server,
+   * which rolls back open transactions and releases the pool
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (server && !this.closing) {
+      this.closing = true;
+      clearInterval(this.sweepInterval);
+      const closed = new Promise<void>(resolve => server.close(() => resolve()));
+      server.closeIdleConnections();
+      const timer = setTimeout(() => server.closeAllConnections(), this.shutdownTimeoutMs);
+      await closed;
+      clearTimeout(timer);
+      this.server = null;
+    }
+    this.sessions.clear();
+    await this.mcp.close();
+  }
+
+  private expireSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const [id, session] of this.sessions) {
+      if (session.lastSeen < cutoff) {
+        this.sessions.delete(id);
+        this.mcp.endSession(id).catch(error => {
+          logger.error('Error ending expired MCP HTTP session', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.path) {
+      return this.sendError(res, 404, TRANSPORT_ERROR, 'Not found');
+    }
+    if (!this.originAllowed(header(req, 'origin'))) {
+      return this.sendError(res, 403, TRANSPORT_ERROR, 'Origin not allowed');
+    }
+    if (!this.authorized(header(req, 'authorization'))) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return this.sendError(res, 401, TRANSPORT_ERROR, 'Unauthorized');
+    }
+    if (this.closing) {
+      return this.sendError(res, 503, TRANSPORT_ERROR, 'Server is shutting down');
+    }
+    const version = header(req, 'mcp-protocol-version');
+    if (version !== undefined && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+      return this.sendError(
+        res,
+        400,
+        TRANSPORT_ERROR,
+        `Unsupported protocol version: ${version}. Supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+      );
+    }
+
+    switch (req.method) {
+      case 'POST':
+        return this.handlePost(req, res);
+      case 'DELETE':
+        return this.handleDelete(req, res);
+      default:
+        // No server-initiated messages, so there is no GET stream to open
+        res.setHeader('Allow', 'POST, DELETE');
+        return this.sendError(res, 405, TRANSPORT_ERROR, 'Method not allowed');
+    }
+  }
+
+  private async handlePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(await readBody(req));
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        return this.sendError(res, 413, TRANSPORT_ERROR, 'Request body too large');
+      }
+      return this.sendError(res, 400, -32700, 'Parse error');
+    }
+
+    // initialize starts a new session; everything else must name an existing one
+    const initializing = (Array.isArray(message) ? message : [message]).some(
+      item =>
+        !!item && typeof item === 'object' && (item as { method?: unknown }).method === 'initialize'
+    );
+    let sessionId = header(req, 'mcp-session-id');
+    let session: HttpSession | undefined;
+    if (initializing) {
+      if (this.sessions.size >= this.maxSessions) {
+        this.expireSessions();
+      }
+      if (this.sessions.size >= this.maxSessions) {
+        return this.sendError(
+          res,
+          503,
+          TRANSPORT_ERROR,
+          `Too many open sessions (max ${this.maxSessions}). End one with DELETE or wait for an idle one to expire`
+        );
+      }
+      sessionId = randomUUID();
+      session = {
+        state: createMcpSession(sessionId, req.socket.remoteAddress),
+        lastSeen: Date.now(),
+      };
+    } else if (!sessionId) {
+      return this.sendError(res, 400, TRANSPORT_ERROR, 'Missing Mcp-Session-Id header');
+    } else {
+      session = this.sessions.get(sessionId);
+      if (!session) {
+        return this.sendError(res, 404, TRANSPORT_ERROR, 'Session not found');
+      }
+    }
+    session.lastSeen = Date.now();
+
+    const response = await this.mcp.handleMessage(message, session.state);
+
+    if (initializing && session.state.lifecycle !== 'uninitialized') {
+      this.sessions.set(sessionId, session);
+    }
+    if (this.sessions.has(sessionId)) {
+      res.setHeader('Mcp-Session-Id', sessionId);
+    }
+    if (this.closing) {
+      res.setHeader('Connection', 'close');
+    }
+
+    // Only notifications: accepted, nothing to say
+    if (!response) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+    if ((header(req, 'accept') || '').includes('text/event-stream')) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      const responses: JsonRpcResponse[] = Array.isArray(response) ? response : [response];
+      for (const item of responses) {
+        res.write(`event: message\ndata: ${JSON.stringify(item)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  }
+
+  private async handleDelete(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = header(req, 'mcp-session-id');
+    if (!sessionId) {
+      return this.sendError(res, 400, TRANSPORT_ERROR, 'Missing Mcp-Session-Id header');
+    }
+    if (!this.sessions.delete(sessionId)) {
+      return this.sendError(res, 404, TRANSPORT_ERROR, 'Session not found');
+    }
+    // Its open transactions are rolled back before the client hears the session is gone
+    await this.mcp.endSession(sessionId);
+    res.writeHead(204);
+    res.end();
+  }
+
+  // Browsers send an Origin; only local pages and configured origins may call the server
+  private originAllowed(origin: string | undefined): boolean {
+    if (origin === undefined || this.allowedOrigins.includes(origin)) {
+      return true;
+    }
+    try {
+      return LOOPBACK_HOSTS.includes(new URL(origin).hostname);
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  private authorized(authorization: string | undefined): boolean {
+    if (!this.token) {
+      return true;
+    }
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || '');
+    if (!match) {
+      return false;
+    }
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(this.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    const body: JsonRpcResponse = { jsonrpc: '2.0', id: null, error: { code, message } };
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      ...(this.closing && { Connection: 'close' }),
+    });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -5,7 +5,10 @@
 
 import { SQL_AGENT_TOOLS } from './tool-definition';
 import { McpToolHandler } from './tool-handler';
+import { McpResourceHandler, ResourceNotFoundError } from './resource-handler';
+import { InvalidPromptError, McpPromptHandler } from './prompt-handler';
 import { RateLimiter, RateLimiterOptions } from '../utils/rate-limiter';
+import { logger } from '../utils/logger';
 
 export interface McpServerInfo {
   name: string;
@@ -13,6 +16,13 @@ export interface McpServerInfo {
   description: string;
 }
 
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo: McpServerInfo;
+  instructions: string;
+}
+
 export interface McpToolsListResponse {
   tools: Array<{
     name: string;
@@ -21,13 +31,76 @@ export interface McpToolsListResponse {
   }>;
 }
 
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcError };
+
+// Protocol revisions this server speaks, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+// MCP: resources/read of a URI that names nothing
+const RESOURCE_NOT_FOUND = -32002;
+// Server-defined: rate limit exceeded, and requests that arrive before the initialize handshake
+const RATE_LIMITED = -32000;
+const NOT_INITIALIZED = -32003;
+
+const SERVER_INSTRUCTIONS =
+  'Runs SQL against a PostgreSQL database. Look before you query: sql_schema with summary: true lists ' +
+  'tables with estimated row counts, sql_schema_search finds tables and columns by concept, and ' +
+  'sql_schema with tables gives their columns, keys and comments. sql_sample and sql_profile show what ' +
+  'the data looks like. Bind values as $1, $2 params instead of inlining them, check expensive queries ' +
+  'with sql_explain first, and stage multi-step changes with sql_session_begin so they can be ' +
+  'inspected and rolled back.';
+
+// Handshake state of one client: stdio has a single one, the HTTP transport one per session id
+export interface McpSession {
+  id?: string; // HTTP session id
+  client?: string; // Who the rate limiter counts against: the remote address over HTTP
+  // uninitialized until the initialize request, ready once the client confirms with notifications/initialized
+  lifecycle: 'uninitialized' | 'initializing' | 'ready';
+  protocolVersion?: string;
+}
+
+export function createMcpSession(id?: string, client?: string): McpSession {
+  return { ...(id && { id }), ...(client && { client }), lifecycle: 'uninitialized' };
+}
+
+function isJsonRpcId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || typeof id === 'number';
+}
+
+function errorEnvelope(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
 export class SqlAgentMcpServer {
   private handler: McpToolHandler;
+  private resources: McpResourceHandler;
+  private prompts: McpPromptHandler;
   private rateLimiter?: RateLimiter;
   private cleanupInterval?: NodeJS.Timeout;
+  // The stdio client, and any caller that does not pass a session of its own
+  private session: McpSession = createMcpSession();
 
   constructor(rateLimiterOptions?: RateLimiterOptions) {
     this.handler = new McpToolHandler();
+    this.resources = new McpResourceHandler();
+    this.prompts = new McpPromptHandler();
 
     // Initialize rate limiter if options provided
     if (rateLimiterOptions) {
@@ -50,6 +123,43 @@ export class SqlAgentMcpServer {
     };
   }
 
+  /**
+   * Protocol revision agreed during initialize, if it happened
+   */
+  getProtocolVersion(session: McpSession = this.session): string | undefined {
+    return session.protocolVersion;
+  }
+
+  /**
+   * Answer initialize: the client's protocol version when supported, else the latest one
+   * (the client then decides whether it can go on), plus capabilities and usage instructions
+   */
+  initialize(
+    params: Record<string, unknown> = {},
+    session: McpSession = this.session
+  ): McpInitializeResult {
+    const requested = params.protocolVersion;
+    session.protocolVersion =
+      typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : LATEST_PROTOCOL_VERSION;
+    session.lifecycle = 'initializing';
+
+    const readOnly = process.env.SEQUELAE_READ_ONLY === 'true';
+    return {
+      protocolVersion: session.protocolVersion,
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+      serverInfo: this.getServerInfo(),
+      instructions: readOnly
+        ? `${SERVER_INSTRUCTIONS} This server is read-only: statements that modify data are rejected.`
+        : SERVER_INSTRUCTIONS,
+    };
+  }
+
   /**
    * List available tools (for MCP discovery)
    */
@@ -65,13 +175,14 @@ export class SqlAgentMcpServer {
 
   /**
    * Handle incoming MCP requests
+   * Notifications are handled too but resolve to undefined: there is nothing to reply
    */
-  async handleRequest(request: unknown): Promise<unknown> {
+  async handleRequest(request: unknown, session: McpSession = this.session): Promise<unknown> {
     // Validate request structure
     if (!request || typeof request !== 'object') {
       return {
         error: {
-          code: -32600,
+          code: INVALID_REQUEST,
           message: 'Invalid request',
         },
       };
@@ -81,35 +192,81 @@ export class SqlAgentMcpServer {
     const method = req.method as string;
     const params = req.params as Record<string, unknown>;
 
+    if (typeof method === 'string' && method.startsWith('notifications/')) {
+      if (method === 'notifications/initialized' && session.lifecycle === 'initializing') {
+        session.lifecycle = 'ready';
+      }
+      // Other notifications (cancelled, progress) need no action
+      return undefined;
+    }
+
+    if (method === 'initialize') {
+      if (session.lifecycle !== 'uninitialized') {
+        return {
+          error: {
+            code: INVALID_REQUEST,
+            message: 'Server already initialized',
+          },
+        };
+      }
+      return this.initialize(params, session);
+    }
+
+    // Ping is allowed at any time; everything else waits for the handshake
+    if (method === 'ping') {
+      return {};
+    }
+    if (session.lifecycle === 'uninitialized') {
+      return {
+        error: {
+          code: NOT_INITIALIZED,
+          message: 'Server not initialized: send an initialize request first',
+        },
+      };
+    }
+
     try {
       switch (method) {
-        case 'initialize':
-          return {
-            serverInfo: this.getServerInfo(),
-            capabilities: {
-              tools: {},
-            },
-          };
-
         case 'tools/list':
           return this.listTools();
 
         case 'tools/call':
-          if (!params || !params.name || !params.arguments) {
-            throw new Error('Invalid tool call parameters');
+          // arguments is optional: tools without required inputs may be called without it
+          if (
+            !params ||
+            typeof params.name !== 'string' ||
+            (params.arguments !== undefined &&
+              (typeof params.arguments !== 'object' ||
+                params.arguments === null ||
+                Array.isArray(params.arguments)))
+          ) {
+            return {
+              error: {
+                code: INVALID_PARAMS,
+                message: 'Invalid tool call parameters',
+              },
+            };
+          }
+          if (!SQL_AGENT_TOOLS.some(tool => tool.name === params.name)) {
+            return {
+              error: {
+                code: INVALID_PARAMS,
+                message: `Unknown tool: ${params.name}`,
+              },
+            };
           }
 
           // Check rate limit if enabled
           if (this.rateLimiter) {
-            // Use a connection identifier (could be enhanced with actual connection ID)
-            const identifier = 'default'; // In real implementation, this would be from connection context
+            // Keyed on the client, not the session, so a fresh initialize doesn't reset the budget
+            const identifier = session.client || 'default';
             const toolName = params.name as string;
             const limitCheck = this.rateLimiter.checkLimit(identifier, toolName);
 
             if (!limitCheck.allowed) {
               return {
                 error: {
-                  code: -32000,
+                  code: RATE_LIMITED,
                   message: 'Rate limit exceeded',
                   data: {
                     retryAfter: limitCheck.retryAfter,
@@ -122,21 +279,78 @@ export class SqlAgentMcpServer {
 
           return await this.handler.handleToolCall({
             tool: params.name as string,
-            arguments: params.arguments as Record<string, unknown>,
+            arguments: (params.arguments as Record<string, unknown> | undefined) ?? {},
+            ...(session.id && { owner: session.id }),
           });
 
+        case 'resources/list':
+          return { resources: await this.resources.listResources() };
+
+        case 'resources/templates/list':
+          return { resourceTemplates: this.resources.listResourceTemplates() };
+
+        case 'resources/read':
+          if (!params || typeof params.uri !== 'string') {
+            return {
+              error: {
+                code: INVALID_PARAMS,
+                message: 'Invalid resource read parameters',
+              },
+            };
+          }
+          return { contents: await this.resources.readResource(params.uri) };
+
+        case 'prompts/list':
+          return { prompts: this.prompts.listPrompts() };
+
+        case 'prompts/get':
+          if (
+            !params ||
+            typeof params.name !== 'string' ||
+            (params.arguments !== undefined &&
+              (typeof params.arguments !== 'object' || params.arguments === null))
+          ) {
+            return {
+              error: {
+                code: INVALID_PARAMS,
+                message: 'Invalid prompt parameters',
+              },
+            };
+          }
+          return await this.prompts.getPrompt(
+            params.name,
+            params.arguments as Record<string, string> | undefined
+          );
+
         default:
           return {
             error: {
-              code: -32601,
+              code: METHOD_NOT_FOUND,
               message: `Method not found: ${method}`,
             },
           };
       }
     } catch (error) {
+      if (error instanceof InvalidPromptError) {
+        return {
+          error: {
+            code: INVALID_PARAMS,
+            message: error.message,
+          },
+        };
+      }
+      if (error instanceof ResourceNotFoundError) {
+        return {
+          error: {
+            code: RESOURCE_NOT_FOUND,
+            message: error.message,
+            data: { uri: error.uri },
+          },
+        };
+      }
       return {
         error: {
-          code: -32603,
+          code: INTERNAL_ERROR,
           message: error instanceof Error ? error.message : 'Internal error',
         },
       };
@@ -144,14 +358,76 @@ export class SqlAgentMcpServer {
   }
 
   /**
-   * Start the MCP server (stdio mode)
+   * Handle one parsed JSON-RPC message, or a batch of them, and build the reply envelopes:
+   * `result` for answers (tool failures included, flagged with isError), `error` for protocol errors.
+   * Resolves to undefined when there is nothing to send, i.e. the message held only notifications
+   */
+  async handleMessage(
+    message: unknown,
+    session: McpSession = this.session
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (!Array.isArray(message)) {
+      return this.handleSingleMessage(message, session);
+    }
+    if (message.length === 0) {
+      return errorEnvelope(null, INVALID_REQUEST, 'Invalid request: empty batch');
+    }
+
+    // One after another, so a batch can initialize and then call tools
+    const responses: JsonRpcResponse[] = [];
+    for (const item of message) {
+      const response = await this.handleSingleMessage(item, session);
+      if (response) {
+        responses.push(response);
+      }
+    }
+    return responses.length > 0 ? responses : undefined;
+  }
+
+  private async handleSingleMessage(
+    message: unknown,
+    session: McpSession
+  ): Promise<JsonRpcResponse | undefined> {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return errorEnvelope(null, INVALID_REQUEST, 'Invalid request');
+    }
+    const request = message as Record<string, unknown>;
+    const hasId = 'id' in request;
+    if (hasId && !isJsonRpcId(request.id)) {
+      return errorEnvelope(null, INVALID_REQUEST, 'Invalid request: id must be a string or number');
+    }
+    const id = hasId ? (request.id as JsonRpcId) : null;
+    if (request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      return errorEnvelope(id, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const response = await this.handleRequest(request, session);
+    // Messages without an id are notifications and never get a reply
+    if (!hasId) {
+      return undefined;
+    }
+    if (response && typeof response === 'object' && 'error' in response) {
+      return { jsonrpc: '2.0', id, error: (response as { error: JsonRpcError }).error };
+    }
+    return { jsonrpc: '2.0', id, result: response };
+  }
+
+  /**
+   * Start the MCP server (stdio mode): newline-delimited JSON-RPC on stdin, replies on stdout
    */
-  async start(): Promise<void> {
-    process.stdin.setEncoding('utf8');
+  async start(
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ): Promise<void> {
+    // Protocol messages own stdout, so log lines from anywhere (pool retries and the like) go to stderr
+    if (output === process.stdout) {
+      logger.setStderrOnly(true);
+    }
+    input.setEncoding('utf8');
 
     let buffer = '';
 
-    process.stdin.on('data', async chunk => {
+    input.on('data', async chunk => {
       buffer += chunk;
 
       // Look for complete JSON-RPC messages
@@ -160,38 +436,35 @@ export class SqlAgentMcpServer {
 
       for (const line of lines) {
         if (line.trim()) {
+          let message: unknown;
           try {
-            const request = JSON.parse(line);
-            const response = await this.handleRequest(request);
-
-            // Add JSON-RPC fields
-            const jsonRpcResponse = {
-              jsonrpc: '2.0',
-              id: (request as Record<string, unknown>).id || null,
-              ...(response as object),
-            };
-
-            process.stdout.write(JSON.stringify(jsonRpcResponse) + '\n');
+            message = JSON.parse(line);
           } catch (_error) {
-            const errorResponse = {
-              jsonrpc: '2.0',
-              id: null,
-              error: {
-                code: -32700,
-                message: 'Parse error',
-              },
-            };
-            process.stdout.write(JSON.stringify(errorResponse) + '\n');
+            output.write(JSON.stringify(errorEnvelope(null, PARSE_ERROR, 'Parse error')) + '\n');
+            continue;
+          }
+
+          const response = await this.handleMessage(message);
+          if (response) {
+            output.write(JSON.stringify(response) + '\n');
           }
         }
       }
     });
 
-    process.stdin.on('end', () => {
+    input.on('end', () => {
       this.close();
     });
   }
 
+  /**
+   * Roll back the database sessions and close the cursors an HTTP session left open, once it
+   * is deleted or expires; nothing else can reach them
+   */
+  async endSession(id: string): Promise<void> {
+    await this.handler.release(id);
+  }
+
   /**
    * Close the server and cleanup
    */
@@ -201,6 +474,8 @@ export class SqlAgentMcpServer {
       clearInterval(this.cleanupInterval);
     }
     await this.handler.close();
+    await this.resources.close();
+    await this.prompts.close();
   }
 }
 
@@ -208,3 +483,12 @@ export class SqlAgentMcpServer {
 export { SQL_AGENT_TOOLS } from './tool-definition';
 export { McpToolHandler } from './tool-handler';
 export type { McpToolRequest, McpToolResponse } from './tool-handler';
+export { McpResourceHandler, ResourceNotFoundError } from './resource-handler';
+export type { McpResource, McpResourceContents, McpResourceTemplate } from './resource-handler';
+export { McpPromptHandler, InvalidPromptError } from './prompt-handler';
+export type {
+  McpPrompt,
+  McpPromptArgument,
+  McpPromptMessage,
+  McpPromptResult,
+} from './prompt-handler';
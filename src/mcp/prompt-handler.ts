@@ -0,0 +1,344 @@
+/**
+ * MCP prompts: ready-made instructions for common database workflows, filled in with
+ * excerpts of the live schema so the model starts from the actual tables
+ * Teams add their own as JSON files in .sequelae/prompts/<name>.json:
+ *   { "description": "...", "arguments": [{ "name": "ticket", "required": true }],
+ *     "template": "Fix {{ticket}} touching {{ddl:tables}}. Schema: {{schema}}" }
+ * {{name}} is an argument, {{schema}} a one-line-per-table overview and {{ddl:name}} the DDL
+ * of the comma-separated tables given in argument `name`. A file named like a built-in replaces it
+ */
+
+import { SchemaResult, SqlExecutor, TableInfo } from '../core/sql-executor';
+import { listProjectFiles, readProjectFile } from '../core/project-files';
+import { createTableDdl } from '../utils/schema-diff';
+import { formatSchemaCompact } from '../utils/schema-renderer';
+import { logger } from '../utils/logger';
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface McpPromptResult {
+  description: string;
+  messages: McpPromptMessage[];
+}
+
+// Unknown prompt or missing argument; the client sent something unusable
+export class InvalidPromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPromptError';
+  }
+}
+
+const PROMPTS_DIR = 'prompts';
+// Beyond this many tables the overview names the rest instead of describing them
+const MAX_OVERVIEW_TABLES = 100;
+
+/**
+ * Schema excerpts for prompt text, fetched on demand
+ */
+class SchemaExcerpts {
+  constructor(private getExecutor: () => SqlExecutor) {}
+
+  /**
+   * One line per table; large databases get the first tables and a list of the other names
+   */
+  async overview(): Promise<string> {
+    const schema = await this.getExecutor().getSchema(undefined, true);
+    if (schema.tables.length === 0) {
+      return '(no tables yet)';
+    }
+    const shown: SchemaResult = { ...schema, tables: schema.tables.slice(0, MAX_OVERVIEW_TABLES) };
+    let text = formatSchemaCompact(shown).trimEnd();
+    const rest = schema.tables.slice(MAX_OVERVIEW_TABLES);
+    if (rest.length > 0) {
+      text += `\n… and ${rest.length} more tables: ${rest.map(t => `${t.schema}.${t.name}`).join(', ')}`;
+    }
+    return text;
+  }
+
+  /**
+   * DDL of tables given as "name" or "schema.name"; names that match nothing are reported as such
+   */
+  async ddl(names: string[]): Promise<string> {
+    const wanted = names.map(name => {
+      const dot = name.indexOf('.');
+      return dot > 0
+        ? { schema: name.slice(0, dot), table: name.slice(dot + 1), label: name }
+        : { schema: undefined, table: name, label: name };
+    });
+    const schema = await this.getExecutor().getSchema(
+      wanted.map(w => w.table),
+      true,
+      { includeIndexes: true }
+    );
+    return wanted
+      .map(w => {
+        const matches = schema.tables.filter(
+          t => t.name === w.table && (w.schema === undefined || t.schema === w.schema)
+        );
+        return matches.length > 0
+          ? matches.map(t => createTableDdl(t, schema.indexes)).join('\n\n')
+          : `-- Table not found: ${w.label}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * DDL and indexes of the tables a query mentions by name, else the overview
+   */
+  async mentionedIn(sql: string): Promise<string> {
+    const schema = await this.getExecutor().getSchema(undefined, true, { includeIndexes: true });
+    const mentioned = (table: TableInfo): boolean =>
+      new RegExp(
+        `(^|[^\\w$])"?${table.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"?($|[^\\w$])`,
+        'i'
+      ).test(sql);
+    const tables = schema.tables.filter(mentioned);
+    if (tables.length === 0) {
+      return this.overview();
+    }
+    return tables.map(t => createTableDdl(t, schema.indexes)).join('\n\n');
+  }
+}
+
+function splitNames(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+}
+
+interface PromptTemplate extends McpPrompt {
+  render(args: Record<string, string>, excerpts: SchemaExcerpts): Promise<string>;
+}
+
+const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'explore_database',
+    description:
+      'Get to know this database: what it stores, how tables relate and where to look first',
+    arguments: [
+      {
+        name: 'focus',
+        description: 'Area of interest, e.g. "billing"; leave out for the whole database',
+      },
+    ],
+    render: async (args, excerpts) =>
+      `Explore this PostgreSQL database${args.focus ? ` with a focus on ${args.focus}` : ''} and explain it to me.\n\n` +
+      `Tables (one per line: columns, ? nullable, PK/UQ keys, → foreign keys, row estimate, comment):\n` +
+      `${await excerpts.overview()}\n\n` +
+      'Describe what the data is about, group the tables by purpose and explain how the main ones ' +
+      'relate. Use sql_sample and sql_profile to see what the important tables hold before drawing ' +
+      'conclusions, and sql_schema_search to find columns by concept. Only run read-only queries.',
+  },
+  {
+    name: 'safe_migration',
+    description: 'Write a migration that can run on a live database without surprises',
+    arguments: [
+      { name: 'change', description: 'What the migration should do', required: true },
+      {
+        name: 'tables',
+        description: 'Comma-separated tables it touches, e.g. "public.orders, users"',
+      },
+    ],
+    render: async (args, excerpts) => {
+      const tables = splitNames(args.tables);
+      const schema =
+        tables.length > 0
+          ? `Current definition of the tables involved:\n${await excerpts.ddl(tables)}`
+          : `Current tables:\n${await excerpts.overview()}`;
+      return (
+        `Write a PostgreSQL migration that does the following: ${args.change}\n\n${schema}\n\n` +
+        'Make it safe to run against a live database:\n' +
+        '- Wrap it in a transaction and set a lock_timeout so it fails fast instead of queueing behind long queries\n' +
+        '- Avoid long exclusive locks: CREATE INDEX CONCURRENTLY (outside the transaction), add constraints NOT VALID and VALIDATE them separately, add columns without volatile defaults\n' +
+        '- Backfill large tables in batches rather than one UPDATE\n' +
+        '- Say which steps rewrite the table or block writes, and how long that may take given the row estimates\n' +
+        '- Provide a down migration that restores the current state\n' +
+        'Check the row counts and the data it depends on with sql_sample or sql_profile, and try the ' +
+        'migration with sql_session_begin and sql_session_exec, then sql_session_rollback, before proposing it.'
+      );
+    },
+  },
+  {
+    name: 'diagnose_slow_query',
+    description: 'Find out why a query is slow and how to speed it up',
+    arguments: [{ name: 'query', description: 'The slow SQL query', required: true }],
+    render: async (args, excerpts) =>
+      `This query is slow:\n\n${args.query}\n\n` +
+      `Relevant tables and indexes:\n${await excerpts.mentionedIn(args.query)}\n\n` +
+      'Run sql_explain on it (with analyze only if the query does not modify data) and read the ' +
+      'plan: sequential scans on large tables, row estimates far from the actual counts, sorts or ' +
+      'hashes spilling to disk, nested loops over many rows. Use sql_profile to check how selective ' +
+      'the filtered columns are. Then propose concrete fixes (an index, a rewritten query, ANALYZE ' +
+      'for stale statistics) and say what each one is expected to change in the plan.',
+  },
+  {
+    name: 'explain_table',
+    description: 'Explain what a table stores, what its columns mean and how it is used',
+    arguments: [
+      { name: 'table', description: 'Table name, optionally schema-qualified', required: true },
+    ],
+    render: async (args, excerpts) =>
+      `Explain the table ${args.table}.\n\n${await excerpts.ddl([args.table])}\n\n` +
+      'Say what one row represents, what each column means (use the comments, and sql_sample and ' +
+      'sql_profile for real values and their distribution), which tables it references or is ' +
+      'referenced by, and anything surprising such as nullable keys, unused columns or missing indexes.',
+  },
+];
+
+// {{schema}}, {{ddl:<argument>}} or {{<argument>}}
+const PLACEHOLDER = /\{\{(?:ddl:)?\w+\}\}/g;
+
+interface CustomPromptFile {
+  description?: string;
+  arguments?: McpPromptArgument[];
+  template: string;
+}
+
+/**
+ * A project prompt file, or null with a warning when it is not valid
+ */
+function parseCustomPrompt(name: string, content: string): PromptTemplate | null {
+  let parsed: CustomPromptFile;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    logger.warn(`Ignoring prompt ${name}: invalid JSON`, { error });
+    return null;
+  }
+  if (
+    !parsed ||
+    typeof parsed.template !== 'string' ||
+    (parsed.arguments !== undefined &&
+      (!Array.isArray(parsed.arguments) ||
+        parsed.arguments.some(arg => !arg || typeof arg.name !== 'string')))
+  ) {
+    logger.warn(`Ignoring prompt ${name}: expected a "template" string and named "arguments"`);
+    return null;
+  }
+
+  const template = parsed.template;
+  return {
+    name,
+    description: parsed.description || `Project prompt ${name}`,
+    arguments: (parsed.arguments || []).map(arg => ({
+      name: arg.name,
+      ...(arg.description && { description: arg.description }),
+      ...(arg.required && { required: true }),
+    })),
+    // One pass over the template, so braces in arguments, comments or DDL stay as they are
+    render: async (args, excerpts) => {
+      const argument = (key: string): string | undefined =>
+        Object.prototype.hasOwnProperty.call(args, key) ? args[key] : undefined;
+      const values = new Map<string, string>();
+      for (const placeholder of Array.from(new Set(template.match(PLACEHOLDER) || []))) {
+        const key = placeholder.slice(2, -2);
+        if (key === 'schema') {
+          values.set(placeholder, await excerpts.overview());
+        } else if (key.startsWith('ddl:')) {
+          const names = splitNames(argument(key.slice(4)));
+          values.set(
+            placeholder,
+            names.length > 0 ? await excerpts.ddl(names) : '(no tables given)'
+          );
+        } else {
+          const value = argument(key);
+          if (value !== undefined) {
+            values.set(placeholder, value);
+          }
+        }
+      }
+      return template.replace(PLACEHOLDER, placeholder => values.get(placeholder) ?? placeholder);
+    },
+  };
+}
+
+export class McpPromptHandler {
+  private executor: SqlExecutor | null = null;
+  private excerpts = new SchemaExcerpts(() => this.getExecutor());
+
+  constructor(private connectionString?: string) {
+    // Connection string can be provided later via environment
+  }
+
+  private getExecutor(): SqlExecutor {
+    const connString = this.connectionString || process.env.DATABASE_URL;
+    if (!connString) {
+      throw new Error('DATABASE_URL environment variable is not set');
+    }
+    if (!this.executor) {
+      this.executor = new SqlExecutor(connString);
+    }
+    return this.executor;
+  }
+
+  private customPrompts(): PromptTemplate[] {
+    return listProjectFiles(PROMPTS_DIR, '.json')
+      .map(file => parseCustomPrompt(file.name, file.content))
+      .filter((prompt): prompt is PromptTemplate => prompt !== null);
+  }
+
+  /**
+   * Built-in prompts, replaced or followed by the project's own
+   */
+  listPrompts(): McpPrompt[] {
+    const custom = this.customPrompts();
+    const names = new Set(custom.map(prompt => prompt.name));
+    return [...BUILT_IN_PROMPTS.filter(prompt => !names.has(prompt.name)), ...custom].map(
+      ({ name, description, arguments: args }) => ({ name, description, arguments: args })
+    );
+  }
+
+  /**
+   * A prompt rendered with `args`; InvalidPromptError for unknown names and missing arguments
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<McpPromptResult> {
+    // An invalid project file is skipped, as in listPrompts, so a built-in of that name still works
+    const file = readProjectFile(PROMPTS_DIR, name, '.json');
+    const prompt =
+      (file && parseCustomPrompt(name, file.content)) ||
+      BUILT_IN_PROMPTS.find(builtIn => builtIn.name === name);
+    if (!prompt) {
+      throw new InvalidPromptError(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(
+      arg => arg.required && (typeof args[arg.name] !== 'string' || args[arg.name].trim() === '')
+    );
+    if (missing.length > 0) {
+      throw new InvalidPromptError(
+        `Missing required argument${missing.length > 1 ? 's' : ''} for ${name}: ${missing.map(arg => arg.name).join(', ')}`
+      );
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        { role: 'user', content: { type: 'text', text: await prompt.render(args, this.excerpts) } },
+      ],
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.executor) {
+      await this.executor.close();
+      this.executor = null;
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * MCP resources: the whole schema, one resource per table and the project's saved queries
+ * Clients can attach them as context without spending a tool call. Tables read as DDL with
+ * their comments and indexes; URIs look like postgres://<db>/table/<schema>.<name>
+ */
+
+import { SqlExecutor } from '../core/sql-executor';
+import { listProjectFiles, readProjectFile } from '../core/project-files';
+import { createTableDdl } from '../utils/schema-diff';
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+const SQL_MIME_TYPE = 'application/sql';
+// Saved queries live in .sequelae/queries/<name>.sql
+const QUERIES_DIR = 'queries';
+
+/**
+ * Database name used in resource URIs, from the connection string's path
+ */
+export function databaseName(connectionString: string): string {
+  try {
+    return decodeURIComponent(new URL(connectionString).pathname.slice(1)) || 'postgres';
+  } catch (_error) {
+    return 'postgres';
+  }
+}
+
+/**
+ * The comment lines a saved query starts with, joined, as its description
+ */
+function leadingComment(sql: string): string | undefined {
+  const lines: string[] = [];
+  for (const line of sql.split('\n')) {
+    const match = /^\s*--\s?(.*)$/.exec(line);
+    if (!match) break;
+    lines.push(match[1].trim());
+  }
+  return lines.join(' ').trim() || undefined;
+}
+
+export class McpResourceHandler {
+  private executor: SqlExecutor | null = null;
+
+  constructor(private connectionString?: string) {
+    // Connection string can be provided later via environment
+  }
+
+  private getExecutor(): SqlExecutor {
+    const connString = this.connectionString || process.env.DATABASE_URL;
+    if (!connString) {
+      throw new Error('DATABASE_URL environment variable is not set');
+    }
+    if (!this.executor) {
+      this.executor = new SqlExecutor(connString);
+    }
+    return this.executor;
+  }
+
+  private baseUri(): string {
+    const connString = this.connectionString || process.env.DATABASE_URL || '';
+    return `postgres://${encodeURIComponent(databaseName(connString))}`;
+  }
+
+  // Dots are escaped too, so the first literal dot always separates schema from table
+  private tableUri(schema: string, table: string): string {
+    const encode = (name: string): string => encodeURIComponent(name).replace(/\./g, '%2E');
+    return `${this.baseUri()}/table/${encode(schema)}.${encode(table)}`;
+  }
+
+  /**
+   * The schema, every table in user schemas and every saved query
+   * Listing only needs names and comments, so it skips the column and constraint queries
+   */
+  async listResources(): Promise<McpResource[]> {
+    const tables = await this.getExecutor().getTableSummary(true);
+    return [
+      {
+        uri: `${this.baseUri()}/schema`,
+        name: 'schema',
+        description: `DDL of all ${tables.length} tables, with comments and indexes`,
+        mimeType: SQL_MIME_TYPE,
+      },
+      ...tables.map(table => ({
+        uri: this.tableUri(table.schema, table.name),
+        name: `${table.schema}.${table.name}`,
+        description: table.comment || `DDL of table ${table.schema}.${table.name}`,
+        mimeType: SQL_MIME_TYPE,
+      })),
+      ...listProjectFiles(QUERIES_DIR, '.sql').map(query => ({
+        uri: `${this.baseUri()}/query/${encodeURIComponent(query.name)}`,
+        name: `${query.name}.sql`,
+        description: leadingComment(query.content) || `Saved query ${query.name}`,
+        mimeType: SQL_MIME_TYPE,
+      })),
+    ];
+  }
+
+  listResourceTemplates(): McpResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${this.baseUri()}/table/{schema}.{table}`,
+        name: 'table',
+        description: 'DDL of one table, with column comments and indexes',
+        mimeType: SQL_MIME_TYPE,
+      },
+    ];
+  }
+
+  /**
+   * Contents of a resource; ResourceNotFoundError for URIs that name nothing here
+   */
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const base = `${this.baseUri()}/`;
+    const path = uri.startsWith(base) ? uri.slice(base.length) : '';
+    const contents = (text: string): McpResourceContents[] => [
+      { uri, mimeType: SQL_MIME_TYPE, text },
+    ];
+
+    if (path === 'schema') {
+      const schema = await this.getExecutor().getSchema(undefined, true, { includeIndexes: true });
+      if (schema.tables.length === 0) {
+        return contents('-- No tables\n');
+      }
+      return contents(
+        `${schema.tables.map(table => createTableDdl(table, schema.indexes)).join('\n\n')}\n`
+      );
+    }
+
+    const table = /^table\/([^.]+)\.(.+)$/.exec(path);
+    if (table) {
+      const [schemaName, tableName] = this.decode(uri, table[1], table[2]);
+      const schema = await this.getExecutor().getSchema([tableName], true, {
+        includeIndexes: true,
+      });
+      const found = schema.tables.find(
+        info => info.schema === schemaName && info.name === tableName
+      );
+      if (!found) {
+        throw new ResourceNotFoundError(uri);
+      }
+      return contents(`${createTableDdl(found, schema.indexes)}\n`);
+    }
+
+    const query = /^query\/(.+)$/.exec(path);
+    if (query) {
+      const [name] = this.decode(uri, query[1]);
+      const file = readProjectFile(QUERIES_DIR, name, '.sql');
+      if (file) {
+        return contents(file.content);
+      }
+    }
+
+    throw new ResourceNotFoundError(uri);
+  }
+
+  private decode(uri: string, ...parts: string[]): string[] {
+    try {
+      return parts.map(part => decodeURIComponent(part));
+    } catch (_error) {
+      throw new ResourceNotFoundError(uri);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.executor) {
+      await this.executor.close();
+      this.executor = null;
+    }
+  }
+}
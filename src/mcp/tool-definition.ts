@@ -7,8 +7,9 @@ export interface McpPropertySchema {
   type: 'string' | 'boolean' | 'number' | 'array' | 'object';
   description?: string;
   default?: unknown;
+  enum?: string[];
   items?: {
-    type: string;
+    type: string | string[];
   };
 }
 
@@ -22,6 +23,25 @@ export interface McpToolDefinition {
   };
 }
 
+// Row, byte and cell limits shared by every tool that returns rows
+const RESULT_BUDGET_PROPERTIES: Record<string, McpPropertySchema> = {
+  maxRows: {
+    type: 'number',
+    description:
+      'Maximum rows to return (default SEQUELAE_MAX_ROWS or 500, 0 for no limit); the response is flagged truncated when rows are dropped',
+  },
+  maxBytes: {
+    type: 'number',
+    description:
+      'Maximum size of the returned rows in bytes of JSON (default SEQUELAE_MAX_BYTES or 100000, 0 for no limit)',
+  },
+  maxCellLength: {
+    type: 'number',
+    description:
+      'Long text, json and bytea values are cut to this many characters (default SEQUELAE_MAX_CELL_LENGTH or 1000, 0 for no limit)',
+  },
+};
+
 export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
   {
     name: 'sql_exec',
@@ -33,6 +53,14 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           type: 'string',
           description: 'The SQL query to execute',
         },
+        params: {
+          type: 'array',
+          items: {
+            type: ['string', 'number', 'boolean', 'null', 'array'],
+          },
+          description:
+            'Values for $1..$n placeholders in the query, sent as bind parameters (single statement only)',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
@@ -48,6 +76,12 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Query timeout in milliseconds',
           default: 120000,
         },
+        pageSize: {
+          type: 'number',
+          description:
+            'Stream a SELECT through a server-side cursor and return at most this many rows; page through the rest with sql_fetch_more',
+        },
+        ...RESULT_BUDGET_PROPERTIES,
       },
       required: ['query'],
     },
@@ -78,6 +112,7 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Query timeout in milliseconds',
           default: 120000,
         },
+        ...RESULT_BUDGET_PROPERTIES,
       },
       required: ['filepath'],
     },
@@ -101,12 +136,364 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Include all schemas, not just public',
           default: false,
         },
+        includeViews: {
+          type: 'boolean',
+          description: 'Include views with their column list and definition',
+          default: false,
+        },
+        includeMaterializedViews: {
+          type: 'boolean',
+          description: 'Include materialized views with their column list and definition',
+          default: false,
+        },
+        includeTypes: {
+          type: 'boolean',
+          description: 'Include enum (with labels), composite, domain and range types',
+          default: false,
+        },
+        includeFunctions: {
+          type: 'boolean',
+          description:
+            'Include function and procedure signatures (arguments, return type, language, volatility)',
+          default: false,
+        },
+        includeIndexes: {
+          type: 'boolean',
+          description: 'Include index definitions',
+          default: false,
+        },
+        includeTriggers: {
+          type: 'boolean',
+          description: 'Include trigger definitions',
+          default: false,
+        },
+        includeSequences: {
+          type: 'boolean',
+          description: 'Include sequences with their ranges and owning column',
+          default: false,
+        },
+        includePolicies: {
+          type: 'boolean',
+          description:
+            'Include row level security status (enabled, forced) and policies (command, roles, USING and WITH CHECK) per table',
+          default: false,
+        },
+        includeGrants: {
+          type: 'boolean',
+          description: 'Include table and column privileges granted to each role',
+          default: false,
+        },
+        maxBytes: {
+          type: 'number',
+          description:
+            'Maximum response size in bytes of JSON (default SEQUELAE_MAX_BYTES or 100000, 0 for no limit); tables beyond it are listed as omitted',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'text', 'markdown', 'compact'],
+          description:
+            'Output format: json, text, markdown, or compact (one line per table, fewest tokens). Overrides json',
+        },
+        summary: {
+          type: 'boolean',
+          description:
+            'Only list table names with estimated row counts and column counts; use it first on large databases, then request the tables of interest',
+          default: false,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+    },
+  },
+  {
+    name: 'sql_schema_diff',
+    description:
+      'Compare two schemas: added, removed and changed tables, columns (type, nullability, default), constraints and indexes, optionally with the DDL to migrate between them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description:
+            'The schema to compare from: "database" for the connected database, or the name of a snapshot in .sequelae/snapshots/ (without .json)',
+        },
+        to: {
+          type: 'string',
+          description: 'The schema to compare to, in the same forms as from (default: "database")',
+        },
+        allSchemas: {
+          type: 'boolean',
+          description: 'Include all schemas, not just public',
+          default: false,
+        },
+        ddl: {
+          type: 'boolean',
+          description: 'Also return the DDL that turns from into to',
+          default: false,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['from'],
+    },
+  },
+  {
+    name: 'sql_schema_search',
+    description:
+      'Find tables and columns by concept when the exact name is unknown: fuzzy-matches table and column names, types and comments across all schemas and returns ranked hits with their table',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: {
+          type: 'string',
+          description: 'What to look for, e.g. "invoice due date" or "email"',
+        },
+        schemas: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Only search these schemas (default: all)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of hits (default 20)',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
           default: true,
         },
       },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'sql_erd',
+    description:
+      'Draw an entity-relationship diagram of tables, key columns and foreign keys as Mermaid erDiagram, Graphviz DOT or PlantUML',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: {
+          type: 'string',
+          enum: ['mermaid', 'dot', 'plantuml'],
+          description: 'Diagram language',
+          default: 'mermaid',
+        },
+        schemas: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Only tables in these schemas (default: public)',
+        },
+        tables: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Tables to draw, by name or schema.name (default: all tables)',
+        },
+        seed: {
+          type: 'string',
+          description:
+            'Draw this table and the tables within depth foreign key hops of it, in either direction',
+        },
+        depth: {
+          type: 'number',
+          description: 'Foreign key hops from the seed table',
+          default: 1,
+        },
+        allColumns: {
+          type: 'boolean',
+          description: 'Show every column, not only primary, foreign and unique key columns',
+          default: false,
+        },
+        allSchemas: {
+          type: 'boolean',
+          description: 'Include all schemas, not just public',
+          default: false,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Wrap the diagram in JSON with table and relationship counts',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'sql_explain',
+    description:
+      'Show the execution plan of a query with a summary: total cost, estimated vs actual rows, sequential scans on large tables, sorts spilling to disk and the slowest nodes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The statement to explain, without the EXPLAIN keyword',
+        },
+        params: {
+          type: 'array',
+          items: {
+            type: ['string', 'number', 'boolean', 'null', 'array'],
+          },
+          description: 'Values for $1..$n placeholders in the query',
+        },
+        analyze: {
+          type: 'boolean',
+          description:
+            'Execute the statement to get actual rows and timings (inside a transaction that is always rolled back)',
+          default: false,
+        },
+        buffers: {
+          type: 'boolean',
+          description: 'Include shared/temp buffer usage',
+          default: false,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'sql_profile',
+    description:
+      "Profile a table's columns without returning rows: null fraction, distinct count, most common values, histogram bounds and min/max/avg for numbers and dates, from pg_stats or exactly over a TABLESAMPLE",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: {
+          type: 'string',
+          description: 'Table name, optionally schema-qualified (schema.table)',
+        },
+        sample: {
+          type: 'number',
+          description:
+            'Compute exact figures over this percentage of the table (0-100] instead of reading pg_stats',
+        },
+        method: {
+          type: 'string',
+          enum: ['system', 'bernoulli'],
+          description:
+            'Sampling method: system samples whole pages (fast), bernoulli samples individual rows (reads the whole table)',
+          default: 'system',
+        },
+        top: {
+          type: 'number',
+          description: 'Number of most common values per column',
+          default: 10,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['table'],
+    },
+  },
+  {
+    name: 'sql_sample',
+    description:
+      'Return a few representative rows from anywhere in a table (not just the first ones) to see what the data looks like; columns matching sensitive patterns (email, phone, password, token, ssn) are masked by default',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: {
+          type: 'string',
+          description: 'Table name, optionally schema-qualified (as listed by sql_schema)',
+        },
+        rows: {
+          type: 'number',
+          description: 'Number of rows, at most 100',
+          default: 10,
+        },
+        method: {
+          type: 'string',
+          enum: ['random', 'system', 'bernoulli'],
+          description:
+            'random: ORDER BY random() over the whole table; system or bernoulli: TABLESAMPLE, which reads only part of the table. Default: random up to 100000 estimated rows, bernoulli beyond',
+        },
+        sensitivePatterns: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description:
+            'More column name fragments to mask, on top of SEQUELAE_SENSITIVE_COLUMNS or the defaults (email, phone, password, token, ssn)',
+        },
+        maxCellLength: {
+          type: 'number',
+          description:
+            'Characters kept from long text/json values (default SEQUELAE_MAX_CELL_LENGTH or 1000, 0 for no limit)',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['table'],
+    },
+  },
+  {
+    name: 'sql_permissions',
+    description:
+      'Check whether a role can perform a command on a table: its privileges (including through role membership and column grants) and the row level security policies that limit which rows it sees or changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        role: {
+          type: 'string',
+          description: 'Role name, e.g. authenticated or anon',
+        },
+        privilege: {
+          type: 'string',
+          enum: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER'],
+          description: 'Command to check',
+        },
+        table: {
+          type: 'string',
+          description: 'Table or view name, optionally schema-qualified',
+        },
+        column: {
+          type: 'string',
+          description: 'Check a column privilege instead (SELECT, INSERT, UPDATE or REFERENCES)',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['role', 'privilege', 'table'],
     },
   },
   {
@@ -182,6 +569,115 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
       },
     },
   },
+  {
+    name: 'sql_session_begin',
+    description:
+      'Begin a transaction that stays open across tool calls. Returns a sessionId for sql_session_exec, sql_session_commit and sql_session_rollback. Idle sessions are rolled back automatically.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        readOnly: {
+          type: 'boolean',
+          description: 'Start a READ ONLY transaction',
+          default: false,
+        },
+        isolationLevel: {
+          type: 'string',
+          description: 'Isolation level: read committed, repeatable read, or serializable',
+          default: 'read committed',
+        },
+      },
+    },
+  },
+  {
+    name: 'sql_session_exec',
+    description: 'Execute a SQL query inside an open session transaction',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session id returned by sql_session_begin',
+        },
+        query: {
+          type: 'string',
+          description: 'The SQL query to execute',
+        },
+        params: {
+          type: 'array',
+          items: {
+            type: ['string', 'number', 'boolean', 'null', 'array'],
+          },
+          description:
+            'Values for $1..$n placeholders in the query, sent as bind parameters (single statement only)',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+        },
+        ...RESULT_BUDGET_PROPERTIES,
+      },
+      required: ['sessionId', 'query'],
+    },
+  },
+  {
+    name: 'sql_session_commit',
+    description: 'Commit an open session transaction and close the session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session id returned by sql_session_begin',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'sql_session_rollback',
+    description: 'Roll back an open session transaction and close the session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session id returned by sql_session_begin',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'sql_fetch_more',
+    description: 'Fetch the next page of rows from a cursor returned by sql_exec with pageSize',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cursor: {
+          type: 'string',
+          description: 'Cursor returned by sql_exec or a previous sql_fetch_more call',
+        },
+        close: {
+          type: 'boolean',
+          description: 'Close the cursor and release its connection instead of fetching',
+          default: false,
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        ...RESULT_BUDGET_PROPERTIES,
+      },
+      required: ['cursor'],
+    },
+  },
 ];
 
 /**
@@ -226,6 +722,28 @@ export function validateToolInput(
         error: `Invalid type for ${key}: expected ${expectedType}, got ${actualType}`,
       };
     }
+
+    if (propSchema.enum && !propSchema.enum.includes(value as string)) {
+      return {
+        valid: false,
+        error: `Invalid value for ${key}: expected one of ${propSchema.enum.join(', ')}`,
+      };
+    }
+
+    // Validate array elements when the schema declares an item type
+    if (Array.isArray(value) && propSchema.items) {
+      const itemTypes = ([] as string[]).concat(propSchema.items.type);
+      for (let i = 0; i < value.length; i++) {
+        const item = value[i];
+        const itemType = item === null ? 'null' : Array.isArray(item) ? 'array' : typeof item;
+        if (!itemTypes.includes(itemType)) {
+          return {
+            valid: false,
+            error: `Invalid type for ${key}[${i}]: expected ${itemTypes.join(' | ')}, got ${itemType}`,
+          };
+        }
+      }
+    }
   }
 
   return { valid: true };
@@ -1,18 +1,67 @@
-import { SqlExecutor } from '../core/sql-executor';
+import {
+  SchemaOptions,
+  SchemaResult,
+  SqlExecutor,
+  SampleRowsOptions,
+  StatementExecutionError,
+  TablePrivilege,
+  TableSummary,
+} from '../core/sql-executor';
+import { CursorPage } from '../core/cursor-manager';
 import { validateToolInput } from './tool-definition';
+import { ReadOnlyViolationError } from '../utils/sql-classifier';
+import {
+  applyByteBudget,
+  applyResultBudget,
+  applySharedResultBudget,
+  BudgetedRows,
+  describeTruncation,
+  estimateTokens,
+  getResultBudget,
+  ResultBudget,
+} from '../utils/result-budget';
+import { formatPlanSummaryText } from '../utils/plan-summary';
+import { formatProfileText, SampleMethod } from '../utils/table-profile';
+import { getSensitivePatterns, redactRows } from '../utils/redaction';
+import { buildErdGraph, ErdFormat, ErdOptions, renderErd } from '../utils/erd';
+import {
+  formatPermissionText,
+  formatTableSummaryText,
+  renderSchema,
+  SchemaFormat,
+} from '../utils/schema-renderer';
+import {
+  catalogFromSchema,
+  formatSearchResultsText,
+  SchemaSearchOptions,
+  searchSchema,
+} from '../utils/schema-search';
+import { diffSchemas, formatSchemaDiffText, generateMigrationDdl } from '../utils/schema-diff';
+import {
+  describeSchemaSource,
+  loadSchemaSource,
+  resolveAgentSchemaSource,
+} from '../core/schema-source';
+import {
+  isConnectionError,
+  querySchemaSnapshot,
+  readSchemaSnapshot,
+  SchemaSnapshot,
+} from '../core/schema-snapshot';
 import * as packageJson from '../../package.json';
 
 export interface McpToolRequest {
   tool: string;
   arguments: Record<string, unknown>;
+  owner?: string; // MCP HTTP session id; sessions and cursors stay with the client that opened them
 }
 
 export interface McpToolResponse {
   content: Array<{
-    type: 'text' | 'error';
-    text?: string;
-    error?: string;
+    type: 'text';
+    text: string;
   }>;
+  isError?: boolean; // The tool ran but failed; the text says why
 }
 
 export class McpToolHandler {
@@ -33,6 +82,15 @@ export class McpToolHandler {
       // Ensure we have a connection
       const connString = this.connectionString || process.env.DATABASE_URL;
       if (!connString) {
+        // Schema questions can still be answered from a snapshot
+        if (process.env.SEQUELAE_SCHEMA_SNAPSHOT) {
+          if (request.tool === 'sql_schema') {
+            return this.handleSqlSchema(request.arguments);
+          }
+          if (request.tool === 'sql_schema_search') {
+            return this.handleSqlSchemaSearch(request.arguments);
+          }
+        }
         return this.errorResponse('DATABASE_URL environment variable is not set');
       }
 
@@ -44,15 +102,39 @@ export class McpToolHandler {
       // Route to appropriate handler
       switch (request.tool) {
         case 'sql_exec':
-          return this.handleSqlExec(request.arguments);
+          return this.handleSqlExec(request.arguments, request.owner);
         case 'sql_file':
           return this.handleSqlFile(request.arguments);
         case 'sql_schema':
           return this.handleSqlSchema(request.arguments);
+        case 'sql_schema_diff':
+          return this.handleSqlSchemaDiff(request.arguments);
+        case 'sql_schema_search':
+          return await this.handleSqlSchemaSearch(request.arguments);
+        case 'sql_erd':
+          return this.handleSqlErd(request.arguments);
+        case 'sql_explain':
+          return this.handleSqlExplain(request.arguments);
+        case 'sql_profile':
+          return await this.handleSqlProfile(request.arguments);
+        case 'sql_sample':
+          return await this.handleSqlSample(request.arguments);
+        case 'sql_permissions':
+          return await this.handleSqlPermissions(request.arguments);
         case 'sql_backup':
           return this.handleSqlBackup(request.arguments);
         case 'sql_health':
           return this.handleSqlHealth(request.arguments);
+        case 'sql_session_begin':
+          return this.handleSessionBegin(request.arguments, request.owner);
+        case 'sql_session_exec':
+          return this.handleSessionExec(request.arguments, request.owner);
+        case 'sql_session_commit':
+          return this.handleSessionEnd(request.arguments, 'commit', request.owner);
+        case 'sql_session_rollback':
+          return this.handleSessionEnd(request.arguments, 'rollback', request.owner);
+        case 'sql_fetch_more':
+          return this.handleFetchMore(request.arguments, request.owner);
         default:
           return this.errorResponse(`Unknown tool: ${request.tool}`);
       }
@@ -61,11 +143,16 @@ export class McpToolHandler {
     }
   }
 
-  private async handleSqlExec(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlExec(
+    args: Record<string, unknown>,
+    owner?: string
+  ): Promise<McpToolResponse> {
     const query = args.query as string;
+    const params = args.params as unknown[] | undefined;
     const jsonMode = args.json !== false; // Default true
     const useTransaction = args.transaction !== false; // Default true
     const timeout = args.timeout as number | undefined;
+    const pageSize = args.pageSize as number | undefined;
 
     // Set timeout environment variable if provided
     if (timeout) {
@@ -76,7 +163,28 @@ export class McpToolHandler {
       if (!this.executor) {
         throw new Error('SqlExecutor not initialized');
       }
-      const result = await this.executor.executeQuery(query, useTransaction, timeout);
+
+      // Paged results go through a server-side cursor instead of buffering every row
+      if (pageSize !== undefined) {
+        if (pageSize <= 0) {
+          throw new Error('pageSize must be a positive number');
+        }
+        const page = await this.executor.cursors.open(query, {
+          params,
+          pageSize,
+          timeoutMs: timeout,
+          owner,
+        });
+        return this.pageResponse(page, jsonMode, this.resultBudget(args), 'SELECT');
+      }
+
+      const result = params
+        ? await this.executor.executeQuery(query, params, useTransaction, timeout)
+        : await this.executor.executeQuery(query, useTransaction, timeout);
+
+      // Keep the response within the row, byte and cell size budget
+      const budget = this.resultBudget(args);
+      const budgeted = applyResultBudget(result.rows || [], budget);
 
       if (jsonMode) {
         return {
@@ -88,8 +196,9 @@ export class McpToolHandler {
                   success: true,
                   command: result.command,
                   rowCount: result.rowCount,
-                  rows: result.rows,
+                  rows: budgeted.rows,
                   duration: result.duration,
+                  ...this.truncationFields(budgeted, describeTruncation(budgeted, budget)),
                 },
                 null,
                 2
@@ -103,15 +212,9 @@ export class McpToolHandler {
         text += `Rows: ${result.rowCount}\n`;
         text += `Duration: ${result.duration}ms\n\n`;
 
-        if (result.rows && result.rows.length > 0) {
-          // Simple table formatting
-          const headers = Object.keys(result.rows[0]);
-          text += headers.join(' | ') + '\n';
-          text += headers.map(() => '---').join(' | ') + '\n';
-
-          for (const row of result.rows) {
-            text += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
-          }
+        text += this.formatRowsText(budgeted.rows);
+        if (budgeted.truncated) {
+          text += `\n⚠️  ${describeTruncation(budgeted, budget)}\n`;
         }
 
         return {
@@ -135,12 +238,14 @@ export class McpToolHandler {
                   success: false,
                   error: err.message,
                   position: err.position,
+                  ...this.sqlErrorDetails(err),
                 },
                 null,
                 2
               ),
             },
           ],
+          isError: true,
         };
       } else {
         return this.errorResponse(err.message);
@@ -165,6 +270,28 @@ export class McpToolHandler {
       }
       const result = await this.executor.executeFile(filepath, useTransaction, timeout);
 
+      // One budget covers the rows of all statements; each statement carries its own rows
+      const budget = this.resultBudget(args);
+      const statements = result.statements || [];
+      const budgetedSets = applySharedResultBudget(
+        statements.length > 0 ? statements.map(statement => statement.rows) : [result.rows || []],
+        budget
+      );
+      const reason = budgetedSets.find(set => set.reason)?.reason;
+      const budgeted: BudgetedRows = {
+        rows: budgetedSets[budgetedSets.length - 1].rows,
+        truncated: budgetedSets.some(set => set.truncated),
+        totalRows: budgetedSets.reduce((sum, set) => sum + set.totalRows, 0),
+        returnedRows: budgetedSets.reduce((sum, set) => sum + set.returnedRows, 0),
+        truncatedCells: budgetedSets.reduce((sum, set) => sum + set.truncatedCells, 0),
+        ...(reason && { reason }),
+      };
+      const notice = describeTruncation(
+        budgeted,
+        budget,
+        'Add a WHERE clause or LIMIT, or select fewer columns'
+      );
+
       if (jsonMode) {
         return {
           content: [
@@ -175,8 +302,16 @@ export class McpToolHandler {
                   success: true,
                   command: result.command,
                   rowCount: result.rowCount,
-                  rows: result.rows,
                   duration: result.duration,
+                  ...(statements.length > 0
+                    ? {
+                        statements: statements.map((statement, i) => ({
+                          ...statement,
+                          rows: budgetedSets[i].rows,
+                        })),
+                      }
+                    : { rows: budgeted.rows }),
+                  ...this.truncationFields(budgeted, notice),
                 },
                 null,
                 2
@@ -190,15 +325,17 @@ export class McpToolHandler {
         text += `Rows: ${result.rowCount}\n`;
         text += `Duration: ${result.duration}ms\n\n`;
 
-        if (result.rows && result.rows.length > 0) {
-          // Simple table formatting
-          const headers = Object.keys(result.rows[0]);
-          text += headers.join(' | ') + '\n';
-          text += headers.map(() => '---').join(' | ') + '\n';
-
-          for (const row of result.rows) {
-            text += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
+        if (result.statements && result.statements.length > 0) {
+          text += 'Statements:\n';
+          for (const statement of result.statements) {
+            text += `  ${statement.index + 1}. ${statement.command} (lines ${statement.startLine}-${statement.endLine}) - ${statement.rowCount} rows - ${statement.duration}ms\n`;
           }
+          text += '\n';
+        }
+
+        text += this.formatRowsText(budgeted.rows);
+        if (budgeted.truncated) {
+          text += `\n⚠️  ${notice}\n`;
         }
 
         return {
@@ -211,6 +348,28 @@ export class McpToolHandler {
         };
       }
     } catch (error) {
+      if (
+        jsonMode &&
+        (error instanceof ReadOnlyViolationError || error instanceof StatementExecutionError)
+      ) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: error.message,
+                  ...this.sqlErrorDetails(error),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
       return this.errorResponse(error instanceof Error ? error.message : String(error));
     }
   }
@@ -218,71 +377,531 @@ export class McpToolHandler {
   private async handleSqlSchema(args: Record<string, unknown>): Promise<McpToolResponse> {
     const tables = (args.tables as string[]) || [];
     const allSchemas = (args.allSchemas as boolean) || false;
+    // An explicit format wins over the older json flag
+    const format =
+      (args.format as SchemaFormat | undefined) || (args.json !== false ? 'json' : 'text');
+
+    if (args.summary === true) {
+      return this.handleSqlSchemaSummary(allSchemas, format);
+    }
+
+    try {
+      const { schema, snapshot } = await this.loadSchema(
+        tables.length > 0 ? tables : undefined,
+        allSchemas,
+        {
+          includeViews: args.includeViews === true,
+          includeMaterializedViews: args.includeMaterializedViews === true,
+          includeTypes: args.includeTypes === true,
+          includeFunctions: args.includeFunctions === true,
+          includeIndexes: args.includeIndexes === true,
+          includeTriggers: args.includeTriggers === true,
+          includeSequences: args.includeSequences === true,
+          includePolicies: args.includePolicies === true,
+          includeGrants: args.includeGrants === true,
+        }
+      );
+
+      // Drop whole tables once the response would exceed the byte budget
+      const budget = getResultBudget({ maxBytes: args.maxBytes as number | undefined });
+      const budgeted = applyByteBudget(schema.tables, budget.maxBytes);
+      const omittedTables = budgeted.omitted.map(table => `${table.schema}.${table.name}`);
+      const result = { ...schema, tables: budgeted.items, ...(snapshot && { snapshot }) };
+
+      if (format === 'json') {
+        const payload = budgeted.truncated
+          ? {
+              ...result,
+              truncated: true,
+              totalTables: schema.tables.length,
+              omittedTables,
+              notice: `Schema truncated to ${budgeted.items.length} of ${schema.tables.length} tables (limit: ${budget.maxBytes} bytes). Request the omitted tables by name to see them.`,
+            }
+          : result;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { ...payload, estimatedTokens: estimateTokens(JSON.stringify(payload, null, 2)) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } else {
+        let text = renderSchema(result, format);
+        if (snapshot) {
+          text += `\nℹ️  Database not reachable; served from schema snapshot ${snapshot}\n`;
+        }
+        if (budgeted.truncated) {
+          text += `\n⚠️  Schema truncated to ${budgeted.items.length} of ${schema.tables.length} tables (limit: ${budget.maxBytes} bytes). Omitted: ${omittedTables.join(', ')}\n`;
+        }
+        text += `\n~${estimateTokens(text)} tokens\n`;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      }
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Table names with row estimates and column counts only, to pick tables before asking for detail
+   */
+  private async handleSqlSchemaSummary(
+    allSchemas: boolean,
+    format: SchemaFormat
+  ): Promise<McpToolResponse> {
+    try {
+      const { value: tables, snapshot } = await this.withSnapshotFallback(
+        executor => executor.getTableSummary(allSchemas),
+        (schemaSnapshot): TableSummary[] =>
+          querySchemaSnapshot(schemaSnapshot, undefined, allSchemas).tables.map(table => ({
+            schema: table.schema,
+            name: table.name,
+            rowEstimate: null, // Snapshots hold no statistics
+            columnCount: table.columns.length,
+            comment: table.comment ?? null,
+          }))
+      );
+
+      if (format === 'json') {
+        const payload = {
+          success: true,
+          summary: true,
+          tables,
+          totalTables: tables.length,
+          ...(snapshot && { snapshot }),
+        };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { ...payload, estimatedTokens: estimateTokens(JSON.stringify(payload, null, 2)) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      let text = formatTableSummaryText(tables);
+      if (snapshot) {
+        text += `\nℹ️  Database not reachable; served from schema snapshot ${snapshot}\n`;
+      }
+      text += `\n~${estimateTokens(text)} tokens\n`;
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Schema from the database, or from SEQUELAE_SCHEMA_SNAPSHOT when the database cannot be reached
+   */
+  private async loadSchema(
+    tables: string[] | undefined,
+    allSchemas: boolean,
+    options: SchemaOptions
+  ): Promise<{ schema: SchemaResult; snapshot?: string }> {
+    const { value, snapshot } = await this.withSnapshotFallback(
+      executor => executor.getSchema(tables, allSchemas, options),
+      schemaSnapshot => querySchemaSnapshot(schemaSnapshot, tables, allSchemas, options)
+    );
+    return { schema: value, ...(snapshot && { snapshot }) };
+  }
+
+  /**
+   * Run a query against the database; if it cannot be reached and SEQUELAE_SCHEMA_SNAPSHOT
+   * is set, answer from the snapshot instead and report its path
+   */
+  private async withSnapshotFallback<T>(
+    live: (executor: SqlExecutor) => Promise<T>,
+    fromSnapshot: (snapshot: SchemaSnapshot) => T
+  ): Promise<{ value: T; snapshot?: string }> {
+    const snapshotPath = process.env.SEQUELAE_SCHEMA_SNAPSHOT;
+    if (this.executor) {
+      try {
+        return { value: await live(this.executor) };
+      } catch (error) {
+        if (!snapshotPath || !isConnectionError(error)) {
+          throw error;
+        }
+      }
+    } else if (!snapshotPath) {
+      throw new Error('SqlExecutor not initialized');
+    }
+
+    return {
+      value: fromSnapshot(readSchemaSnapshot(snapshotPath as string)),
+      snapshot: snapshotPath,
+    };
+  }
+
+  private async handleSqlSchemaDiff(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const from = args.from as string;
+    const to = (args.to as string | undefined) ?? 'database';
+    const allSchemas = args.allSchemas === true;
+    const includeDdl = args.ddl === true;
     const jsonMode = args.json !== false; // Default true
 
     try {
       if (!this.executor) {
         throw new Error('SqlExecutor not initialized');
       }
-      const result = await this.executor.getSchema(
-        tables.length > 0 ? tables : undefined,
-        allSchemas
+      const executor = this.executor;
+      const options = { includeIndexes: true };
+      const load = (source: string): Promise<SchemaResult> =>
+        source === 'database'
+          ? executor.getSchema(undefined, allSchemas, options)
+          : loadSchemaSource(resolveAgentSchemaSource(source), allSchemas, options);
+      const label = (source: string): string =>
+        source === 'database' ? 'connected database' : describeSchemaSource(source);
+
+      const fromSchema = await load(from);
+      const toSchema = await load(to);
+
+      const diff = diffSchemas(fromSchema, toSchema);
+      const ddl = includeDdl ? generateMigrationDdl(diff) : undefined;
+      const fromLabel = label(from);
+      const toLabel = label(to);
+
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  from: fromLabel,
+                  to: toLabel,
+                  ...diff,
+                  ...(ddl && { ddl: ddl.statements, ddlWarnings: ddl.warnings }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      let text = `SCHEMA DIFF: ${fromLabel} → ${toLabel}\n\n`;
+      text += formatSchemaDiffText(diff);
+      if (ddl && ddl.statements.length > 0) {
+        text += `\nDDL:\n${ddl.statements.join('\n')}\n`;
+        for (const warning of ddl.warnings) {
+          text += `⚠️  ${warning}\n`;
+        }
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSqlSchemaSearch(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const term = args.term as string;
+    const options: SchemaSearchOptions = {
+      schemas: args.schemas as string[] | undefined,
+      limit: args.limit as number | undefined,
+    };
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (options.limit !== undefined && (options.limit < 1 || !Number.isInteger(options.limit))) {
+        throw new Error('limit must be a positive integer');
+      }
+      const { value: catalog, snapshot } = await this.withSnapshotFallback(
+        executor => executor.getSchemaCatalog(),
+        schemaSnapshot =>
+          catalogFromSchema(
+            querySchemaSnapshot(schemaSnapshot, undefined, true, {
+              includeViews: true,
+              includeMaterializedViews: true,
+            })
+          )
       );
+      const hits = searchSchema(catalog, term, options);
 
       if (jsonMode) {
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify(
+                { success: true, term, hits, ...(snapshot && { snapshot }) },
+                null,
+                2
+              ),
             },
           ],
         };
-      } else {
-        // Format as readable text
-        let text = 'DATABASE SCHEMA:\n\n';
-
-        for (const table of result.tables) {
-          text += `📋 ${table.schema}.${table.name}\n`;
-          text += '  Columns:\n';
-
-          for (const col of table.columns) {
-            const nullable = col.is_nullable === 'YES' ? ' (nullable)' : '';
-            const dataType = col.character_maximum_length
-              ? `${col.data_type}(${col.character_maximum_length})`
-              : col.data_type;
-            const defaultVal = col.column_default ? ` DEFAULT ${col.column_default}` : '';
-            text += `    - ${col.column_name}: ${dataType}${nullable}${defaultVal}\n`;
-          }
+      }
 
-          if (table.constraints.length > 0) {
-            text += '  Constraints:\n';
-            const constraintsByType = table.constraints.reduce(
-              (acc, c) => {
-                if (!acc[c.constraint_type]) acc[c.constraint_type] = [];
-                acc[c.constraint_type].push(c.column_name);
-                return acc;
-              },
-              {} as Record<string, string[]>
-            );
+      let text = formatSearchResultsText(term, hits);
+      if (snapshot) {
+        text += `\nℹ️  Database not reachable; served from schema snapshot ${snapshot}\n`;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-            for (const [type, columns] of Object.entries(constraintsByType)) {
-              text += `    - ${type}: ${columns.join(', ')}\n`;
-            }
-          }
-          text += '\n';
-        }
+  private async handleSqlErd(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const format = (args.format as ErdFormat | undefined) || 'mermaid';
+    const schemas = args.schemas as string[] | undefined;
+    const options: ErdOptions = {
+      schemas,
+      tables: args.tables as string[] | undefined,
+      seed: args.seed as string | undefined,
+      depth: args.depth as number | undefined,
+      allColumns: args.allColumns === true,
+    };
+    // Schemas other than public are only introspected with allSchemas
+    const allSchemas =
+      args.allSchemas === true || (schemas || []).some(schema => schema !== 'public');
+    const jsonMode = args.json === true; // Default false: the diagram is meant to be pasted
 
-        if (result.missingTables && result.missingTables.length > 0) {
-          text += '❌ TABLES NOT FOUND:\n';
-          for (const missing of result.missingTables) {
-            text += `  - "${missing.table_name}"`;
-            if (missing.suggestions.length > 0) {
-              text += ` (Did you mean: ${missing.suggestions.join(', ')}?)`;
-            }
-            text += '\n';
-          }
+    try {
+      if (options.depth !== undefined && (options.depth < 0 || !Number.isInteger(options.depth))) {
+        throw new Error('depth must be a non-negative integer');
+      }
+      const { schema } = await this.loadSchema(undefined, allSchemas, {});
+      const graph = buildErdGraph(schema, options);
+      const diagram = renderErd(graph, format, options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonMode
+              ? JSON.stringify(
+                  {
+                    success: true,
+                    format,
+                    tables: graph.tables.length,
+                    relationships: graph.relationships.length,
+                    ...(graph.missingTables.length > 0 && { missingTables: graph.missingTables }),
+                    diagram,
+                  },
+                  null,
+                  2
+                )
+              : diagram,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSqlProfile(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const profile = await this.executor.profileTable(args.table as string, {
+        samplePercent: args.sample as number | undefined,
+        method: args.method as SampleMethod | undefined,
+        top: args.top as number | undefined,
+        timeoutMs: args.timeout as number | undefined,
+      });
+
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, ...profile }, null, 2),
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatProfileText(profile)}\nDuration: ${profile.duration}ms\n`,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSqlSample(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const sample = await this.executor.sampleRows(args.table as string, {
+        rows: args.rows as number | undefined,
+        method: args.method as SampleRowsOptions['method'],
+        timeoutMs: args.timeout as number | undefined,
+      });
+
+      const redacted = redactRows(
+        sample.rows,
+        sample.columns.map(column => column.column_name),
+        getSensitivePatterns(args.sensitivePatterns as string[] | undefined)
+      );
+      // Rows are few already; only long cell values are cut
+      const budget = getResultBudget({
+        maxRows: 0,
+        maxCellLength: args.maxCellLength as number | undefined,
+      });
+      const budgeted = applyResultBudget(redacted.rows, budget);
+      const scale = sample.rowEstimate === null ? 'rows unknown' : `~${sample.rowEstimate} rows`;
+
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  ...sample,
+                  rows: budgeted.rows,
+                  redactedColumns: redacted.redactedColumns,
+                  ...this.truncationFields(budgeted, describeTruncation(budgeted, budget)),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      const how =
+        sample.percent === undefined ? sample.method : `${sample.percent}% ${sample.method}`;
+      let text = `SAMPLE ${sample.schema}.${sample.table} (${sample.rows.length} rows of ${scale}, ${how})\n`;
+      if (redacted.redactedColumns.length > 0) {
+        text += `Redacted: ${redacted.redactedColumns.join(', ')}\n`;
+      }
+      text += `\n${this.formatRowsText(budgeted.rows)}`;
+      if (budgeted.truncated) {
+        text += `\n⚠️  ${describeTruncation(budgeted, budget)}\n`;
+      }
+      text += `\nDuration: ${sample.duration}ms\n`;
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSqlPermissions(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const check = await this.executor.checkPermission(
+        args.role as string,
+        args.table as string,
+        args.privilege as TablePrivilege,
+        args.column as string | undefined
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonMode
+              ? JSON.stringify({ success: true, ...check }, null, 2)
+              : formatPermissionText(check),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSqlExplain(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const result = await this.executor.explain(args.query as string, {
+        analyze: args.analyze === true,
+        buffers: args.buffers === true,
+        params: args.params as unknown[] | undefined,
+        timeoutMs: args.timeout as number | undefined,
+      });
+
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  analyzed: result.analyzed,
+                  rolledBack: true,
+                  summary: result.summary,
+                  plan: result.plan,
+                  duration: result.duration,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } else {
+        let text = 'QUERY PLAN SUMMARY:\n\n';
+        text += formatPlanSummaryText(result.summary);
+        if (result.analyzed) {
+          text += '\n(The statement was executed and rolled back)\n';
         }
+        text += `\nDuration: ${result.duration}ms\n`;
 
         return {
           content: [
@@ -294,7 +913,29 @@ export class McpToolHandler {
         };
       }
     } catch (error) {
-      return this.errorResponse(error instanceof Error ? error.message : String(error));
+      const err = error as Error & { position?: number };
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: err.message,
+                  position: err.position,
+                  ...this.sqlErrorDetails(err),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      } else {
+        return this.errorResponse(err.message);
+      }
     }
   }
 
@@ -368,6 +1009,7 @@ export class McpToolHandler {
       const healthInfo: any = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
+        readOnly: this.executor.isReadOnly === true,
       };
 
       // Test database connection
@@ -413,6 +1055,14 @@ export class McpToolHandler {
         }
       }
 
+      // Report open transactional sessions
+      healthInfo.sessions = {
+        open: this.executor.sessions?.count() ?? 0,
+      };
+      healthInfo.cursors = {
+        open: this.executor.cursors?.count() ?? 0,
+      };
+
       // Add tool information
       healthInfo.tool = {
         name: 'sequelae-mcp',
@@ -433,7 +1083,8 @@ export class McpToolHandler {
         let text = `Health Check Report\n`;
         text += `==================\n\n`;
         text += `Status: ${healthInfo.status.toUpperCase()}\n`;
-        text += `Timestamp: ${healthInfo.timestamp}\n\n`;
+        text += `Timestamp: ${healthInfo.timestamp}\n`;
+        text += `Read-only: ${healthInfo.readOnly}\n\n`;
 
         text += `Connection Test:\n`;
         text += `  Success: ${healthInfo.connectionTest.success}\n`;
@@ -465,6 +1116,12 @@ export class McpToolHandler {
           }
         }
 
+        text += `\nSessions:\n`;
+        text += `  Open: ${healthInfo.sessions.open}\n`;
+
+        text += `\nCursors:\n`;
+        text += `  Open: ${healthInfo.cursors.open}\n`;
+
         text += `\nTool:\n`;
         text += `  Name: ${healthInfo.tool.name}\n`;
         text += `  Version: ${healthInfo.tool.version}\n`;
@@ -483,17 +1140,336 @@ export class McpToolHandler {
     }
   }
 
+  private async handleSessionBegin(
+    args: Record<string, unknown>,
+    owner?: string
+  ): Promise<McpToolResponse> {
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const session = await this.executor.sessions.begin({
+        readOnly: args.readOnly as boolean | undefined,
+        isolationLevel: args.isolationLevel as string | undefined,
+        owner,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, ...session }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleSessionExec(
+    args: Record<string, unknown>,
+    owner?: string
+  ): Promise<McpToolResponse> {
+    const sessionId = args.sessionId as string;
+    const query = args.query as string;
+    const params = args.params as unknown[] | undefined;
+    const jsonMode = args.json !== false; // Default true
+    const timeout = args.timeout as number | undefined;
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const result = await this.executor.sessions.exec(sessionId, query, params, timeout, owner);
+      const budget = this.resultBudget(args);
+      const budgeted = applyResultBudget(result.rows || [], budget);
+      const notice = describeTruncation(
+        budgeted,
+        budget,
+        'Add a WHERE clause or LIMIT, or select fewer columns'
+      );
+
+      if (jsonMode) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  sessionId,
+                  command: result.command,
+                  rowCount: result.rowCount,
+                  rows: budgeted.rows,
+                  duration: result.duration,
+                  ...this.truncationFields(budgeted, notice),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } else {
+        let text = `Session: ${sessionId}\n`;
+        text += `Command: ${result.command}\n`;
+        text += `Rows: ${result.rowCount}\n`;
+        text += `Duration: ${result.duration}ms\n\n`;
+        text += this.formatRowsText(budgeted.rows);
+        if (budgeted.truncated) {
+          text += `\n⚠️  ${notice}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      }
+    } catch (error) {
+      const err = error as Error & { position?: number };
+      if (jsonMode) {
+        // The session stays open after an error; PostgreSQL requires a rollback to continue
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: false,
+                  sessionId,
+                  error: err.message,
+                  position: err.position,
+                  ...this.sqlErrorDetails(err),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      } else {
+        return this.errorResponse(err.message);
+      }
+    }
+  }
+
+  private async handleSessionEnd(
+    args: Record<string, unknown>,
+    action: 'commit' | 'rollback',
+    owner?: string
+  ): Promise<McpToolResponse> {
+    const sessionId = args.sessionId as string;
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+      const result =
+        action === 'commit'
+          ? await this.executor.sessions.commit(sessionId, owner)
+          : await this.executor.sessions.rollback(sessionId, owner);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, ...result }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleFetchMore(
+    args: Record<string, unknown>,
+    owner?: string
+  ): Promise<McpToolResponse> {
+    const cursor = args.cursor as string;
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (!this.executor) {
+        throw new Error('SqlExecutor not initialized');
+      }
+
+      if (args.close === true) {
+        await this.executor.cursors.close(cursor, owner);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, cursor, closed: true }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const page = await this.executor.cursors.fetch(cursor, owner);
+      return this.pageResponse(page, jsonMode, this.resultBudget(args));
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Budget from the call's maxRows, maxBytes and maxCellLength, else the environment
+   */
+  private resultBudget(args: Record<string, unknown>): ResultBudget {
+    return getResultBudget({
+      maxRows: args.maxRows as number | undefined,
+      maxBytes: args.maxBytes as number | undefined,
+      maxCellLength: args.maxCellLength as number | undefined,
+    });
+  }
+
+  /**
+   * Response fields that flag a result cut down to the budget; none when it fit
+   */
+  private truncationFields(budgeted: BudgetedRows, notice: string): Record<string, unknown> {
+    if (!budgeted.truncated) {
+      return {};
+    }
+    return {
+      truncated: true,
+      totalRows: budgeted.totalRows,
+      returnedRows: budgeted.returnedRows,
+      truncatedCells: budgeted.truncatedCells,
+      notice,
+    };
+  }
+
+  /**
+   * Format one page of cursor results
+   * The cursor has already moved past the whole page, so rows the budget drops are not fetched again
+   */
+  private pageResponse(
+    page: CursorPage,
+    jsonMode: boolean,
+    budget: ResultBudget,
+    command?: string
+  ): McpToolResponse {
+    const budgeted = applyResultBudget(page.rows, budget);
+    const notice = describeTruncation(
+      budgeted,
+      budget,
+      'The rows left out of this page are skipped; use a smaller pageSize or select fewer columns'
+    );
+
+    if (jsonMode) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: true,
+                ...(command && { command }),
+                rowCount: page.rowCount,
+                rows: budgeted.rows,
+                duration: page.duration,
+                hasMore: page.hasMore,
+                ...(page.cursor && { cursor: page.cursor }),
+                ...this.truncationFields(budgeted, notice),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    let text = command ? `Command: ${command}\n` : '';
+    text += `Rows: ${page.rowCount}\n`;
+    text += `Duration: ${page.duration}ms\n\n`;
+    text += this.formatRowsText(budgeted.rows);
+    if (budgeted.truncated) {
+      text += `\n⚠️  ${notice}\n`;
+    }
+    if (page.cursor) {
+      text += `\nMore rows available. Call sql_fetch_more with cursor: ${page.cursor}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Format rows as a simple pipe-separated table
+   */
+  private formatRowsText(rows?: Record<string, unknown>[]): string {
+    if (!rows || rows.length === 0) {
+      return '';
+    }
+
+    const headers = Object.keys(rows[0]);
+    let text = headers.join(' | ') + '\n';
+    text += headers.map(() => '---').join(' | ') + '\n';
+
+    for (const row of rows) {
+      text += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
+    }
+    return text;
+  }
+
+  private sqlErrorDetails(error: unknown): Record<string, unknown> {
+    if (error instanceof ReadOnlyViolationError) {
+      return {
+        code: error.code,
+        statementIndex: error.statementIndex,
+        command: error.command,
+        statement: error.statement,
+      };
+    }
+    if (error instanceof StatementExecutionError) {
+      return {
+        code: error.code,
+        statementIndex: error.statementIndex,
+        line: error.line,
+        startLine: error.startLine,
+        endLine: error.endLine,
+        position: error.position,
+      };
+    }
+    return {};
+  }
+
   private errorResponse(message: string): McpToolResponse {
     return {
       content: [
         {
-          type: 'error',
-          error: message,
+          type: 'text',
+          text: message,
         },
       ],
+      isError: true,
     };
   }
 
+  /**
+   * Roll back the sessions and close the cursors an owner opened, once its MCP HTTP session ends
+   */
+  async release(owner: string): Promise<void> {
+    if (this.executor) {
+      await this.executor.sessions.closeOwnedBy(owner);
+      await this.executor.cursors.closeOwnedBy(owner);
+    }
+  }
+
   async close(): Promise<void> {
     if (this.executor) {
       await this.executor.close();
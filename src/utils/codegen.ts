@@ -0,0 +1,469 @@
+/**
+ * Type generation from schema introspection results
+ * Turns table and view columns into TypeScript interfaces, Zod validators or JSON Schema,
+ * following what node-postgres returns: bigint and numeric as strings, timestamps as Dates,
+ * intervals as objects of their nonzero parts
+ */
+
+import type { ColumnInfo, SchemaResult, TypeInfo } from '../core/sql-executor';
+
+export type CodegenTarget = 'ts' | 'zod' | 'json-schema';
+
+export const CODEGEN_TARGETS: CodegenTarget[] = ['ts', 'zod', 'json-schema'];
+
+export interface GeneratedCode {
+  code: string;
+  tables: number;
+  views: number;
+  enums: number;
+}
+
+type Primitive =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'Date'
+  | 'Buffer'
+  | 'Json'
+  | 'Interval'
+  | 'unknown';
+
+// What a column holds, independent of the output language
+type ValueType =
+  | { kind: 'primitive'; type: Primitive; integer?: boolean; format?: string }
+  | { kind: 'enum'; schema: string; name: string; labels: string[] }
+  | { kind: 'array'; element: ValueType };
+
+const PRIMITIVE_TYPES: Record<string, { type: Primitive; integer?: boolean; format?: string }> = {
+  smallint: { type: 'number', integer: true },
+  integer: { type: 'number', integer: true },
+  real: { type: 'number' },
+  'double precision': { type: 'number' },
+  oid: { type: 'number', integer: true },
+  // Too large or precise for a JS number, so node-postgres returns them as strings
+  bigint: { type: 'string', format: 'int64' },
+  numeric: { type: 'string', format: 'decimal' },
+  money: { type: 'string' },
+  boolean: { type: 'boolean' },
+  text: { type: 'string' },
+  'character varying': { type: 'string' },
+  character: { type: 'string' },
+  '"char"': { type: 'string' },
+  name: { type: 'string' },
+  citext: { type: 'string' },
+  uuid: { type: 'string', format: 'uuid' },
+  inet: { type: 'string' },
+  cidr: { type: 'string' },
+  macaddr: { type: 'string' },
+  xml: { type: 'string' },
+  tsvector: { type: 'string' },
+  bit: { type: 'string' },
+  'bit varying': { type: 'string' },
+  interval: { type: 'Interval' },
+  'time without time zone': { type: 'string', format: 'time' },
+  'time with time zone': { type: 'string', format: 'time' },
+  date: { type: 'Date', format: 'date' },
+  'timestamp without time zone': { type: 'Date', format: 'date-time' },
+  'timestamp with time zone': { type: 'Date', format: 'date-time' },
+  json: { type: 'Json' },
+  jsonb: { type: 'Json' },
+  bytea: { type: 'Buffer' },
+};
+
+// Short names format_type and information_schema don't use, but people write in domains
+const TYPE_ALIASES: Record<string, string> = {
+  int2: 'smallint',
+  int4: 'integer',
+  int: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  decimal: 'numeric',
+  bool: 'boolean',
+  varchar: 'character varying',
+  char: 'character',
+  bpchar: 'character',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone',
+  time: 'time without time zone',
+  timetz: 'time with time zone',
+};
+
+const UNKNOWN: ValueType = { kind: 'primitive', type: 'unknown' };
+
+function unquote(name: string): string {
+  return name.replace(/"/g, '');
+}
+
+/**
+ * Resolve a declared type such as "character varying(20)", "integer[]" or "public.mood"
+ */
+function resolveType(declared: string, types: TypeInfo[], depth = 0): ValueType {
+  const trimmed = declared.trim();
+  if (trimmed.endsWith('[]')) {
+    return { kind: 'array', element: resolveType(trimmed.slice(0, -2), types, depth) };
+  }
+
+  // Drop modifiers: varchar(20), numeric(10,2), timestamp(3) with time zone
+  const base = trimmed
+    .replace(/\(\s*\d+(\s*,\s*\d+)?\s*\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+  const builtin = PRIMITIVE_TYPES[TYPE_ALIASES[base] || base];
+  if (builtin) {
+    return { kind: 'primitive', ...builtin };
+  }
+
+  // format_type leaves out the schema of types on the search path
+  const qualified = unquote(trimmed);
+  const type =
+    types.find(t => `${t.schema}.${t.name}` === qualified) ||
+    types.find(t => t.name === qualified && t.schema === 'public') ||
+    types.find(t => t.name === qualified);
+  if (type?.kind === 'enum') {
+    return { kind: 'enum', schema: type.schema, name: type.name, labels: type.labels || [] };
+  }
+  if (type?.kind === 'domain' && type.baseType && depth < 5) {
+    return resolveType(type.baseType, types, depth + 1);
+  }
+  // Extension types (citext in another schema, postgis, ...) resolve by their bare name
+  const bareName = qualified.slice(qualified.lastIndexOf('.') + 1).toLowerCase();
+  if (PRIMITIVE_TYPES[bareName]) {
+    return { kind: 'primitive', ...PRIMITIVE_TYPES[bareName] };
+  }
+  return UNKNOWN;
+}
+
+function columnType(column: ColumnInfo, types: TypeInfo[]): ValueType {
+  if (column.full_type) {
+    return resolveType(column.full_type, types);
+  }
+  if (column.data_type === 'ARRAY') {
+    return { kind: 'array', element: UNKNOWN };
+  }
+  if (column.data_type === 'USER-DEFINED') {
+    return UNKNOWN;
+  }
+  return resolveType(column.data_type, types);
+}
+
+/**
+ * PascalCase name for a table or type, e.g. "user_roles" -> "UserRoles"
+ */
+export function toTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(part => part.length > 0)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(pascal) || pascal === '' ? `_${pascal}` : pascal;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function lowerFirst(name: string): string {
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+interface Entity {
+  comment: string; // schema.name, and whether it is a view
+  typeName: string;
+  columns: { name: string; type: ValueType; nullable: boolean }[];
+}
+
+interface CodegenModel {
+  entities: Entity[];
+  enums: { typeName: string; labels: string[]; source: string }[];
+  enumNames: Map<string, string>; // schema.name of the enum -> generated type name
+  usesJson: boolean;
+  usesInterval: boolean;
+  tables: number;
+  views: number;
+}
+
+/**
+ * Tables, views and the enums they use, with unique type names
+ * View columns have no reliable nullability in the catalog, so they are all nullable
+ */
+function buildModel(schema: SchemaResult): CodegenModel {
+  const types = schema.types || [];
+  const used = new Set<string>();
+  const uniqueName = (relationSchema: string, name: string): string => {
+    let typeName = toTypeName(name);
+    if (used.has(typeName)) {
+      typeName = toTypeName(`${relationSchema}_${name}`);
+    }
+    for (let i = 2; used.has(typeName); i++) {
+      typeName = `${toTypeName(`${relationSchema}_${name}`)}${i}`;
+    }
+    used.add(typeName);
+    return typeName;
+  };
+
+  const views = [...(schema.views || []), ...(schema.materializedViews || [])];
+  const relations = [
+    ...schema.tables.map(table => ({
+      schema: table.schema,
+      name: table.name,
+      view: false,
+      columns: table.columns.map(column => ({
+        name: column.column_name,
+        type: columnType(column, types),
+        nullable: column.is_nullable === 'YES',
+      })),
+    })),
+    ...views.map(view => ({
+      schema: view.schema,
+      name: view.name,
+      view: true,
+      columns: view.columns.map(column => ({
+        name: column.column_name,
+        type: resolveType(column.data_type, types),
+        nullable: true,
+      })),
+    })),
+  ];
+
+  const entities: Entity[] = relations.map(relation => ({
+    comment: `${relation.schema}.${relation.name}${relation.view ? ' (view)' : ''}`,
+    typeName: uniqueName(relation.schema, relation.name),
+    columns: relation.columns,
+  }));
+
+  // Only enums that some column uses
+  const enumNames = new Map<string, string>();
+  const enums: CodegenModel['enums'] = [];
+  let usesJson = false;
+  let usesInterval = false;
+  const visit = (type: ValueType): void => {
+    if (type.kind === 'array') {
+      visit(type.element);
+    } else if (type.kind === 'enum' && !enumNames.has(`${type.schema}.${type.name}`)) {
+      const typeName = uniqueName(type.schema, type.name);
+      enumNames.set(`${type.schema}.${type.name}`, typeName);
+      enums.push({ typeName, labels: type.labels, source: `${type.schema}.${type.name}` });
+    } else if (type.kind === 'primitive' && type.type === 'Json') {
+      usesJson = true;
+    } else if (type.kind === 'primitive' && type.type === 'Interval') {
+      usesInterval = true;
+    }
+  };
+  entities.forEach(entity => entity.columns.forEach(column => visit(column.type)));
+
+  return {
+    entities,
+    enums,
+    enumNames,
+    usesJson,
+    usesInterval,
+    tables: schema.tables.length,
+    views: views.length,
+  };
+}
+
+const HEADER = '// Generated by sequelae codegen from the database schema. Do not edit by hand.';
+
+const JSON_TYPE =
+  'export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };';
+
+// node-postgres parses intervals with postgres-interval, which leaves out the parts that are zero
+const INTERVAL_PARTS = ['years', 'months', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+
+function tsType(type: ValueType, model: CodegenModel): string {
+  if (type.kind === 'array') {
+    const element = tsType(type.element, model);
+    return /^[A-Za-z0-9_$]+$/.test(element) ? `${element}[]` : `(${element})[]`;
+  }
+  if (type.kind === 'enum') {
+    return model.enumNames.get(`${type.schema}.${type.name}`) as string;
+  }
+  return type.type;
+}
+
+export function generateTypeScript(schema: SchemaResult): GeneratedCode {
+  const model = buildModel(schema);
+  const blocks = [HEADER];
+  if (model.usesJson) {
+    blocks.push(JSON_TYPE);
+  }
+  if (model.usesInterval) {
+    blocks.push(
+      `export interface Interval {\n${INTERVAL_PARTS.map(part => `  ${part}?: number;`).join('\n')}\n}`
+    );
+  }
+  for (const enumType of model.enums) {
+    blocks.push(
+      `/** ${enumType.source} */\nexport type ${enumType.typeName} = ${enumType.labels.map(label => `'${label.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ') || 'never'};`
+    );
+  }
+  for (const entity of model.entities) {
+    const fields = entity.columns.map(
+      column =>
+        `  ${propertyKey(column.name)}: ${tsType(column.type, model)}${column.nullable && column.type !== UNKNOWN ? ' | null' : ''};`
+    );
+    blocks.push(
+      `/** ${entity.comment} */\nexport interface ${entity.typeName} {\n${fields.join('\n')}\n}`
+    );
+  }
+  return {
+    code: `${blocks.join('\n\n')}\n`,
+    tables: model.tables,
+    views: model.views,
+    enums: model.enums.length,
+  };
+}
+
+function zodType(type: ValueType, model: CodegenModel): string {
+  if (type.kind === 'array') {
+    return `z.array(${zodType(type.element, model)})`;
+  }
+  if (type.kind === 'enum') {
+    return `${lowerFirst(model.enumNames.get(`${type.schema}.${type.name}`) as string)}Schema`;
+  }
+  switch (type.type) {
+    case 'number':
+      return type.integer ? 'z.number().int()' : 'z.number()';
+    case 'string':
+      return type.format === 'uuid' ? 'z.string().uuid()' : 'z.string()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'Date':
+      return 'z.coerce.date()';
+    case 'Buffer':
+      return 'z.instanceof(Buffer)';
+    case 'Json':
+      return 'jsonSchema';
+    case 'Interval':
+      return 'intervalSchema';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+export function generateZod(schema: SchemaResult): GeneratedCode {
+  const model = buildModel(schema);
+  const blocks = [`${HEADER}\nimport { z } from 'zod';`];
+  if (model.usesJson) {
+    blocks.push(
+      `${JSON_TYPE}\n\nexport const jsonSchema: z.ZodType<Json> = z.lazy(() =>\n  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(jsonSchema), z.record(jsonSchema)])\n);`
+    );
+  }
+  if (model.usesInterval) {
+    blocks.push(
+      `export const intervalSchema = z.object({\n${INTERVAL_PARTS.map(part => `  ${part}: z.number().optional(),`).join('\n')}\n});\nexport type Interval = z.infer<typeof intervalSchema>;`
+    );
+  }
+  for (const enumType of model.enums) {
+    const schemaName = `${lowerFirst(enumType.typeName)}Schema`;
+    blocks.push(
+      `/** ${enumType.source} */\nexport const ${schemaName} = z.enum([${enumType.labels.map(label => JSON.stringify(label)).join(', ')}]);\nexport type ${enumType.typeName} = z.infer<typeof ${schemaName}>;`
+    );
+  }
+  for (const entity of model.entities) {
+    const schemaName = `${lowerFirst(entity.typeName)}Schema`;
+    const fields = entity.columns.map(
+      column =>
+        `  ${propertyKey(column.name)}: ${zodType(column.type, model)}${column.nullable && column.type !== UNKNOWN ? '.nullable()' : ''},`
+    );
+    blocks.push(
+      `/** ${entity.comment} */\nexport const ${schemaName} = z.object({\n${fields.join('\n')}\n});\nexport type ${entity.typeName} = z.infer<typeof ${schemaName}>;`
+    );
+  }
+  return {
+    code: `${blocks.join('\n\n')}\n`,
+    tables: model.tables,
+    views: model.views,
+    enums: model.enums.length,
+  };
+}
+
+function jsonSchemaType(type: ValueType, model: CodegenModel): Record<string, unknown> {
+  if (type.kind === 'array') {
+    return { type: 'array', items: jsonSchemaType(type.element, model) };
+  }
+  if (type.kind === 'enum') {
+    return { $ref: `#/$defs/${model.enumNames.get(`${type.schema}.${type.name}`)}` };
+  }
+  switch (type.type) {
+    case 'number':
+      return { type: type.integer ? 'integer' : 'number' };
+    case 'string':
+      return { type: 'string', ...(type.format && { format: type.format }) };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'Date':
+      // JSON has no dates; they travel as ISO 8601 strings
+      return { type: 'string', format: type.format };
+    case 'Buffer':
+      return { type: 'string', contentEncoding: 'base64' };
+    case 'Interval':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(INTERVAL_PARTS.map(part => [part, { type: 'number' }])),
+        additionalProperties: false,
+      };
+    default:
+      return {};
+  }
+}
+
+function nullableJsonSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  if (Object.keys(schema).length === 0) {
+    return schema; // Already accepts anything, null included
+  }
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+export function generateJsonSchema(schema: SchemaResult): GeneratedCode {
+  const model = buildModel(schema);
+  const defs: Record<string, unknown> = {};
+  for (const enumType of model.enums) {
+    defs[enumType.typeName] = {
+      description: enumType.source,
+      type: 'string',
+      enum: enumType.labels,
+    };
+  }
+  for (const entity of model.entities) {
+    defs[entity.typeName] = {
+      description: entity.comment,
+      type: 'object',
+      properties: Object.fromEntries(
+        entity.columns.map(column => {
+          const type = jsonSchemaType(column.type, model);
+          return [column.name, column.nullable ? nullableJsonSchema(type) : type];
+        })
+      ),
+      required: entity.columns.map(column => column.name),
+      additionalProperties: false,
+    };
+  }
+  const document = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $comment: HEADER.replace(/^\/\/ /, ''),
+    $defs: defs,
+  };
+  return {
+    code: `${JSON.stringify(document, null, 2)}\n`,
+    tables: model.tables,
+    views: model.views,
+    enums: model.enums.length,
+  };
+}
+
+export function generateCode(schema: SchemaResult, target: CodegenTarget): GeneratedCode {
+  switch (target) {
+    case 'zod':
+      return generateZod(schema);
+    case 'json-schema':
+      return generateJsonSchema(schema);
+    default:
+      return generateTypeScript(schema);
+  }
+}
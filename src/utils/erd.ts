@@ -0,0 +1,305 @@
+/**
+ * Entity-relationship diagrams from schema introspection results
+ * Renders tables, their key columns and foreign key edges as Mermaid, Graphviz DOT or PlantUML
+ */
+
+import type { ColumnInfo, ConstraintInfo, SchemaResult, TableInfo } from '../core/sql-executor';
+
+export type ErdFormat = 'mermaid' | 'dot' | 'plantuml';
+
+export const ERD_FORMATS: ErdFormat[] = ['mermaid', 'dot', 'plantuml'];
+
+export interface ErdOptions {
+  schemas?: string[]; // Only tables in these schemas
+  tables?: string[]; // Tables by name or schema.name
+  seed?: string; // Start from this table and follow foreign keys both ways...
+  depth?: number; // ...for this many hops (default 1)
+  allColumns?: boolean; // Show every column instead of key columns only
+}
+
+export interface ErdRelationship {
+  from: string; // schema.table holding the foreign key
+  to: string; // schema.table it references
+  constraint: ConstraintInfo;
+  optional: boolean; // A nullable foreign key column, so the reference may be absent
+  unique: boolean; // The foreign key columns are also unique: one-to-one
+}
+
+export interface ErdGraph {
+  tables: TableInfo[];
+  relationships: ErdRelationship[];
+  missingTables: string[]; // Requested table names that were not found
+}
+
+const DEFAULT_DEPTH = 1;
+
+function tableKey(table: { schema: string; name: string }): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function referencedKey(constraint: ConstraintInfo): string {
+  return `${constraint.referenced_schema}.${constraint.referenced_table}`;
+}
+
+function matchesName(table: TableInfo, name: string): boolean {
+  return table.name === name || tableKey(table) === name;
+}
+
+function foreignKeys(table: TableInfo): ConstraintInfo[] {
+  return table.constraints.filter(c => c.constraint_type === 'FOREIGN KEY');
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(column => b.includes(column));
+}
+
+/**
+ * Pick the tables for a diagram and the foreign keys between them
+ * `tables` and `seed` each select tables; when both are given the diagram shows both
+ */
+export function buildErdGraph(schema: SchemaResult, options: ErdOptions = {}): ErdGraph {
+  const candidates = schema.tables.filter(
+    table => !options.schemas || options.schemas.includes(table.schema)
+  );
+  const byKey = new Map(candidates.map(table => [tableKey(table), table]));
+  const selected = new Set<string>();
+  const missingTables: string[] = [];
+
+  if (options.tables) {
+    for (const name of options.tables) {
+      const matches = candidates.filter(table => matchesName(table, name));
+      if (matches.length === 0) {
+        missingTables.push(name);
+      }
+      matches.forEach(table => selected.add(tableKey(table)));
+    }
+  }
+
+  if (options.seed) {
+    const seeds = candidates.filter(table => matchesName(table, options.seed as string));
+    if (seeds.length === 0) {
+      throw new Error(`Seed table not found: ${options.seed}`);
+    }
+
+    // Foreign keys link tables in both directions
+    const neighbours = new Map<string, Set<string>>();
+    const link = (a: string, b: string): void => {
+      neighbours.set(a, (neighbours.get(a) || new Set()).add(b));
+    };
+    for (const table of candidates) {
+      for (const fk of foreignKeys(table)) {
+        if (byKey.has(referencedKey(fk))) {
+          link(tableKey(table), referencedKey(fk));
+          link(referencedKey(fk), tableKey(table));
+        }
+      }
+    }
+
+    let frontier = seeds.map(tableKey);
+    const reached = new Set(frontier);
+    for (let hop = 0; hop < (options.depth ?? DEFAULT_DEPTH) && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const key of frontier) {
+        for (const neighbour of neighbours.get(key) || []) {
+          if (!reached.has(neighbour)) {
+            reached.add(neighbour);
+            next.push(neighbour);
+          }
+        }
+      }
+      frontier = next;
+    }
+    reached.forEach(key => selected.add(key));
+  }
+
+  const tables =
+    options.tables || options.seed
+      ? candidates.filter(table => selected.has(tableKey(table)))
+      : candidates;
+  const included = new Set(tables.map(tableKey));
+
+  const relationships: ErdRelationship[] = [];
+  for (const table of tables) {
+    const uniqueKeys = table.constraints.filter(
+      c => c.constraint_type === 'PRIMARY KEY' || c.constraint_type === 'UNIQUE'
+    );
+    for (const fk of foreignKeys(table)) {
+      if (!included.has(referencedKey(fk))) {
+        continue;
+      }
+      relationships.push({
+        from: tableKey(table),
+        to: referencedKey(fk),
+        constraint: fk,
+        optional: table.columns.some(
+          column => fk.columns.includes(column.column_name) && column.is_nullable === 'YES'
+        ),
+        unique: uniqueKeys.some(key => sameColumns(key.columns, fk.columns)),
+      });
+    }
+  }
+
+  return { tables, relationships, missingTables };
+}
+
+export function renderErd(graph: ErdGraph, format: ErdFormat, options: ErdOptions = {}): string {
+  switch (format) {
+    case 'dot':
+      return formatErdDot(graph, options);
+    case 'plantuml':
+      return formatErdPlantUml(graph, options);
+    default:
+      return formatErdMermaid(graph, options);
+  }
+}
+
+/**
+ * Key markers per column: PK, FK and UK (part of a unique constraint)
+ */
+function columnKeys(table: TableInfo, column: ColumnInfo): string[] {
+  const markers: [ConstraintInfo['constraint_type'], string][] = [
+    ['PRIMARY KEY', 'PK'],
+    ['FOREIGN KEY', 'FK'],
+    ['UNIQUE', 'UK'],
+  ];
+  return markers
+    .filter(([type]) =>
+      table.constraints.some(
+        c => c.constraint_type === type && c.columns.includes(column.column_name)
+      )
+    )
+    .map(([, marker]) => marker);
+}
+
+function diagramColumns(
+  table: TableInfo,
+  options: ErdOptions
+): { column: ColumnInfo; keys: string[] }[] {
+  return table.columns
+    .map(column => ({ column, keys: columnKeys(table, column) }))
+    .filter(({ keys }) => options.allColumns || keys.length > 0);
+}
+
+// Requested tables that were not found, as a comment in the diagram's own syntax
+function missingTablesComment(graph: ErdGraph, prefix: string): string[] {
+  return graph.missingTables.length > 0
+    ? [`${prefix} Tables not found: ${graph.missingTables.join(', ')}`]
+    : [];
+}
+
+// Identifier safe for Mermaid and PlantUML, e.g. "public.user roles" -> "public_user_roles"
+function diagramId(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+/**
+ * Mermaid erDiagram; tables are named without their schema unless the diagram spans several
+ */
+export function formatErdMermaid(graph: ErdGraph, options: ErdOptions = {}): string {
+  const qualify = new Set(graph.tables.map(table => table.schema)).size > 1;
+  const entityId = (key: string): string =>
+    diagramId(qualify ? key : key.slice(key.indexOf('.') + 1));
+
+  const lines = ['erDiagram', ...missingTablesComment(graph, '  %%')];
+  for (const table of graph.tables) {
+    const columns = diagramColumns(table, options);
+    if (columns.length === 0) {
+      lines.push(`  ${entityId(tableKey(table))}`);
+      continue;
+    }
+    lines.push(`  ${entityId(tableKey(table))} {`);
+    for (const { column, keys } of columns) {
+      const type = column.data_type.replace(/[^A-Za-z0-9_[\]]+/g, '_');
+      lines.push(
+        `    ${type} ${diagramId(column.column_name)}${keys.length > 0 ? ` ${keys.join(', ')}` : ''}`
+      );
+    }
+    lines.push('  }');
+  }
+  for (const rel of graph.relationships) {
+    const parent = rel.optional ? '|o' : '||';
+    const child = rel.unique ? 'o|' : 'o{';
+    lines.push(
+      `  ${entityId(rel.to)} ${parent}--${child} ${entityId(rel.from)} : "${rel.constraint.columns.join(', ')}"`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function dotQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function htmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Graphviz DOT with one HTML-like table per node; edges point from the referencing table
+ * and are dashed when the foreign key is nullable
+ */
+export function formatErdDot(graph: ErdGraph, options: ErdOptions = {}): string {
+  const lines = [
+    'digraph erd {',
+    '  graph [rankdir=LR];',
+    '  node [shape=plaintext, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    ...missingTablesComment(graph, '  //'),
+  ];
+  for (const table of graph.tables) {
+    const rows = diagramColumns(table, options).map(
+      ({ column, keys }) =>
+        `<TR><TD ALIGN="LEFT">${htmlEscape(`${column.column_name}: ${column.data_type}${keys.length > 0 ? ` ${keys.join(', ')}` : ''}`)}</TD></TR>`
+    );
+    lines.push(
+      `  ${dotQuote(tableKey(table))} [label=<<TABLE BORDER="0" CELLBORDER="1" CELLSPACING="0" CELLPADDING="4"><TR><TD BGCOLOR="#dddddd"><B>${htmlEscape(tableKey(table))}</B></TD></TR>${rows.join('')}</TABLE>>];`
+    );
+  }
+  for (const rel of graph.relationships) {
+    const attributes = [`label=${dotQuote(rel.constraint.columns.join(', '))}`];
+    if (rel.optional) {
+      attributes.push('style=dashed');
+    }
+    lines.push(`  ${dotQuote(rel.from)} -> ${dotQuote(rel.to)} [${attributes.join(', ')}];`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * PlantUML entity diagram; primary key columns sit above the separator and
+ * NOT NULL columns are marked with *
+ */
+export function formatErdPlantUml(graph: ErdGraph, options: ErdOptions = {}): string {
+  const lines = [
+    '@startuml',
+    ...missingTablesComment(graph, "'"),
+    'hide circle',
+    'skinparam linetype ortho',
+    '',
+  ];
+  for (const table of graph.tables) {
+    const columns = diagramColumns(table, options);
+    const columnLine = ({ column, keys }: { column: ColumnInfo; keys: string[] }): string =>
+      `  ${column.is_nullable === 'NO' ? '* ' : ''}${column.column_name} : ${column.data_type}${keys.map(key => ` <<${key}>>`).join('')}`;
+
+    lines.push(`entity "${tableKey(table)}" as ${diagramId(tableKey(table))} {`);
+    lines.push(...columns.filter(({ keys }) => keys.includes('PK')).map(columnLine));
+    lines.push('  --');
+    lines.push(...columns.filter(({ keys }) => !keys.includes('PK')).map(columnLine));
+    lines.push('}', '');
+  }
+  for (const rel of graph.relationships) {
+    const parent = rel.optional ? '|o' : '||';
+    const child = rel.unique ? 'o|' : 'o{';
+    lines.push(
+      `${diagramId(rel.to)} ${parent}--${child} ${diagramId(rel.from)} : ${rel.constraint.columns.join(', ')}`
+    );
+  }
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+}
@@ -20,6 +20,7 @@ export interface LogEntry {
 export class Logger {
   private static instance: Logger;
   private jsonMode: boolean = false;
+  private stderrOnly: boolean = false;
   private minLevel: LogLevel = LogLevel.INFO;
 
   private constructor() {
@@ -43,6 +44,11 @@ export class Logger {
     this.jsonMode = enabled;
   }
 
+  // MCP mode: stdout carries the protocol, so every level goes to stderr
+  setStderrOnly(enabled: boolean): void {
+    this.stderrOnly = enabled;
+  }
+
   setMinLevel(level: LogLevel): void {
     this.minLevel = level;
   }
@@ -64,16 +70,17 @@ export class Logger {
   }
 
   private output(entry: LogEntry): void {
+    const write = this.stderrOnly ? console.error : console.log;
     if (this.jsonMode) {
-      console.log(JSON.stringify(entry));
+      write(JSON.stringify(entry));
     } else {
       const prefix = `[${entry.timestamp}] [${entry.level.toUpperCase()}]`;
       const message = `${prefix} ${entry.message}`;
 
       if (entry.data) {
-        console.log(message, entry.data);
+        write(message, entry.data);
       } else {
-        console.log(message);
+        write(message);
       }
     }
   }
@@ -0,0 +1,293 @@
+/**
+ * Digest of an EXPLAIN (FORMAT JSON) plan
+ * Pulls out what usually matters when tuning a query: cost, row estimates,
+ * sequential scans on large tables, sorts that spill to disk and the slowest nodes
+ */
+
+export interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  Schema?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Total Cost'?: number;
+  'Plan Rows'?: number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Rows Removed by Filter'?: number;
+  'Sort Method'?: string;
+  'Sort Space Used'?: number;
+  'Sort Space Type'?: string;
+  'Hash Batches'?: number;
+  'Peak Memory Usage'?: number;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+export interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+  [key: string]: unknown;
+}
+
+export interface RowEstimate {
+  node: string;
+  estimatedRows: number;
+  actualRows: number;
+  factor: number; // How far off the estimate was, always >= 1
+}
+
+export interface SeqScanInfo {
+  node: string;
+  relation: string;
+  tableRows: number;
+  filtered: boolean;
+}
+
+export interface SpillInfo {
+  node: string;
+  detail: string;
+}
+
+export interface NodeTiming {
+  node: string;
+  exclusive: number; // Time (ms) or cost spent in this node, excluding its children
+  percent: number;
+}
+
+export interface PlanSummary {
+  totalCost: number;
+  estimatedRows: number;
+  actualRows?: number;
+  planningTime?: number;
+  executionTime?: number;
+  misestimates: RowEstimate[];
+  seqScans: SeqScanInfo[];
+  spills: SpillInfo[];
+  slowestNodes: NodeTiming[];
+  slowestBasis: 'time' | 'cost';
+  warnings: string[];
+}
+
+export interface PlanSummaryOptions {
+  // Row counts of scanned tables keyed by "schema.table", e.g. from pg_class.reltuples
+  tableRows?: Record<string, number>;
+  largeTableRows?: number;
+  misestimateFactor?: number;
+  slowestNodeCount?: number;
+}
+
+const DEFAULT_LARGE_TABLE_ROWS = 10000;
+const DEFAULT_MISESTIMATE_FACTOR = 10;
+const DEFAULT_SLOWEST_NODE_COUNT = 5;
+
+/**
+ * Short description of a plan node, e.g. "Index Scan on public.users using users_pkey"
+ */
+export function describePlanNode(node: PlanNode): string {
+  let label = node['Node Type'];
+  const relation = planNodeRelation(node);
+  if (relation) {
+    label += ` on ${relation}`;
+  }
+  if (node['Index Name']) {
+    label += ` using ${node['Index Name']}`;
+  }
+  return label;
+}
+
+function planNodeRelation(node: PlanNode): string | undefined {
+  if (!node['Relation Name']) {
+    return undefined;
+  }
+  return node.Schema ? `${node.Schema}.${node['Relation Name']}` : node['Relation Name'];
+}
+
+function walk(node: PlanNode, visit: (node: PlanNode) => void): void {
+  visit(node);
+  for (const child of node.Plans || []) {
+    walk(child, visit);
+  }
+}
+
+/**
+ * Relations read by sequential scans, as "schema.table"
+ */
+export function seqScanRelations(output: ExplainOutput): string[] {
+  const relations = new Set<string>();
+  walk(output.Plan, node => {
+    const relation = planNodeRelation(node);
+    if (node['Node Type'] === 'Seq Scan' && relation) {
+      relations.add(relation);
+    }
+  });
+  return [...relations];
+}
+
+/**
+ * Accept the raw "QUERY PLAN" value, which pg returns either parsed or as text
+ */
+export function parseExplainOutput(value: unknown): ExplainOutput {
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  const output = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!output || typeof output !== 'object' || !('Plan' in output)) {
+    throw new Error('Unexpected EXPLAIN output: no plan found');
+  }
+  return output as ExplainOutput;
+}
+
+export function summarizePlan(
+  output: ExplainOutput,
+  options: PlanSummaryOptions = {}
+): PlanSummary {
+  const largeTableRows = options.largeTableRows ?? DEFAULT_LARGE_TABLE_ROWS;
+  const misestimateFactor = options.misestimateFactor ?? DEFAULT_MISESTIMATE_FACTOR;
+  const slowestNodeCount = options.slowestNodeCount ?? DEFAULT_SLOWEST_NODE_COUNT;
+  const root = output.Plan;
+  const analyzed = root['Actual Total Time'] !== undefined;
+
+  const misestimates: RowEstimate[] = [];
+  const seqScans: SeqScanInfo[] = [];
+  const spills: SpillInfo[] = [];
+  const timings: { node: string; exclusive: number }[] = [];
+
+  walk(root, node => {
+    const label = describePlanNode(node);
+    const loops = node['Actual Loops'] || 1;
+
+    // Estimated vs actual rows (both are per loop)
+    if (analyzed && node['Actual Loops'] !== 0) {
+      const estimated = node['Plan Rows'] ?? 0;
+      const actual = node['Actual Rows'] ?? 0;
+      const factor = Math.max(estimated, 1) / Math.max(actual, 1);
+      const off = factor >= 1 ? factor : 1 / factor;
+      if (off >= misestimateFactor) {
+        misestimates.push({
+          node: label,
+          estimatedRows: estimated,
+          actualRows: actual,
+          factor: Math.round(off * 10) / 10,
+        });
+      }
+    }
+
+    // Sequential scans on large tables
+    const relation = planNodeRelation(node);
+    if (node['Node Type'] === 'Seq Scan' && relation) {
+      const scannedRows = analyzed
+        ? ((node['Actual Rows'] ?? 0) + (node['Rows Removed by Filter'] ?? 0)) * loops
+        : (node['Plan Rows'] ?? 0);
+      const tableRows = options.tableRows?.[relation] ?? scannedRows;
+      if (tableRows >= largeTableRows) {
+        seqScans.push({
+          node: label,
+          relation,
+          tableRows,
+          filtered: node.Filter !== undefined,
+        });
+      }
+    }
+
+    // Sorts and hashes that did not fit in work_mem
+    const sortMethod = node['Sort Method'];
+    if (node['Sort Space Type'] === 'Disk' || (sortMethod && sortMethod.includes('external'))) {
+      spills.push({
+        node: label,
+        detail: `${sortMethod || 'sort'} using ${node['Sort Space Used'] ?? '?'}kB on disk`,
+      });
+    }
+    if ((node['Hash Batches'] ?? 1) > 1) {
+      spills.push({
+        node: label,
+        detail: `hash split into ${node['Hash Batches']} batches`,
+      });
+    }
+
+    // Exclusive time (or cost without ANALYZE): the node minus its children
+    const children = node.Plans || [];
+    const exclusive = analyzed
+      ? (node['Actual Total Time'] ?? 0) * loops -
+        children.reduce(
+          (sum, child) => sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] || 1),
+          0
+        )
+      : (node['Total Cost'] ?? 0) -
+        children.reduce((sum, child) => sum + (child['Total Cost'] ?? 0), 0);
+    timings.push({ node: label, exclusive: Math.max(0, exclusive) });
+  });
+
+  const total = timings.reduce((sum, timing) => sum + timing.exclusive, 0);
+  const slowestNodes = timings
+    .sort((a, b) => b.exclusive - a.exclusive)
+    .slice(0, slowestNodeCount)
+    .map(timing => ({
+      node: timing.node,
+      exclusive: Math.round(timing.exclusive * 1000) / 1000,
+      percent: total > 0 ? Math.round((timing.exclusive / total) * 1000) / 10 : 0,
+    }));
+
+  const warnings: string[] = [
+    ...seqScans.map(
+      scan =>
+        `Sequential scan on ${scan.relation} (~${scan.tableRows} rows)${scan.filtered ? ' with a filter; an index may help' : ''}`
+    ),
+    ...spills.map(
+      spill => `${spill.node} spilled to disk: ${spill.detail}; consider raising work_mem`
+    ),
+    ...misestimates.map(
+      estimate =>
+        `${estimate.node} estimated ${estimate.estimatedRows} rows but returned ${estimate.actualRows} (${estimate.factor}x off); consider ANALYZE on the table`
+    ),
+  ];
+
+  return {
+    totalCost: root['Total Cost'] ?? 0,
+    estimatedRows: root['Plan Rows'] ?? 0,
+    ...(analyzed && { actualRows: root['Actual Rows'] ?? 0 }),
+    ...(output['Planning Time'] !== undefined && { planningTime: output['Planning Time'] }),
+    ...(output['Execution Time'] !== undefined && { executionTime: output['Execution Time'] }),
+    misestimates,
+    seqScans,
+    spills,
+    slowestNodes,
+    slowestBasis: analyzed ? 'time' : 'cost',
+    warnings,
+  };
+}
+
+/**
+ * Plain-text rendering of a plan summary for the CLI and text-mode MCP responses
+ */
+export function formatPlanSummaryText(summary: PlanSummary): string {
+  let text = `Total cost: ${summary.totalCost}\n`;
+  text += `Estimated rows: ${summary.estimatedRows}\n`;
+  if (summary.actualRows !== undefined) {
+    text += `Actual rows: ${summary.actualRows}\n`;
+  }
+  if (summary.planningTime !== undefined) {
+    text += `Planning time: ${summary.planningTime}ms\n`;
+  }
+  if (summary.executionTime !== undefined) {
+    text += `Execution time: ${summary.executionTime}ms\n`;
+  }
+
+  if (summary.slowestNodes.length > 0) {
+    text += `\n${summary.slowestBasis === 'time' ? 'Slowest nodes' : 'Most expensive nodes'}:\n`;
+    for (const node of summary.slowestNodes) {
+      const amount =
+        summary.slowestBasis === 'time' ? `${node.exclusive}ms` : `cost ${node.exclusive}`;
+      text += `  - ${node.node}: ${amount} (${node.percent}%)\n`;
+    }
+  }
+
+  if (summary.warnings.length > 0) {
+    text += '\nWarnings:\n';
+    for (const warning of summary.warnings) {
+      text += `  ⚠️  ${warning}\n`;
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,84 @@
+/**
+ * Masking of sensitive columns in sampled rows
+ * Values keep their shape (length, separators, where letters and digits go) so an agent can
+ * still tell an email from a phone number, without the actual personal data reaching its context
+ */
+
+export const DEFAULT_SENSITIVE_PATTERNS = ['email', 'phone', 'password', 'token', 'ssn'];
+
+const REDACTED = '[redacted]';
+
+export interface RedactedRows {
+  rows: Record<string, unknown>[];
+  redactedColumns: string[]; // Columns whose values were masked, in column order
+}
+
+/**
+ * Sensitive column patterns: SEQUELAE_SENSITIVE_COLUMNS (comma separated), else the defaults,
+ * plus any per-call patterns. Calls can only mask more; SEQUELAE_REDACT=false is the only way
+ * to turn the configured patterns off
+ */
+export function getSensitivePatterns(extra: string[] = []): string[] {
+  return [...getConfiguredPatterns(), ...extra];
+}
+
+function getConfiguredPatterns(): string[] {
+  if (process.env.SEQUELAE_REDACT === 'false') {
+    return [];
+  }
+  const configured = process.env.SEQUELAE_SENSITIVE_COLUMNS;
+  if (configured !== undefined && configured.trim() !== '') {
+    return configured
+      .split(',')
+      .map(pattern => pattern.trim())
+      .filter(pattern => pattern.length > 0);
+  }
+  return DEFAULT_SENSITIVE_PATTERNS;
+}
+
+/**
+ * A column is sensitive when its name contains one of the patterns, ignoring case:
+ * "token" covers access_token and resetTokenHash
+ */
+export function isSensitiveColumn(column: string, patterns: string[]): boolean {
+  const name = column.toLowerCase();
+  return patterns.some(pattern => name.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Mask one value: in text every letter becomes x and every digit 0, so
+ * "Ann.Lee@mail.com" reads "xxx.xxx@xxxx.xxx"; other non-null values become "[redacted]"
+ */
+export function maskValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.replace(/\p{L}/gu, 'x').replace(/\p{N}/gu, '0');
+  }
+  return REDACTED;
+}
+
+/**
+ * Mask the sensitive `columns` of every row; null stays null so optional columns still show as such
+ */
+export function redactRows(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  patterns: string[]
+): RedactedRows {
+  const redactedColumns = columns.filter(column => isSensitiveColumn(column, patterns));
+  if (redactedColumns.length === 0) {
+    return { rows, redactedColumns };
+  }
+  return {
+    rows: rows.map(row => {
+      const masked = { ...row };
+      for (const column of redactedColumns) {
+        masked[column] = maskValue(row[column]);
+      }
+      return masked;
+    }),
+    redactedColumns,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Result size budgeting for tool responses
+ * Caps rows, bytes and cell lengths so large results don't flood an agent's context window
+ */
+
+export interface ResultBudget {
+  maxRows: number; // 0 disables the limit
+  maxBytes: number; // Serialized JSON size of the returned rows; 0 disables the limit
+  maxCellLength: number; // Characters kept from long text/json/bytea values; 0 disables
+}
+
+export interface BudgetedRows {
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+  totalRows: number;
+  returnedRows: number;
+  truncatedCells: number;
+  reason?: 'maxRows' | 'maxBytes';
+}
+
+export interface BudgetedItems<T> {
+  items: T[];
+  truncated: boolean;
+  omitted: T[];
+}
+
+const DEFAULT_MAX_ROWS = 500;
+const DEFAULT_MAX_BYTES = 100000; // ~100 KB
+const DEFAULT_MAX_CELL_LENGTH = 1000;
+
+function envLimit(name: string, fallback: number): number {
+  const value = process.env[name] ? parseInt(process.env[name] as string) : NaN;
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Resolve the budget from SEQUELAE_MAX_ROWS, SEQUELAE_MAX_BYTES and
+ * SEQUELAE_MAX_CELL_LENGTH, with per-call overrides taking precedence
+ */
+export function getResultBudget(overrides: Partial<ResultBudget> = {}): ResultBudget {
+  return {
+    maxRows: overrides.maxRows ?? envLimit('SEQUELAE_MAX_ROWS', DEFAULT_MAX_ROWS),
+    maxBytes: overrides.maxBytes ?? envLimit('SEQUELAE_MAX_BYTES', DEFAULT_MAX_BYTES),
+    maxCellLength:
+      overrides.maxCellLength ?? envLimit('SEQUELAE_MAX_CELL_LENGTH', DEFAULT_MAX_CELL_LENGTH),
+  };
+}
+
+/**
+ * Shorten a long cell value, appending a marker with the original length
+ * bytea values are shown as hex and json values as JSON text once truncated
+ */
+export function truncateCell(
+  value: unknown,
+  maxLength: number
+): { value: unknown; truncated: boolean } {
+  if (maxLength <= 0 || value === null || value === undefined) {
+    return { value, truncated: false };
+  }
+
+  if (Buffer.isBuffer(value)) {
+    if (value.length <= maxLength) {
+      return { value, truncated: false };
+    }
+    return {
+      value: `\\x${value.subarray(0, maxLength).toString('hex')}... [truncated: ${value.length} bytes total]`,
+      truncated: true,
+    };
+  }
+
+  let text: string;
+  if (typeof value === 'string') {
+    text = value;
+  } else if (typeof value === 'object' && !(value instanceof Date)) {
+    text = JSON.stringify(value);
+  } else {
+    return { value, truncated: false };
+  }
+
+  if (text.length <= maxLength) {
+    return { value, truncated: false };
+  }
+  return {
+    value: `${text.slice(0, maxLength)}... [truncated: ${text.length} chars total]`,
+    truncated: true,
+  };
+}
+
+/**
+ * Apply the budget to a result set
+ * Rows are kept in order until the row or byte limit is reached
+ */
+export function applyResultBudget(
+  rows: Record<string, unknown>[],
+  budget: ResultBudget
+): BudgetedRows {
+  const kept: Record<string, unknown>[] = [];
+  let truncatedCells = 0;
+  let bytes = 2; // The surrounding []
+  let reason: BudgetedRows['reason'];
+
+  for (const row of rows) {
+    if (budget.maxRows > 0 && kept.length >= budget.maxRows) {
+      reason = 'maxRows';
+      break;
+    }
+
+    const trimmed: Record<string, unknown> = {};
+    let rowTruncatedCells = 0;
+    for (const [key, value] of Object.entries(row)) {
+      const cell = truncateCell(value, budget.maxCellLength);
+      trimmed[key] = cell.value;
+      if (cell.truncated) {
+        rowTruncatedCells++;
+      }
+    }
+
+    if (budget.maxBytes > 0) {
+      bytes += Buffer.byteLength(JSON.stringify(trimmed)) + 1; // Row plus separating comma
+      if (bytes > budget.maxBytes) {
+        reason = 'maxBytes';
+        break;
+      }
+    }
+
+    kept.push(trimmed);
+    truncatedCells += rowTruncatedCells;
+  }
+
+  return {
+    rows: kept,
+    truncated: kept.length < rows.length || truncatedCells > 0,
+    totalRows: rows.length,
+    returnedRows: kept.length,
+    truncatedCells,
+    ...(reason && { reason }),
+  };
+}
+
+/**
+ * Apply one budget across several result sets in order (e.g. the statements of a script), so
+ * that together they stay within it; sets that come after the budget ran out keep no rows
+ */
+export function applySharedResultBudget(
+  sets: Record<string, unknown>[][],
+  budget: ResultBudget
+): BudgetedRows[] {
+  let rowsLeft = budget.maxRows;
+  let bytesLeft = budget.maxBytes;
+
+  return sets.map(rows => {
+    const exhausted: BudgetedRows['reason'] =
+      budget.maxRows > 0 && rowsLeft <= 0
+        ? 'maxRows'
+        : budget.maxBytes > 0 && bytesLeft <= 2
+          ? 'maxBytes'
+          : undefined;
+    if (exhausted) {
+      return {
+        rows: [],
+        truncated: rows.length > 0,
+        totalRows: rows.length,
+        returnedRows: 0,
+        truncatedCells: 0,
+        ...(rows.length > 0 && { reason: exhausted }),
+      };
+    }
+
+    const result = applyResultBudget(rows, { ...budget, maxRows: rowsLeft, maxBytes: bytesLeft });
+    if (budget.maxRows > 0) {
+      rowsLeft -= result.returnedRows;
+    }
+    if (budget.maxBytes > 0) {
+      bytesLeft -= Buffer.byteLength(JSON.stringify(result.rows));
+    }
+    return result;
+  });
+}
+
+/**
+ * Keep whole items (e.g. tables of a schema) in order until the byte budget is used up
+ */
+export function applyByteBudget<T>(items: T[], maxBytes: number): BudgetedItems<T> {
+  if (maxBytes <= 0) {
+    return { items, truncated: false, omitted: [] };
+  }
+
+  let bytes = 2;
+  let index = 0;
+  for (; index < items.length; index++) {
+    bytes += Buffer.byteLength(JSON.stringify(items[index])) + 1;
+    if (bytes > maxBytes) {
+      break;
+    }
+  }
+
+  return {
+    items: items.slice(0, index),
+    truncated: index < items.length,
+    omitted: items.slice(index),
+  };
+}
+
+/**
+ * Rough token count of a response, at about 4 characters per token
+ * Good enough to compare formats and decide whether to drill down; not a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Human- and model-readable explanation of why a result was cut short
+ */
+export function describeTruncation(
+  result: BudgetedRows,
+  budget: ResultBudget,
+  hint = 'Add a WHERE clause or LIMIT, select fewer columns, or use pageSize to page through the rest'
+): string {
+  const parts: string[] = [];
+  if (result.returnedRows < result.totalRows) {
+    const limit =
+      result.reason === 'maxBytes' ? `${budget.maxBytes} bytes` : `${budget.maxRows} rows`;
+    parts.push(
+      `showing ${result.returnedRows} of ${result.totalRows} rows (limit: ${limit}). ${hint}`
+    );
+  }
+  if (result.truncatedCells > 0) {
+    parts.push(
+      `${result.truncatedCells} cell value(s) were shortened to ${budget.maxCellLength} characters`
+    );
+  }
+  return `Result truncated: ${parts.join('; ')}`;
+}
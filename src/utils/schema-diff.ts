@@ -0,0 +1,439 @@
+/**
+ * Structural diff between two schemas, e.g. staging vs prod or a database vs a snapshot
+ * Compares tables, columns (type, nullability, default), constraints and indexes,
+ * and can generate the DDL that turns the `from` side into the `to` side
+ */
+
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  IndexInfo,
+  SchemaResult,
+  TableInfo,
+} from '../core/sql-executor';
+import { formatColumnType, formatConstraintText } from './schema-renderer';
+
+export interface ColumnChange {
+  field: 'type' | 'nullable' | 'default';
+  from: string | null;
+  to: string | null;
+}
+
+export interface ChangedColumn {
+  column: string;
+  changes: ColumnChange[];
+}
+
+export interface TableDiff {
+  schema: string;
+  name: string;
+  addedColumns: ColumnInfo[];
+  removedColumns: ColumnInfo[];
+  changedColumns: ChangedColumn[];
+  addedConstraints: ConstraintInfo[];
+  removedConstraints: ConstraintInfo[];
+}
+
+export interface ChangedIndex {
+  from: IndexInfo;
+  to: IndexInfo;
+}
+
+export interface SchemaDiff {
+  hasChanges: boolean;
+  addedTables: TableInfo[];
+  removedTables: TableInfo[];
+  changedTables: TableDiff[];
+  addedIndexes: IndexInfo[];
+  removedIndexes: IndexInfo[];
+  changedIndexes: ChangedIndex[];
+}
+
+function tableKey(table: { schema: string; name: string }): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function byKey<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map(item => [key(item), item]));
+}
+
+// A constraint whose definition changed shows up as removed and added again
+function constraintKey(constraint: ConstraintInfo): string {
+  return `${constraint.constraint_name}|${formatConstraintText(constraint)}`;
+}
+
+function diffColumns(from: ColumnInfo, to: ColumnInfo): ColumnChange[] {
+  const changes: ColumnChange[] = [];
+  if (formatColumnType(from) !== formatColumnType(to)) {
+    changes.push({ field: 'type', from: formatColumnType(from), to: formatColumnType(to) });
+  }
+  if (from.is_nullable !== to.is_nullable) {
+    changes.push({ field: 'nullable', from: from.is_nullable, to: to.is_nullable });
+  }
+  if ((from.column_default ?? null) !== (to.column_default ?? null)) {
+    changes.push({ field: 'default', from: from.column_default, to: to.column_default });
+  }
+  return changes;
+}
+
+function diffTable(from: TableInfo, to: TableInfo): TableDiff | undefined {
+  const fromColumns = byKey(from.columns, col => col.column_name);
+  const toColumns = byKey(to.columns, col => col.column_name);
+
+  const changedColumns: ChangedColumn[] = [];
+  for (const [name, column] of toColumns) {
+    const previous = fromColumns.get(name);
+    const changes = previous ? diffColumns(previous, column) : [];
+    if (changes.length > 0) {
+      changedColumns.push({ column: name, changes });
+    }
+  }
+
+  const fromConstraints = byKey(from.constraints, constraintKey);
+  const toConstraints = byKey(to.constraints, constraintKey);
+
+  const diff: TableDiff = {
+    schema: to.schema,
+    name: to.name,
+    addedColumns: to.columns.filter(col => !fromColumns.has(col.column_name)),
+    removedColumns: from.columns.filter(col => !toColumns.has(col.column_name)),
+    changedColumns,
+    addedConstraints: [...toConstraints].filter(([k]) => !fromConstraints.has(k)).map(([, c]) => c),
+    removedConstraints: [...fromConstraints]
+      .filter(([k]) => !toConstraints.has(k))
+      .map(([, c]) => c),
+  };
+
+  const changed =
+    diff.addedColumns.length +
+    diff.removedColumns.length +
+    diff.changedColumns.length +
+    diff.addedConstraints.length +
+    diff.removedConstraints.length;
+  return changed > 0 ? diff : undefined;
+}
+
+/**
+ * What changed going from `from` to `to`
+ * Indexes are only compared when both sides were loaded with includeIndexes
+ */
+export function diffSchemas(from: SchemaResult, to: SchemaResult): SchemaDiff {
+  const fromTables = byKey(from.tables, tableKey);
+  const toTables = byKey(to.tables, tableKey);
+
+  const changedTables: TableDiff[] = [];
+  for (const [key, table] of toTables) {
+    const previous = fromTables.get(key);
+    const diff = previous && diffTable(previous, table);
+    if (diff) {
+      changedTables.push(diff);
+    }
+  }
+
+  // Indexes backing primary keys and unique constraints are covered by the constraint diff
+  const constraintIndexes = new Set(
+    [...from.tables, ...to.tables].flatMap(table =>
+      table.constraints.map(c => `${table.schema}.${c.constraint_name}`)
+    )
+  );
+  const indexKey = (index: IndexInfo): string => `${index.schema}.${index.name}`;
+  const comparableIndexes = (indexes: IndexInfo[]): IndexInfo[] =>
+    from.indexes && to.indexes
+      ? indexes.filter(index => !constraintIndexes.has(indexKey(index)))
+      : [];
+  const fromIndexes = byKey(comparableIndexes(from.indexes || []), indexKey);
+  const toIndexes = byKey(comparableIndexes(to.indexes || []), indexKey);
+  const changedIndexes: ChangedIndex[] = [];
+  for (const [key, index] of toIndexes) {
+    const previous = fromIndexes.get(key);
+    if (previous && previous.definition !== index.definition) {
+      changedIndexes.push({ from: previous, to: index });
+    }
+  }
+
+  const diff: SchemaDiff = {
+    hasChanges: false,
+    addedTables: to.tables.filter(table => !fromTables.has(tableKey(table))),
+    removedTables: from.tables.filter(table => !toTables.has(tableKey(table))),
+    changedTables,
+    addedIndexes: [...toIndexes.values()].filter(index => !fromIndexes.has(indexKey(index))),
+    removedIndexes: [...fromIndexes.values()].filter(index => !toIndexes.has(indexKey(index))),
+    changedIndexes,
+  };
+  diff.hasChanges =
+    diff.addedTables.length +
+      diff.removedTables.length +
+      diff.changedTables.length +
+      diff.addedIndexes.length +
+      diff.removedIndexes.length +
+      diff.changedIndexes.length >
+    0;
+  return diff;
+}
+
+/**
+ * Quote an identifier unless it is a plain lower-case name
+ */
+export function quoteIdent(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+function columnDefinition(column: ColumnInfo): string {
+  let sql = `${quoteIdent(column.column_name)} ${formatColumnType(column)}`;
+  if (column.column_default) {
+    sql += ` DEFAULT ${column.column_default}`;
+  }
+  if (column.is_nullable === 'NO') {
+    sql += ' NOT NULL';
+  }
+  return sql;
+}
+
+function constraintDefinition(constraint: ConstraintInfo): string {
+  const columns = constraint.columns.map(quoteIdent).join(', ');
+  let sql = `CONSTRAINT ${quoteIdent(constraint.constraint_name)} ${constraint.constraint_type} (${columns})`;
+  if (constraint.constraint_type === 'FOREIGN KEY') {
+    const references = (constraint.referenced_columns || []).map(quoteIdent).join(', ');
+    sql += ` REFERENCES ${qualifiedName(constraint.referenced_schema || 'public', constraint.referenced_table || '')} (${references})`;
+    if (constraint.on_delete && constraint.on_delete !== 'NO ACTION') {
+      sql += ` ON DELETE ${constraint.on_delete}`;
+    }
+    if (constraint.on_update && constraint.on_update !== 'NO ACTION') {
+      sql += ` ON UPDATE ${constraint.on_update}`;
+    }
+  }
+  return sql;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * CREATE TABLE for one table with its keys inline, then COMMENT ON statements and the
+ * `indexes` that do not back a constraint, so the table reads as a single script
+ */
+export function createTableDdl(table: TableInfo, indexes: IndexInfo[] = []): string {
+  const name = qualifiedName(table.schema, table.name);
+  const lines = [
+    ...table.columns.map(columnDefinition),
+    ...table.constraints.map(constraintDefinition),
+  ];
+  const statements = [`CREATE TABLE ${name} (\n  ${lines.join(',\n  ')}\n);`];
+
+  if (table.comment) {
+    statements.push(`COMMENT ON TABLE ${name} IS ${quoteLiteral(table.comment)};`);
+  }
+  for (const column of table.columns) {
+    if (column.comment) {
+      statements.push(
+        `COMMENT ON COLUMN ${name}.${quoteIdent(column.column_name)} IS ${quoteLiteral(column.comment)};`
+      );
+    }
+  }
+
+  const constraintNames = new Set(table.constraints.map(constraint => constraint.constraint_name));
+  for (const index of indexes) {
+    if (
+      index.schema === table.schema &&
+      index.table === table.name &&
+      !index.isPrimary &&
+      !constraintNames.has(index.name)
+    ) {
+      statements.push(`${index.definition};`);
+    }
+  }
+  return statements.join('\n');
+}
+
+// information_schema reports these without the element or type name
+const UNSPECIFIC_TYPES = ['ARRAY', 'USER-DEFINED'];
+
+export interface MigrationDdl {
+  statements: string[];
+  warnings: string[];
+}
+
+/**
+ * DDL that turns the `from` schema into the `to` schema
+ * Statements are ordered so dependencies hold: foreign keys are dropped first and added last.
+ * Review before running: data-dependent changes (type casts, NOT NULL on existing rows) may fail
+ */
+export function generateMigrationDdl(diff: SchemaDiff): MigrationDdl {
+  const warnings: string[] = [];
+  const drops: string[] = [];
+  const creates: string[] = [];
+  const alters: string[] = [];
+  const foreignKeys: string[] = [];
+  const indexes: string[] = [];
+
+  const checkColumn = (table: string, column: ColumnInfo): void => {
+    if (UNSPECIFIC_TYPES.includes(column.data_type) && !column.full_type) {
+      warnings.push(
+        `${table}.${column.column_name} has type ${column.data_type}; replace it with the actual type`
+      );
+    }
+    if (column.column_default?.includes('nextval(')) {
+      warnings.push(
+        `${table}.${column.column_name} defaults to a sequence; create the sequence first or use an identity column`
+      );
+    }
+  };
+
+  const addConstraint = (table: string, constraint: ConstraintInfo): void => {
+    const sql = `ALTER TABLE ${table} ADD ${constraintDefinition(constraint)};`;
+    (constraint.constraint_type === 'FOREIGN KEY' ? foreignKeys : alters).push(sql);
+  };
+
+  // Foreign keys first so referenced tables and keys can be dropped, including the keys of
+  // dropped tables, which may point at each other
+  const removedConstraints = [
+    ...diff.changedTables.flatMap(table =>
+      table.removedConstraints.map(constraint => ({ table, constraint }))
+    ),
+    ...diff.removedTables.flatMap(table =>
+      table.constraints
+        .filter(constraint => constraint.constraint_type === 'FOREIGN KEY')
+        .map(constraint => ({ table, constraint }))
+    ),
+  ];
+  removedConstraints.sort(
+    (a, b) =>
+      Number(b.constraint.constraint_type === 'FOREIGN KEY') -
+      Number(a.constraint.constraint_type === 'FOREIGN KEY')
+  );
+  for (const { table, constraint } of removedConstraints) {
+    drops.push(
+      `ALTER TABLE ${qualifiedName(table.schema, table.name)} DROP CONSTRAINT ${quoteIdent(constraint.constraint_name)};`
+    );
+  }
+
+  for (const index of [...diff.removedIndexes, ...diff.changedIndexes.map(c => c.from)]) {
+    drops.push(`DROP INDEX IF EXISTS ${qualifiedName(index.schema, index.name)};`);
+  }
+
+  for (const table of diff.removedTables) {
+    drops.push(`DROP TABLE ${qualifiedName(table.schema, table.name)};`);
+  }
+
+  for (const table of diff.addedTables) {
+    const name = qualifiedName(table.schema, table.name);
+    table.columns.forEach(column => checkColumn(name, column));
+    const lines = [
+      ...table.columns.map(columnDefinition),
+      ...table.constraints
+        .filter(constraint => constraint.constraint_type !== 'FOREIGN KEY')
+        .map(constraintDefinition),
+    ];
+    creates.push(`CREATE TABLE ${name} (\n  ${lines.join(',\n  ')}\n);`);
+    table.constraints
+      .filter(constraint => constraint.constraint_type === 'FOREIGN KEY')
+      .forEach(constraint => addConstraint(name, constraint));
+  }
+
+  for (const table of diff.changedTables) {
+    const name = qualifiedName(table.schema, table.name);
+    for (const column of table.addedColumns) {
+      checkColumn(name, column);
+      alters.push(`ALTER TABLE ${name} ADD COLUMN ${columnDefinition(column)};`);
+    }
+    for (const { column, changes } of table.changedColumns) {
+      const target = `ALTER TABLE ${name} ALTER COLUMN ${quoteIdent(column)}`;
+      // The old default may not cast to the new type: drop it first, set the new one after
+      const retyped = changes.some(change => change.field === 'type');
+      const oldDefault = changes.find(change => change.field === 'default')?.from;
+      if (retyped && oldDefault) {
+        alters.push(`${target} DROP DEFAULT;`);
+      }
+      for (const change of changes) {
+        if (change.field === 'type') {
+          // Without USING, types with no implicit cast (text to integer) fail
+          alters.push(`${target} TYPE ${change.to} USING ${quoteIdent(column)}::${change.to};`);
+        } else if (change.field === 'nullable') {
+          alters.push(`${target} ${change.to === 'NO' ? 'SET' : 'DROP'} NOT NULL;`);
+        } else if (change.to) {
+          alters.push(`${target} SET DEFAULT ${change.to};`);
+        } else if (!retyped) {
+          alters.push(`${target} DROP DEFAULT;`);
+        }
+      }
+    }
+    for (const column of table.removedColumns) {
+      alters.push(`ALTER TABLE ${name} DROP COLUMN ${quoteIdent(column.column_name)};`);
+    }
+    table.addedConstraints.forEach(constraint => addConstraint(name, constraint));
+  }
+
+  for (const index of [...diff.addedIndexes, ...diff.changedIndexes.map(c => c.to)]) {
+    indexes.push(`${index.definition};`);
+  }
+
+  return {
+    statements: [...drops, ...creates, ...alters, ...foreignKeys, ...indexes],
+    warnings,
+  };
+}
+
+function columnSummary(column: ColumnInfo): string {
+  const nullable = column.is_nullable === 'YES' ? ' (nullable)' : '';
+  const defaultVal = column.column_default ? ` DEFAULT ${column.column_default}` : '';
+  return `${column.column_name} ${formatColumnType(column)}${nullable}${defaultVal}`;
+}
+
+/**
+ * Plain-text rendering of a schema diff for the CLI and text-mode MCP responses
+ * "+" is only in `to`, "-" only in `from`, "~" changed
+ */
+export function formatSchemaDiffText(diff: SchemaDiff): string {
+  if (!diff.hasChanges) {
+    return 'No differences\n';
+  }
+
+  let text = '';
+  for (const table of diff.addedTables) {
+    text += `+ table ${tableKey(table)}\n`;
+    for (const column of table.columns) {
+      text += `    + column ${columnSummary(column)}\n`;
+    }
+  }
+  for (const table of diff.removedTables) {
+    text += `- table ${tableKey(table)}\n`;
+  }
+  for (const table of diff.changedTables) {
+    text += `~ table ${tableKey(table)}\n`;
+    for (const column of table.addedColumns) {
+      text += `    + column ${columnSummary(column)}\n`;
+    }
+    for (const column of table.removedColumns) {
+      text += `    - column ${column.column_name}\n`;
+    }
+    for (const { column, changes } of table.changedColumns) {
+      const details = changes.map(
+        change => `${change.field} ${change.from ?? 'none'} → ${change.to ?? 'none'}`
+      );
+      text += `    ~ column ${column}: ${details.join('; ')}\n`;
+    }
+    for (const constraint of table.addedConstraints) {
+      text += `    + constraint ${constraint.constraint_name}: ${formatConstraintText(constraint)}\n`;
+    }
+    for (const constraint of table.removedConstraints) {
+      text += `    - constraint ${constraint.constraint_name}: ${formatConstraintText(constraint)}\n`;
+    }
+  }
+  for (const index of diff.addedIndexes) {
+    text += `+ index ${index.definition}\n`;
+  }
+  for (const index of diff.removedIndexes) {
+    text += `- index ${index.schema}.${index.name}\n`;
+  }
+  for (const change of diff.changedIndexes) {
+    text += `~ index ${change.to.schema}.${change.to.name}: ${change.from.definition} → ${change.to.definition}\n`;
+  }
+
+  text += `\nTables: ${diff.addedTables.length} added, ${diff.removedTables.length} removed, ${diff.changedTables.length} changed\n`;
+  return text;
+}
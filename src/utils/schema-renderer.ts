@@ -0,0 +1,549 @@
+/**
+ * Rendering of schema introspection results, shared by the CLI and the MCP tools
+ * Supports plain text, JSON, markdown and a compact one-line-per-table format
+ */
+
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  GrantInfo,
+  MissingTableInfo,
+  PermissionCheck,
+  PolicyInfo,
+  RowSecurityInfo,
+  SchemaObjects,
+  SchemaOptions,
+  SchemaResult,
+  TableInfo,
+  TableSummary,
+} from '../core/sql-executor';
+
+// CLI --include names mapped to the schema options they enable
+export const SCHEMA_OBJECT_KINDS: Record<string, keyof SchemaOptions> = {
+  views: 'includeViews',
+  matviews: 'includeMaterializedViews',
+  types: 'includeTypes',
+  functions: 'includeFunctions',
+  indexes: 'includeIndexes',
+  triggers: 'includeTriggers',
+  sequences: 'includeSequences',
+  policies: 'includePolicies',
+  grants: 'includeGrants',
+};
+
+/**
+ * Turn a comma-separated list like "views,indexes" (or "all") into schema options
+ * Unknown kinds are returned separately so the caller can report them
+ */
+export function parseSchemaInclude(include: string): {
+  options: SchemaOptions;
+  unknown: string[];
+} {
+  const options: SchemaOptions = {};
+  const unknown: string[] = [];
+  const kinds = include
+    .split(',')
+    .map(kind => kind.trim().toLowerCase())
+    .filter(kind => kind.length > 0);
+
+  for (const kind of kinds) {
+    if (kind === 'all') {
+      for (const option of Object.values(SCHEMA_OBJECT_KINDS)) {
+        options[option] = true;
+      }
+    } else if (SCHEMA_OBJECT_KINDS[kind]) {
+      options[SCHEMA_OBJECT_KINDS[kind]] = true;
+    } else {
+      unknown.push(kind);
+    }
+  }
+  return { options, unknown };
+}
+
+/**
+ * One constraint per line, e.g. "FOREIGN KEY: author_id → public.users(id) ON DELETE CASCADE"
+ * Composite keys are shown in parentheses; default NO ACTION rules are left out
+ */
+export function formatConstraintText(constraint: ConstraintInfo): string {
+  const columnList = (columns: string[] = []): string =>
+    columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+
+  let text = `${constraint.constraint_type}: ${columnList(constraint.columns)}`;
+  if (constraint.constraint_type === 'FOREIGN KEY') {
+    const references = constraint.referenced_columns || [];
+    text += ` → ${constraint.referenced_schema}.${constraint.referenced_table}(${references.join(', ')})`;
+    if (constraint.on_delete && constraint.on_delete !== 'NO ACTION') {
+      text += ` ON DELETE ${constraint.on_delete}`;
+    }
+    if (constraint.on_update && constraint.on_update !== 'NO ACTION') {
+      text += ` ON UPDATE ${constraint.on_update}`;
+    }
+  }
+  return text;
+}
+
+/**
+ * A policy in CREATE POLICY terms, e.g.
+ * 'POLICY "Own posts" ON public.posts FOR UPDATE TO authenticated USING ((user_id = auth.uid()))'
+ */
+export function formatPolicyText(schema: string, table: string, policy: PolicyInfo): string {
+  let text = `POLICY "${policy.name}" ON ${schema}.${table}`;
+  if (!policy.permissive) {
+    text += ' AS RESTRICTIVE';
+  }
+  text += ` FOR ${policy.command} TO ${policy.roles.join(', ')}`;
+  if (policy.using) {
+    text += ` USING (${policy.using})`;
+  }
+  if (policy.withCheck) {
+    text += ` WITH CHECK (${policy.withCheck})`;
+  }
+  return text;
+}
+
+/**
+ * Row level security status of a table, e.g. "public.posts: RLS enabled, forced"
+ */
+export function formatRowSecurityText(info: RowSecurityInfo): string {
+  if (!info.enabled) {
+    return `${info.schema}.${info.table}: RLS disabled`;
+  }
+  let text = `${info.schema}.${info.table}: RLS enabled${info.forced ? ', forced' : ''}`;
+  if (info.policies.length === 0) {
+    text += info.forced
+      ? ', no policies (every row is hidden)'
+      : ', no policies (every row is hidden from all but the owner)';
+  }
+  return text;
+}
+
+/**
+ * What one role was granted on a table, e.g. "public.posts TO authenticated: SELECT, UPDATE (title, body)"
+ */
+export function formatGrantText(grant: GrantInfo): string {
+  const byPrivilege = new Map<string, string[]>();
+  for (const [column, privileges] of Object.entries(grant.columns || {})) {
+    for (const privilege of privileges) {
+      byPrivilege.set(privilege, [...(byPrivilege.get(privilege) || []), column]);
+    }
+  }
+  const parts = [
+    ...grant.privileges,
+    ...[...byPrivilege].map(([privilege, columns]) => `${privilege} (${columns.join(', ')})`),
+  ];
+  return `${grant.schema}.${grant.table} TO ${grant.grantee}: ${parts.join(', ')}`;
+}
+
+/**
+ * Answer to "can role X do Y on table Z", with the policies that limit the rows when RLS applies
+ */
+export function formatPermissionText(check: PermissionCheck): string {
+  const target = `${check.schema}.${check.table}${check.column ? `.${check.column}` : ''}`;
+  let text: string;
+  switch (check.access) {
+    case 'denied':
+      text = `NO: ${check.role} does not have ${check.privilege} on ${target}\n`;
+      break;
+    case 'none':
+      text = `NO ROWS: ${check.role} has ${check.privilege} on ${target}, but row level security is enabled and no policy for ${check.privilege} applies to it\n`;
+      break;
+    case 'policies':
+      text = `YES: ${check.role} can ${check.privilege} ${target}, limited by row level security\n`;
+      break;
+    default: {
+      const reasons = [
+        check.superuser && 'superuser',
+        check.owner && 'owner',
+        check.rowSecurity.enabled && check.rowSecurity.bypassed && 'bypasses row level security',
+      ].filter(Boolean);
+      text = `YES: ${check.role} can ${check.privilege} ${target}${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}\n`;
+    }
+  }
+  for (const policy of check.access === 'denied' ? [] : check.rowSecurity.policies) {
+    text += `  ${formatPolicyText(check.schema, check.table, policy)}\n`;
+  }
+  return text;
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map(line => `${prefix}${line}`)
+    .join('\n');
+}
+
+/**
+ * One line per type, function, index, trigger, sequence, policy and grant, by section title
+ * A section is undefined when its object kind wasn't requested
+ */
+function objectListSections(objects: SchemaObjects): [string, string[] | undefined][] {
+  return [
+    [
+      'Types',
+      objects.types?.map(type => {
+        let detail = '';
+        if (type.labels) {
+          detail = ` (${type.labels.map(label => `'${label}'`).join(', ')})`;
+        } else if (type.attributes) {
+          detail = ` (${type.attributes.map(attr => `${attr.name} ${attr.type}`).join(', ')})`;
+        } else if (type.baseType) {
+          detail = ` over ${type.baseType}`;
+        }
+        return `${type.schema}.${type.name}: ${type.kind}${detail}`;
+      }),
+    ],
+    [
+      'Functions',
+      objects.functions?.map(fn => {
+        const returns = fn.returnType ? ` RETURNS ${fn.returnType}` : '';
+        return `${fn.kind} ${fn.schema}.${fn.name}(${fn.arguments})${returns} [${fn.language}, ${fn.volatility}]`;
+      }),
+    ],
+    ['Indexes', objects.indexes?.map(index => index.definition)],
+    [
+      'Triggers',
+      objects.triggers?.map(
+        trigger => `${trigger.definition}${trigger.enabled ? '' : ' (disabled)'}`
+      ),
+    ],
+    [
+      'Sequences',
+      objects.sequences?.map(seq => {
+        const owned = seq.ownedBy ? `, owned by ${seq.ownedBy}` : '';
+        const cycle = seq.cycle ? ', cycle' : '';
+        return `${seq.schema}.${seq.name}: ${seq.dataType} start ${seq.startValue} increment ${seq.increment} range ${seq.minValue}..${seq.maxValue}${cycle}${owned}`;
+      }),
+    ],
+    [
+      'Row level security',
+      objects.rowSecurity?.flatMap(info => [
+        formatRowSecurityText(info),
+        ...info.policies.map(policy => formatPolicyText(info.schema, info.table, policy)),
+      ]),
+    ],
+    ['Grants', objects.grants?.map(formatGrantText)],
+  ];
+}
+
+/**
+ * Views, types, functions, indexes, triggers and sequences as plain text
+ * Sections are only rendered for object kinds that were requested
+ */
+export function formatSchemaObjectsText(objects: SchemaObjects): string {
+  let text = '';
+
+  const viewSections: [string, SchemaObjects['views']][] = [
+    ['VIEWS', objects.views],
+    ['MATERIALIZED VIEWS', objects.materializedViews],
+  ];
+  for (const [title, views] of viewSections) {
+    if (!views) continue;
+    text += `${title}:\n`;
+    if (views.length === 0) text += '  (none)\n';
+    for (const view of views) {
+      const populated = view.populated === false ? ' (not populated)' : '';
+      text += `👁  ${view.schema}.${view.name}${populated}\n`;
+      text += '  Columns:\n';
+      for (const col of view.columns) {
+        text += `    - ${col.column_name}: ${col.data_type}\n`;
+      }
+      text += '  Definition:\n';
+      text += `${indent(view.definition || '', '    ')}\n`;
+    }
+    text += '\n';
+  }
+
+  for (const [title, lines] of objectListSections(objects)) {
+    if (!lines) continue;
+    text += `${title.toUpperCase()}:\n`;
+    text += lines.length > 0 ? lines.map(line => `  - ${line}\n`).join('') : '  (none)\n';
+    text += '\n';
+  }
+
+  return text;
+}
+
+export type SchemaFormat = 'text' | 'json' | 'markdown' | 'compact';
+
+export const SCHEMA_FORMATS: SchemaFormat[] = ['text', 'json', 'markdown', 'compact'];
+
+/**
+ * Render a schema in any supported format; every schema consumer goes through here
+ */
+export function renderSchema(schema: SchemaResult, format: SchemaFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(schema, null, 2);
+    case 'markdown':
+      return formatSchemaMarkdown(schema);
+    case 'compact':
+      return formatSchemaCompact(schema);
+    default:
+      return formatSchemaText(schema);
+  }
+}
+
+/**
+ * One line per table, e.g. "public.users ~12000 rows, 8 columns"
+ */
+export function formatTableSummaryText(tables: TableSummary[]): string {
+  if (tables.length === 0) {
+    return 'No tables found\n';
+  }
+  return `${tables
+    .map(table => {
+      const rows = table.rowEstimate === null ? 'rows unknown' : `~${table.rowEstimate} rows`;
+      return `${table.schema}.${table.name} ${rows}, ${table.columnCount} columns`;
+    })
+    .join('\n')}\n`;
+}
+
+export function formatColumnType(column: ColumnInfo): string {
+  if (column.full_type) {
+    return column.full_type;
+  }
+  return column.character_maximum_length
+    ? `${column.data_type}(${column.character_maximum_length})`
+    : column.data_type;
+}
+
+/**
+ * Byte count in the style of pg_size_pretty: "812 bytes", "64 kB", "1350 MB"
+ */
+export function formatByteSize(bytes: number): string {
+  const units = ['bytes', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 10 * 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value)} ${units[unit]}`;
+}
+
+/**
+ * Scale of a table, e.g. "~1200 rows, 64 kB total, 16 kB indexes"; empty when nothing is known
+ */
+export function formatTableStats(table: TableInfo): string {
+  const parts: string[] = [];
+  if (table.rowEstimate !== undefined) {
+    parts.push(`~${table.rowEstimate} rows`);
+  }
+  if (table.totalBytes !== undefined) {
+    parts.push(`${formatByteSize(table.totalBytes)} total`);
+  }
+  if (table.indexBytes !== undefined) {
+    parts.push(`${formatByteSize(table.indexBytes)} indexes`);
+  }
+  return parts.join(', ');
+}
+
+function missingTableHint(missing: MissingTableInfo): string {
+  return missing.suggestions.length > 0
+    ? ` (Did you mean: ${missing.suggestions.join(', ')}?)`
+    : '';
+}
+
+export function formatSchemaText(schema: SchemaResult): string {
+  let text = 'DATABASE SCHEMA:\n\n';
+
+  for (const table of schema.tables) {
+    const stats = formatTableStats(table);
+    text += `📋 ${table.schema}.${table.name}${stats ? ` (${stats})` : ''}\n`;
+    if (table.comment) {
+      text += `  ${table.comment}\n`;
+    }
+    text += '  Columns:\n';
+    for (const col of table.columns) {
+      const nullable = col.is_nullable === 'YES' ? ' (nullable)' : '';
+      const defaultVal = col.column_default ? ` DEFAULT ${col.column_default}` : '';
+      const comment = col.comment ? ` -- ${col.comment}` : '';
+      text += `    - ${col.column_name}: ${formatColumnType(col)}${nullable}${defaultVal}${comment}\n`;
+    }
+
+    if (table.constraints.length > 0) {
+      text += '  Constraints:\n';
+      for (const constraint of table.constraints) {
+        text += `    - ${formatConstraintText(constraint)}\n`;
+      }
+    }
+    text += '\n';
+  }
+
+  if (schema.missingTables && schema.missingTables.length > 0) {
+    text += '❌ TABLES NOT FOUND:\n';
+    for (const missing of schema.missingTables) {
+      text += `  - "${missing.table_name}"${missingTableHint(missing)}\n`;
+    }
+    text += '\n';
+  }
+
+  return text + formatSchemaObjectsText(schema);
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function formatSchemaMarkdown(schema: SchemaResult): string {
+  let text = '# Database schema\n\n';
+
+  for (const table of schema.tables) {
+    const stats = formatTableStats(table);
+    // The comment column only appears for tables that have column comments
+    const withComments = table.columns.some(col => col.comment);
+    text += `## ${table.schema}.${table.name}\n\n`;
+    if (table.comment) {
+      text += `${table.comment}\n\n`;
+    }
+    if (stats) {
+      text += `_${stats}_\n\n`;
+    }
+    text += `| Column | Type | Nullable | Default |${withComments ? ' Comment |' : ''}\n`;
+    text += `| --- | --- | --- | --- |${withComments ? ' --- |' : ''}\n`;
+    for (const col of table.columns) {
+      const nullable = col.is_nullable === 'YES' ? 'yes' : 'no';
+      const defaultVal = col.column_default ? `\`${markdownCell(col.column_default)}\`` : '';
+      const comment = withComments ? ` ${markdownCell(col.comment || '')} |` : '';
+      text += `| ${col.column_name} | ${markdownCell(formatColumnType(col))} | ${nullable} | ${defaultVal} |${comment}\n`;
+    }
+    if (table.constraints.length > 0) {
+      text += '\n**Constraints**\n\n';
+      for (const constraint of table.constraints) {
+        text += `- ${formatConstraintText(constraint)}\n`;
+      }
+    }
+    text += '\n';
+  }
+
+  if (schema.missingTables && schema.missingTables.length > 0) {
+    text += '## Tables not found\n\n';
+    for (const missing of schema.missingTables) {
+      text += `- \`${missing.table_name}\`${missingTableHint(missing)}\n`;
+    }
+    text += '\n';
+  }
+
+  const viewSections: [string, SchemaObjects['views']][] = [
+    ['Views', schema.views],
+    ['Materialized views', schema.materializedViews],
+  ];
+  for (const [title, views] of viewSections) {
+    if (!views) continue;
+    text += `## ${title}\n\n`;
+    if (views.length === 0) text += '_None_\n\n';
+    for (const view of views) {
+      const columns = view.columns.map(col => `${col.column_name} ${col.data_type}`).join(', ');
+      text += `### ${view.schema}.${view.name}\n\n`;
+      text += `Columns: ${columns}\n\n`;
+      text += `\`\`\`sql\n${(view.definition || '').trim()}\n\`\`\`\n\n`;
+    }
+  }
+
+  for (const [title, lines] of objectListSections(schema)) {
+    if (!lines) continue;
+    text += `## ${title}\n\n`;
+    text += lines.length > 0 ? lines.map(line => `- ${line}\n`).join('') : '_None_\n';
+    text += '\n';
+  }
+
+  return text;
+}
+
+/**
+ * One line per table with the least punctuation that keeps it unambiguous
+ * "?" marks nullable columns; single-column keys are flagged inline, composite ones trail the line,
+ * followed by the row estimate and table comment. Column comments are left out to save tokens
+ */
+export function formatSchemaCompact(schema: SchemaResult): string {
+  const lines: string[] = [];
+
+  for (const table of schema.tables) {
+    const flags = new Map<string, string[]>();
+    const trailing: string[] = [];
+    for (const constraint of table.constraints) {
+      const columns = constraint.columns || [];
+      let flag: string;
+      if (constraint.constraint_type === 'FOREIGN KEY') {
+        const references = constraint.referenced_columns || [];
+        flag = `→${constraint.referenced_schema}.${constraint.referenced_table}(${references.join(',')})`;
+      } else {
+        flag = constraint.constraint_type === 'PRIMARY KEY' ? 'PK' : 'UQ';
+      }
+      if (columns.length === 1) {
+        flags.set(columns[0], [...(flags.get(columns[0]) || []), flag]);
+      } else {
+        const name = constraint.constraint_type === 'FOREIGN KEY' ? 'FK' : flag;
+        trailing.push(
+          `${name}(${columns.join(',')})${constraint.constraint_type === 'FOREIGN KEY' ? flag : ''}`
+        );
+      }
+    }
+
+    const columns = table.columns.map(col => {
+      const nullable = col.is_nullable === 'YES' ? '?' : '';
+      const colFlags = flags.get(col.column_name);
+      return `${col.column_name} ${formatColumnType(col)}${nullable}${colFlags ? ` ${colFlags.join(' ')}` : ''}`;
+    });
+    if (table.rowEstimate !== undefined) {
+      trailing.push(`~${table.rowEstimate} rows`);
+    }
+    lines.push(
+      `${table.schema}.${table.name}(${columns.join(', ')})${trailing.length > 0 ? ` ${trailing.join(' ')}` : ''}${table.comment ? ` -- ${table.comment}` : ''}`
+    );
+  }
+
+  for (const missing of schema.missingTables || []) {
+    lines.push(`missing ${missing.table_name}${missingTableHint(missing)}`);
+  }
+
+  for (const view of schema.views || []) {
+    lines.push(
+      `view ${view.schema}.${view.name}(${view.columns.map(c => c.column_name).join(', ')})`
+    );
+  }
+  for (const view of schema.materializedViews || []) {
+    lines.push(
+      `matview ${view.schema}.${view.name}(${view.columns.map(c => c.column_name).join(', ')})`
+    );
+  }
+  for (const type of schema.types || []) {
+    const detail = type.labels
+      ? type.labels.join('|')
+      : type.attributes
+        ? type.attributes.map(attr => `${attr.name} ${attr.type}`).join(', ')
+        : type.baseType || '';
+    lines.push(`${type.kind} ${type.schema}.${type.name}(${detail})`);
+  }
+  for (const fn of schema.functions || []) {
+    lines.push(
+      `${fn.kind} ${fn.schema}.${fn.name}(${fn.arguments})${fn.returnType ? ` → ${fn.returnType}` : ''}`
+    );
+  }
+  for (const index of schema.indexes || []) {
+    lines.push(index.definition.replace(/^CREATE /, '').replace(/ USING btree/, ''));
+  }
+  for (const trigger of schema.triggers || []) {
+    lines.push(trigger.definition.replace(/^CREATE /, ''));
+  }
+  for (const seq of schema.sequences || []) {
+    lines.push(
+      `sequence ${seq.schema}.${seq.name}${seq.ownedBy ? ` owned by ${seq.ownedBy}` : ''}`
+    );
+  }
+  for (const info of schema.rowSecurity || []) {
+    // Tables without RLS and policies are the default, so they are left out here
+    if (info.enabled || info.policies.length > 0) {
+      lines.push(formatRowSecurityText(info));
+    }
+    for (const policy of info.policies) {
+      lines.push(formatPolicyText(info.schema, info.table, policy));
+    }
+  }
+  for (const grant of schema.grants || []) {
+    lines.push(`grant ${formatGrantText(grant)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
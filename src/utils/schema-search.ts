@@ -0,0 +1,284 @@
+/**
+ * Fuzzy search over table names, column names, types and comments
+ * A term such as "invoice due date" is split into words and each word is matched against
+ * the words of every name, so it finds invoices.due_at as well as payments.due_date
+ */
+
+import type { CatalogEntry, SchemaResult } from '../core/sql-executor';
+
+export type SearchField = 'table' | 'column' | 'type' | 'comment';
+
+export interface SchemaSearchHit {
+  kind: 'table' | 'column';
+  schema: string;
+  table: string;
+  tableKind: CatalogEntry['kind'];
+  column?: string;
+  type?: string;
+  comment?: string;
+  score: number; // 0..1, higher is better
+  matched: SearchField[]; // Where the term's words were found
+}
+
+export interface SchemaSearchOptions {
+  schemas?: string[]; // Only search these schemas
+  limit?: number; // Maximum hits (default 20)
+}
+
+const DEFAULT_LIMIT = 20;
+const MIN_SCORE = 0.3;
+// Matching every word still ranks below a name that is exactly the term: email before customer_email
+const WORD_MATCH_CAP = 0.95;
+
+// How much a match in each place counts; the table name only gives context to a column hit
+const COLUMN_WEIGHTS: [SearchField, number][] = [
+  ['column', 1],
+  ['comment', 0.8],
+  ['table', 0.6],
+  ['type', 0.5],
+];
+const TABLE_WEIGHTS: [SearchField, number][] = [
+  ['table', 1],
+  ['comment', 0.8],
+];
+
+/**
+ * Lowercase words of a name or phrase: "invoiceDueDate", "invoice_due_date" and
+ * "Invoice due date" all give invoice, due, date. A plural "s" is dropped
+ */
+export function searchWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(word =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+    );
+}
+
+// Edit distance counting a swap of two neighbouring letters as one edit, so "emial" is close to "email"
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Similarity of two words: 1 when equal, 0.9 when one starts the other (three letters or more),
+ * less for near misses such as typos, 0 otherwise
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return 0.9;
+  }
+  if (shorter.length >= 4) {
+    const similarity = 1 - editDistance(a, b) / longer.length;
+    if (similarity >= 0.75) {
+      return similarity * 0.8;
+    }
+  }
+  return 0;
+}
+
+// Words run together, so "Due date", "dueDates" and "due_date" compare equal
+function compact(text: string): string {
+  return searchWords(text).join('');
+}
+
+/**
+ * Score a set of fields against the term: each term word takes its best weighted match,
+ * and the score is the average over the words, capped below an exact match.
+ * A field equal to the whole term scores its weight, one containing it 0.9 times that
+ */
+function scoreFields(
+  term: string,
+  words: string[],
+  fields: Partial<Record<SearchField, string>>,
+  weights: [SearchField, number][]
+): { score: number; matched: SearchField[] } {
+  const matched = new Set<SearchField>();
+  let total = 0;
+  for (const word of words) {
+    let best = 0;
+    let bestField: SearchField | undefined;
+    for (const [field, weight] of weights) {
+      const value = fields[field];
+      if (!value) continue;
+      for (const candidate of searchWords(value)) {
+        const similarity = wordSimilarity(word, candidate) * weight;
+        if (similarity > best) {
+          best = similarity;
+          bestField = field;
+        }
+      }
+    }
+    total += best;
+    if (bestField) {
+      matched.add(bestField);
+    }
+  }
+  let score = Math.min(total / words.length, WORD_MATCH_CAP);
+
+  const whole = compact(term);
+  for (const [field, weight] of weights) {
+    const value = fields[field];
+    if (!value || whole.length < 3) continue;
+    const target = compact(value);
+    const phrase = target === whole ? 1 : target.includes(whole) ? 0.9 : 0;
+    if (phrase * weight > score) {
+      score = phrase * weight;
+      matched.add(field);
+    }
+  }
+  return { score, matched: weights.map(([field]) => field).filter(field => matched.has(field)) };
+}
+
+/**
+ * Ranked tables and columns matching a term; a column only matches on its own name,
+ * type or comment, with its table's name raising the score
+ */
+export function searchSchema(
+  catalog: CatalogEntry[],
+  term: string,
+  options: SchemaSearchOptions = {}
+): SchemaSearchHit[] {
+  const words = searchWords(term);
+  if (words.length === 0) {
+    throw new Error('Search term must contain letters or digits');
+  }
+
+  const hits: SchemaSearchHit[] = [];
+  for (const entry of catalog) {
+    if (options.schemas && !options.schemas.includes(entry.schema)) {
+      continue;
+    }
+    const context = { schema: entry.schema, table: entry.name, tableKind: entry.kind };
+
+    const table = scoreFields(
+      term,
+      words,
+      { table: entry.name, comment: entry.comment || undefined },
+      TABLE_WEIGHTS
+    );
+    if (table.score >= MIN_SCORE) {
+      hits.push({
+        kind: 'table',
+        ...context,
+        ...(entry.comment && { comment: entry.comment }),
+        score: table.score,
+        matched: table.matched,
+      });
+    }
+
+    for (const column of entry.columns) {
+      const result = scoreFields(
+        term,
+        words,
+        {
+          column: column.column_name,
+          comment: column.comment || undefined,
+          table: entry.name,
+          type: column.data_type,
+        },
+        COLUMN_WEIGHTS
+      );
+      if (result.score >= MIN_SCORE && result.matched.some(field => field !== 'table')) {
+        hits.push({
+          kind: 'column',
+          ...context,
+          column: column.column_name,
+          type: column.data_type,
+          ...(column.comment && { comment: column.comment }),
+          score: result.score,
+          matched: result.matched,
+        });
+      }
+    }
+  }
+
+  return hits
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(a.kind === 'column') - Number(b.kind === 'column') ||
+        `${a.schema}.${a.table}.${a.column || ''}`.localeCompare(
+          `${b.schema}.${b.table}.${b.column || ''}`
+        )
+    )
+    .slice(0, options.limit ?? DEFAULT_LIMIT)
+    .map(hit => ({ ...hit, score: Math.round(hit.score * 100) / 100 }));
+}
+
+/**
+ * Search catalog from a schema introspection result, e.g. a snapshot; views carry no comments there
+ */
+export function catalogFromSchema(schema: SchemaResult): CatalogEntry[] {
+  const columns = (list: { column_name: string; data_type: string }[]): CatalogEntry['columns'] =>
+    list.map(column => ({
+      column_name: column.column_name,
+      data_type: column.data_type,
+      comment: null,
+    }));
+  return [
+    ...schema.tables.map(table => ({
+      schema: table.schema,
+      name: table.name,
+      kind: 'table' as const,
+      comment: table.comment || null,
+      columns: table.columns.map(column => ({
+        column_name: column.column_name,
+        data_type: column.full_type || column.data_type,
+        comment: column.comment || null,
+      })),
+    })),
+    ...(schema.views || []).map(view => ({
+      schema: view.schema,
+      name: view.name,
+      kind: 'view' as const,
+      comment: null,
+      columns: columns(view.columns),
+    })),
+    ...(schema.materializedViews || []).map(view => ({
+      schema: view.schema,
+      name: view.name,
+      kind: 'materialized view' as const,
+      comment: null,
+      columns: columns(view.columns),
+    })),
+  ];
+}
+
+/**
+ * One hit per line: "0.87 column public.invoices.due_at timestamp with time zone -- Payment deadline"
+ */
+export function formatSearchResultsText(term: string, hits: SchemaSearchHit[]): string {
+  if (hits.length === 0) {
+    return `No tables or columns match "${term}"\n`;
+  }
+  const lines = hits.map(hit => {
+    const name =
+      hit.kind === 'column'
+        ? `column ${hit.schema}.${hit.table}.${hit.column} ${hit.type}`
+        : `${hit.tableKind} ${hit.schema}.${hit.table}`;
+    return `${hit.score.toFixed(2)} ${name}${hit.comment ? ` -- ${hit.comment}` : ''}`;
+  });
+  return `${lines.join('\n')}\n`;
+}
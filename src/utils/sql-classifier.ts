@@ -0,0 +1,187 @@
+/**
+ * Statement classification for read-only mode
+ * Decides, statement by statement, whether SQL can run without modifying data
+ */
+
+import { SqlStatement, SqlToken, splitSqlStatements } from './sql-splitter';
+
+export interface StatementClassification {
+  index: number;
+  command: string;
+  statement: string;
+  readOnly: boolean;
+  reason?: string;
+}
+
+const DML_KEYWORDS = ['INSERT', 'UPDATE', 'DELETE', 'MERGE'];
+const EXPLAIN_OPTIONS = ['ANALYZE', 'ANALYSE', 'VERBOSE'];
+
+/**
+ * Raised when a statement is rejected because read-only mode is enabled
+ */
+export class ReadOnlyViolationError extends Error {
+  public readonly code = 'READ_ONLY_VIOLATION';
+
+  constructor(
+    message: string,
+    public readonly statementIndex: number,
+    public readonly statement: string,
+    public readonly command: string
+  ) {
+    super(message);
+    this.name = 'ReadOnlyViolationError';
+  }
+}
+
+function upper(token: SqlToken | undefined): string {
+  return token && token.type === 'word' ? token.text.toUpperCase() : '';
+}
+
+/**
+ * Look for data-modifying keywords anywhere in the statement
+ * UPDATE is ignored when it is part of a FOR [NO KEY] UPDATE locking clause
+ */
+function findDmlKeyword(tokens: SqlToken[]): string | null {
+  for (let i = 0; i < tokens.length; i++) {
+    const word = upper(tokens[i]);
+    if (!DML_KEYWORDS.includes(word)) {
+      continue;
+    }
+    const previous = upper(tokens[i - 1]);
+    if (word === 'UPDATE' && (previous === 'FOR' || previous === 'KEY')) {
+      continue;
+    }
+    return word;
+  }
+  return null;
+}
+
+/**
+ * SELECT ... INTO creates a new table, so it is not a read
+ */
+function hasTopLevelInto(tokens: SqlToken[], depth: number): boolean {
+  return tokens.some(token => token.depth === depth && upper(token) === 'INTO');
+}
+
+function classifyTokens(tokens: SqlToken[]): {
+  command: string;
+  readOnly: boolean;
+  reason?: string;
+} {
+  // Skip leading parentheses, e.g. "(SELECT 1) UNION (SELECT 2)"
+  let first = 0;
+  while (first < tokens.length && tokens[first].type === 'symbol' && tokens[first].text === '(') {
+    first++;
+  }
+
+  const command = upper(tokens[first]);
+  if (!command) {
+    return { command: 'UNKNOWN', readOnly: false, reason: 'Unrecognized statement' };
+  }
+
+  const baseDepth = tokens[first].depth;
+
+  switch (command) {
+    case 'SELECT':
+    case 'WITH': {
+      const dml = command === 'WITH' ? findDmlKeyword(tokens) : null;
+      if (dml) {
+        return { command, readOnly: false, reason: `WITH query contains ${dml}` };
+      }
+      if (hasTopLevelInto(tokens.slice(first), baseDepth)) {
+        return { command, readOnly: false, reason: 'SELECT INTO creates a table' };
+      }
+      return { command, readOnly: true };
+    }
+
+    case 'SHOW':
+      return { command, readOnly: true };
+
+    case 'EXPLAIN': {
+      // Plain EXPLAIN only plans the statement; EXPLAIN ANALYZE actually runs it
+      let i = first + 1;
+      let analyze = false;
+      if (tokens[i]?.type === 'symbol' && tokens[i].text === '(') {
+        const optionDepth = tokens[i].depth;
+        i++;
+        while (i < tokens.length && !(tokens[i].text === ')' && tokens[i].depth === optionDepth)) {
+          if (upper(tokens[i]) === 'ANALYZE' || upper(tokens[i]) === 'ANALYSE') {
+            // ANALYZE false / off disables it again
+            const value = upper(tokens[i + 1]);
+            analyze = value !== 'FALSE' && value !== 'OFF' && tokens[i + 1]?.text !== '0';
+          }
+          i++;
+        }
+        i++;
+      }
+      while (EXPLAIN_OPTIONS.includes(upper(tokens[i]))) {
+        if (upper(tokens[i]) !== 'VERBOSE') {
+          analyze = true;
+        }
+        i++;
+      }
+
+      if (!analyze) {
+        return { command, readOnly: true };
+      }
+
+      const inner = classifyTokens(tokens.slice(i));
+      if (!inner.readOnly) {
+        return {
+          command,
+          readOnly: false,
+          reason: `EXPLAIN ANALYZE executes the statement: ${inner.reason}`,
+        };
+      }
+      return { command, readOnly: true };
+    }
+
+    default:
+      return {
+        command,
+        readOnly: false,
+        reason: `${command} statements are not allowed in read-only mode`,
+      };
+  }
+}
+
+/**
+ * Classify a single parsed statement
+ */
+export function classifyStatement(statement: SqlStatement): StatementClassification {
+  const { command, readOnly, reason } = classifyTokens(statement.tokens);
+  return {
+    index: statement.index,
+    command,
+    statement: statement.text,
+    readOnly,
+    ...(reason && { reason }),
+  };
+}
+
+/**
+ * Classify every statement in a SQL string
+ */
+export function classifySql(sql: string): StatementClassification[] {
+  return splitSqlStatements(sql).map(classifyStatement);
+}
+
+/**
+ * Throw a ReadOnlyViolationError for the first statement that may modify data
+ */
+export function assertReadOnly(sql: string): void {
+  for (const classification of classifySql(sql)) {
+    if (!classification.readOnly) {
+      const preview =
+        classification.statement.length > 100
+          ? `${classification.statement.slice(0, 100)}...`
+          : classification.statement;
+      throw new ReadOnlyViolationError(
+        `Read-only mode: statement ${classification.index + 1} rejected (${classification.reason}): ${preview}`,
+        classification.index,
+        classification.statement,
+        classification.command
+      );
+    }
+  }
+}
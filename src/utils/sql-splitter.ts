@@ -0,0 +1,244 @@
+/**
+ * Lightweight SQL tokenizer and statement splitter
+ * Understands comments, string literals, quoted identifiers and dollar-quoting
+ * so that semicolons and keywords inside them are never mistaken for SQL
+ */
+
+export type SqlTokenType = 'word' | 'literal' | 'symbol';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+  depth: number; // Parenthesis nesting level
+}
+
+export interface SqlStatement {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  startLine: number; // 1-based line of the first token
+  endLine: number; // 1-based line of the last token
+  tokens: SqlToken[];
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Find the end of a dollar-quote opening tag ($$ or $tag$) starting at `i`
+ * Returns the tag (including both dollars) or null when `i` is not a tag
+ */
+function readDollarTag(sql: string, i: number): string | null {
+  const match = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i, i + 64));
+  return match ? match[0] : null;
+}
+
+/**
+ * Split SQL into tokens, skipping whitespace and comments
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    // Block comment (PostgreSQL allows nesting)
+    if (ch === '/' && next === '*') {
+      let nesting = 1;
+      i += 2;
+      while (i < sql.length && nesting > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          nesting++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          nesting--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    const start = i;
+
+    // String literal, including E'' strings with backslash escapes
+    if (ch === "'") {
+      const prev = tokens[tokens.length - 1];
+      const escapes =
+        prev !== undefined &&
+        prev.end === start &&
+        prev.type === 'word' &&
+        prev.text.toUpperCase() === 'E';
+      i++;
+      while (i < sql.length) {
+        if (escapes && sql[i] === '\\') {
+          i += 2;
+        } else if (sql[i] === "'" && sql[i + 1] === "'") {
+          i += 2;
+        } else if (sql[i] === "'") {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      if (escapes) {
+        // Merge the E prefix into the literal
+        const prefix = tokens.pop() as SqlToken;
+        tokens.push({
+          type: 'literal',
+          text: sql.slice(prefix.start, i),
+          start: prefix.start,
+          end: i,
+          depth,
+        });
+      } else {
+        tokens.push({ type: 'literal', text: sql.slice(start, i), start, end: i, depth });
+      }
+      continue;
+    }
+
+    // Quoted identifier
+    if (ch === '"') {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === '"' && sql[i + 1] === '"') {
+          i += 2;
+        } else if (sql[i] === '"') {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      tokens.push({ type: 'literal', text: sql.slice(start, i), start, end: i, depth });
+      continue;
+    }
+
+    // Dollar-quoted string or positional parameter
+    if (ch === '$') {
+      if (next !== undefined && DIGIT.test(next)) {
+        i++;
+        while (i < sql.length && DIGIT.test(sql[i])) i++;
+        tokens.push({ type: 'literal', text: sql.slice(start, i), start, end: i, depth });
+        continue;
+      }
+
+      const tag = readDollarTag(sql, i);
+      if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        i = close === -1 ? sql.length : close + tag.length;
+        tokens.push({ type: 'literal', text: sql.slice(start, i), start, end: i, depth });
+        continue;
+      }
+    }
+
+    // Keyword or identifier
+    if (WORD_START.test(ch)) {
+      i++;
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      tokens.push({ type: 'word', text: sql.slice(start, i), start, end: i, depth });
+      continue;
+    }
+
+    // Numeric literal
+    if (DIGIT.test(ch) || (ch === '.' && next !== undefined && DIGIT.test(next))) {
+      i++;
+      while (i < sql.length && /[0-9.eE_]/.test(sql[i])) i++;
+      tokens.push({ type: 'literal', text: sql.slice(start, i), start, end: i, depth });
+      continue;
+    }
+
+    // Everything else is a single-character symbol
+    if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+    }
+    tokens.push({ type: 'symbol', text: ch, start, end: i + 1, depth });
+    if (ch === '(') {
+      depth++;
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Split a SQL script into individual statements on top-level semicolons
+ * Empty statements (including comment-only ones) are dropped
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+
+  // Offsets at which each line starts, for offset -> line lookups
+  const lineStarts = [0];
+  for (let i = 0; i < sql.length; i++) {
+    if (sql[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+
+  const flush = (): void => {
+    if (current.length === 0) {
+      return;
+    }
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    statements.push({
+      index: statements.length,
+      text: sql.slice(start, end),
+      start,
+      end,
+      startLine: lineAt(start),
+      endLine: lineAt(end - 1),
+      tokens: current,
+    });
+    current = [];
+  };
+
+  for (const token of tokenizeSql(sql)) {
+    if (token.type === 'symbol' && token.text === ';') {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
@@ -0,0 +1,222 @@
+/**
+ * Per-column data profiles, from planner statistics (pg_stats) or an exact pass over a sample
+ * Meant to show how values are distributed before writing WHERE clauses, without returning rows
+ */
+
+export type SampleMethod = 'system' | 'bernoulli';
+
+export const SAMPLE_METHODS: SampleMethod[] = ['system', 'bernoulli'];
+
+export interface ValueFrequency {
+  value: string;
+  frequency: number; // Share of all rows, 0..1
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: string;
+  nullFraction: number | null; // null when there are no statistics
+  distinct: number | null; // Number of distinct non-null values
+  mostCommon: ValueFrequency[];
+  histogramBounds?: string[]; // Deciles of the values outside mostCommon (pg_stats only)
+  correlation?: number; // Physical vs logical order, -1..1 (pg_stats only)
+  // Numeric and date/time columns only
+  min?: string;
+  max?: string;
+  avg?: string;
+}
+
+export interface TableProfile {
+  schema: string;
+  table: string;
+  rowEstimate: number | null; // From pg_class.reltuples; null if never analyzed
+  source: 'pg_stats' | 'sample';
+  analyzed: boolean; // Whether pg_stats had anything for the table
+  sample?: { method: SampleMethod; percent: number; rows: number };
+  columns: ColumnProfile[];
+  duration: number;
+}
+
+// A column as read from pg_attribute joined with pg_stats
+export interface ColumnStatsRow {
+  column_name: string;
+  data_type: string;
+  category: string; // pg_type.typcategory: N numeric, D date/time, A array, ...
+  null_frac: number | null;
+  n_distinct: number | null;
+  most_common_vals: string[] | null;
+  most_common_freqs: number[] | null;
+  histogram_bounds: string[] | null;
+  correlation: number | null;
+}
+
+// Exact aggregates for one column over the sampled rows
+export interface ColumnSampleRow {
+  nonNull: number;
+  distinct: number;
+  top: { value: string; count: number }[] | null;
+  min?: string | null;
+  max?: string | null;
+  avg?: string | null;
+}
+
+const MAX_VALUE_LENGTH = 200;
+const HISTOGRAM_POINTS = 11;
+
+function shorten(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+/**
+ * Whether min/max/avg make sense: numbers, and dates and timestamps
+ */
+export function isRangeColumn(category: string, dataType: string): boolean {
+  return category === 'N' || (category === 'D' && /^(date|timestamp)/.test(dataType));
+}
+
+function toSortable(value: string, category: string): number {
+  return category === 'N' ? Number(value) : Date.parse(value);
+}
+
+/**
+ * Up to eleven evenly spaced bounds, always keeping the first and last
+ */
+export function thinHistogram(bounds: string[]): string[] {
+  if (bounds.length <= HISTOGRAM_POINTS) {
+    return bounds;
+  }
+  return Array.from(
+    { length: HISTOGRAM_POINTS },
+    (_, i) => bounds[Math.round((i * (bounds.length - 1)) / (HISTOGRAM_POINTS - 1))]
+  );
+}
+
+/**
+ * Profile of one column from pg_stats
+ * n_distinct below zero is a fraction of the row count; min and max are the extremes of the
+ * common values and histogram, and the numeric average weighs common values by their frequency
+ * and the rest by histogram bucket midpoints. All of it is as fresh as the last ANALYZE
+ */
+export function profileColumnFromStats(
+  row: ColumnStatsRow,
+  rowEstimate: number | null,
+  top: number
+): ColumnProfile {
+  const values = row.most_common_vals || [];
+  const freqs = row.most_common_freqs || [];
+  const bounds = row.histogram_bounds || [];
+
+  let distinct: number | null = null;
+  if (row.n_distinct !== null && row.n_distinct >= 0) {
+    distinct = row.n_distinct;
+  } else if (row.n_distinct !== null && rowEstimate !== null) {
+    distinct = Math.round(-row.n_distinct * rowEstimate);
+  }
+
+  const profile: ColumnProfile = {
+    column: row.column_name,
+    type: row.data_type,
+    nullFraction: row.null_frac,
+    distinct,
+    mostCommon: values
+      .slice(0, top)
+      .map((value, i) => ({ value: shorten(value), frequency: freqs[i] })),
+    ...(bounds.length > 0 && { histogramBounds: thinHistogram(bounds).map(shorten) }),
+    ...(row.correlation !== null && { correlation: row.correlation }),
+  };
+
+  if (!isRangeColumn(row.category, row.data_type)) {
+    return profile;
+  }
+  const candidates = [...values, ...bounds].filter(
+    value => !Number.isNaN(toSortable(value, row.category))
+  );
+  if (candidates.length === 0) {
+    return profile;
+  }
+  const sorted = [...candidates].sort(
+    (a, b) => toSortable(a, row.category) - toSortable(b, row.category)
+  );
+  profile.min = sorted[0];
+  profile.max = sorted[sorted.length - 1];
+
+  if (row.category === 'N') {
+    const commonShare = freqs.reduce((sum, freq) => sum + freq, 0);
+    const restShare = bounds.length > 1 ? Math.max(0, 1 - (row.null_frac || 0) - commonShare) : 0;
+    let total = values.reduce((sum, value, i) => sum + Number(value) * freqs[i], 0);
+    if (restShare > 0) {
+      const midpoints = bounds.slice(1).map((bound, i) => (Number(bounds[i]) + Number(bound)) / 2);
+      total += (restShare * midpoints.reduce((sum, mid) => sum + mid, 0)) / midpoints.length;
+    }
+    if (commonShare + restShare > 0 && Number.isFinite(total)) {
+      profile.avg = String(Number((total / (commonShare + restShare)).toPrecision(6)));
+    }
+  }
+  return profile;
+}
+
+/**
+ * Profile of one column from exact aggregates over `rows` sampled rows
+ */
+export function profileColumnFromSample(
+  column: { column_name: string; data_type: string },
+  sample: ColumnSampleRow,
+  rows: number
+): ColumnProfile {
+  return {
+    column: column.column_name,
+    type: column.data_type,
+    nullFraction: rows > 0 ? (rows - sample.nonNull) / rows : null,
+    distinct: sample.distinct,
+    mostCommon: (sample.top || []).map(({ value, count }) => ({
+      value: shorten(value),
+      frequency: rows > 0 ? count / rows : 0,
+    })),
+    ...(sample.min !== undefined && sample.min !== null && { min: sample.min }),
+    ...(sample.max !== undefined && sample.max !== null && { max: sample.max }),
+    ...(sample.avg !== undefined && sample.avg !== null && { avg: sample.avg }),
+  };
+}
+
+function percent(fraction: number): string {
+  const value = fraction * 100;
+  return `${value < 10 && value > 0 ? value.toFixed(1) : Math.round(value)}%`;
+}
+
+/**
+ * One line per column, e.g.
+ * "status text: 0% null, ~4 distinct, top 'paid' 62%, 'pending' 20%"
+ */
+export function formatProfileText(profile: TableProfile): string {
+  const scale = profile.rowEstimate === null ? 'rows unknown' : `~${profile.rowEstimate} rows`;
+  const source = profile.sample
+    ? `exact over a ${profile.sample.percent}% ${profile.sample.method} sample of ${profile.sample.rows} rows`
+    : 'from pg_stats';
+  let text = `PROFILE ${profile.schema}.${profile.table} (${scale}, ${source})\n`;
+  if (!profile.analyzed && !profile.sample) {
+    text += `⚠️  No statistics yet; run ANALYZE ${profile.schema}.${profile.table} or profile a sample\n`;
+  }
+
+  for (const column of profile.columns) {
+    const parts: string[] = [];
+    if (column.nullFraction !== null) {
+      parts.push(`${percent(column.nullFraction)} null`);
+    }
+    if (column.distinct !== null) {
+      parts.push(`${profile.sample ? '' : '~'}${column.distinct} distinct`);
+    }
+    if (column.min !== undefined && column.max !== undefined) {
+      parts.push(`range ${column.min} .. ${column.max}`);
+    }
+    if (column.avg !== undefined) {
+      parts.push(`avg ${column.avg}`);
+    }
+    if (column.mostCommon.length > 0) {
+      parts.push(
+        `top ${column.mostCommon.map(v => `'${v.value}' ${percent(v.frequency)}`).join(', ')}`
+      );
+    }
+    text += `  ${column.column} ${column.type}: ${parts.length > 0 ? parts.join(', ') : 'no statistics'}\n`;
+  }
+  return text;
+}
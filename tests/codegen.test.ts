@@ -0,0 +1,213 @@
+import { ColumnInfo, SchemaResult } from '../src/core/sql-executor';
+import {
+  generateCode,
+  generateJsonSchema,
+  generateTypeScript,
+  generateZod,
+  toTypeName,
+} from '../src/utils/codegen';
+
+function column(name: string, dataType: string, nullable = false, fullType?: string): ColumnInfo {
+  return {
+    column_name: name,
+    data_type: dataType,
+    is_nullable: nullable ? 'YES' : 'NO',
+    column_default: null,
+    character_maximum_length: null,
+    ...(fullType && { full_type: fullType }),
+  };
+}
+
+const schema: SchemaResult = {
+  tables: [
+    {
+      schema: 'public',
+      name: 'user_accounts',
+      columns: [
+        column('id', 'bigint'),
+        column('email', 'character varying'),
+        column('age', 'integer', true),
+        column('balance', 'numeric'),
+        column('mood', 'USER-DEFINED', true, 'mood'),
+        column('tags', 'ARRAY', false, 'text[]'),
+        column('settings', 'jsonb', true),
+        column('created_at', 'timestamp with time zone'),
+        column('avatar', 'bytea', true),
+        column('first-name', 'text'),
+        column('shape', 'USER-DEFINED', true, 'geometry'),
+      ],
+      constraints: [],
+    },
+  ],
+  views: [
+    {
+      schema: 'public',
+      name: 'active_users',
+      definition: 'SELECT id FROM user_accounts',
+      columns: [
+        { column_name: 'id', data_type: 'bigint' },
+        { column_name: 'scores', data_type: 'numeric(10,2)[]' },
+      ],
+    },
+  ],
+  types: [
+    { schema: 'public', name: 'mood', kind: 'enum', labels: ['sad', "it's ok"] },
+    { schema: 'public', name: 'unused', kind: 'enum', labels: ['a'] },
+  ],
+};
+
+describe('Code generation', () => {
+  test('toTypeName should build PascalCase identifiers', () => {
+    expect(toTypeName('user_accounts')).toBe('UserAccounts');
+    expect(toTypeName('order items')).toBe('OrderItems');
+    expect(toTypeName('2fa_codes')).toBe('_2faCodes');
+  });
+
+  describe('generateTypeScript', () => {
+    test('should map columns to TypeScript types', () => {
+      const { code, tables, views, enums } = generateTypeScript(schema);
+
+      expect({ tables, views, enums }).toEqual({ tables: 1, views: 1, enums: 1 });
+      expect(code).toContain(
+        'export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };'
+      );
+      expect(code).toContain("/** public.mood */\nexport type Mood = 'sad' | 'it\\'s ok';");
+      expect(code).not.toContain('Unused');
+      expect(code).toContain(
+        [
+          '/** public.user_accounts */',
+          'export interface UserAccounts {',
+          '  id: string;',
+          '  email: string;',
+          '  age: number | null;',
+          '  balance: string;',
+          '  mood: Mood | null;',
+          '  tags: string[];',
+          '  settings: Json | null;',
+          '  created_at: Date;',
+          '  avatar: Buffer | null;',
+          '  "first-name": string;',
+          '  shape: unknown;',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    test('should treat view columns as nullable', () => {
+      const { code } = generateTypeScript(schema);
+
+      expect(code).toContain(
+        '/** public.active_users (view) */\nexport interface ActiveUsers {\n  id: string | null;\n  scores: string[] | null;\n}'
+      );
+    });
+
+    test('should resolve domains and leave out the Json type when unused', () => {
+      const { code } = generateTypeScript({
+        tables: [
+          {
+            schema: 'public',
+            name: 'contacts',
+            columns: [column('email', 'USER-DEFINED', false, 'email_address')],
+            constraints: [],
+          },
+        ],
+        types: [{ schema: 'public', name: 'email_address', kind: 'domain', baseType: 'citext' }],
+      });
+
+      expect(code).toContain('  email: string;');
+      expect(code).not.toContain('export type Json');
+    });
+
+    test('should keep tables with the same name in different schemas apart', () => {
+      const { code } = generateTypeScript({
+        tables: [
+          { schema: 'public', name: 'events', columns: [column('id', 'integer')], constraints: [] },
+          { schema: 'audit', name: 'events', columns: [column('id', 'integer')], constraints: [] },
+        ],
+      });
+
+      expect(code).toContain('export interface Events {');
+      expect(code).toContain('export interface AuditEvents {');
+    });
+  });
+
+  describe('generateZod', () => {
+    test('should build validators and infer types from them', () => {
+      const { code } = generateZod(schema);
+
+      expect(code).toContain("import { z } from 'zod';");
+      expect(code).toContain('export const jsonSchema: z.ZodType<Json> = z.lazy(');
+      expect(code).toContain('export const moodSchema = z.enum(["sad", "it\'s ok"]);');
+      expect(code).toContain('  id: z.string(),');
+      expect(code).toContain('  age: z.number().int().nullable(),');
+      expect(code).toContain('  mood: moodSchema.nullable(),');
+      expect(code).toContain('  tags: z.array(z.string()),');
+      expect(code).toContain('  settings: jsonSchema.nullable(),');
+      expect(code).toContain('  created_at: z.coerce.date(),');
+      expect(code).toContain('  avatar: z.instanceof(Buffer).nullable(),');
+      expect(code).toContain('  shape: z.unknown(),');
+      expect(code).toContain('export type UserAccounts = z.infer<typeof userAccountsSchema>;');
+    });
+  });
+
+  describe('generateJsonSchema', () => {
+    test('should describe each table as an object definition', () => {
+      const document = JSON.parse(generateJsonSchema(schema).code);
+      const users = document.$defs.UserAccounts;
+
+      expect(document.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+      expect(document.$defs.Mood).toEqual({
+        description: 'public.mood',
+        type: 'string',
+        enum: ['sad', "it's ok"],
+      });
+      expect(users.required).toHaveLength(11);
+      expect(users.additionalProperties).toBe(false);
+      expect(users.properties.id).toEqual({ type: 'string', format: 'int64' });
+      expect(users.properties.age).toEqual({ type: ['integer', 'null'] });
+      expect(users.properties.mood).toEqual({
+        anyOf: [{ $ref: '#/$defs/Mood' }, { type: 'null' }],
+      });
+      expect(users.properties.tags).toEqual({ type: 'array', items: { type: 'string' } });
+      expect(users.properties.settings).toEqual({});
+      expect(users.properties.created_at).toEqual({ type: 'string', format: 'date-time' });
+    });
+  });
+
+  test('should type intervals as the objects node-postgres parses them into', () => {
+    const intervals: SchemaResult = {
+      tables: [
+        {
+          schema: 'public',
+          name: 'jobs',
+          columns: [column('retry_after', 'interval', true)],
+          constraints: [],
+        },
+      ],
+    };
+
+    const ts = generateTypeScript(intervals).code;
+    const zod = generateZod(intervals).code;
+    const jobs = JSON.parse(generateJsonSchema(intervals).code).$defs.Jobs;
+
+    expect(ts).toContain('export interface Interval {\n  years?: number;\n  months?: number;');
+    expect(ts).toContain('  retry_after: Interval | null;');
+    expect(zod).toContain(
+      'export const intervalSchema = z.object({\n  years: z.number().optional(),'
+    );
+    expect(zod).toContain('export type Interval = z.infer<typeof intervalSchema>;');
+    expect(zod).toContain('  retry_after: intervalSchema.nullable(),');
+    expect(jobs.properties.retry_after).toMatchObject({
+      type: ['object', 'null'],
+      properties: { days: { type: 'number' }, milliseconds: { type: 'number' } },
+      additionalProperties: false,
+    });
+    expect(generateTypeScript(schema).code).not.toContain('Interval');
+  });
+
+  test('generateCode should dispatch on target', () => {
+    expect(generateCode(schema, 'ts').code).toContain('export interface UserAccounts');
+    expect(generateCode(schema, 'zod').code).toContain('export const userAccountsSchema');
+    expect(generateCode(schema, 'json-schema').code).toContain('"$defs"');
+  });
+});
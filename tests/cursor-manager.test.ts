@@ -0,0 +1,147 @@
+import { CursorManager } from '../src/core/cursor-manager';
+import { StreamBatch } from '../src/core/sql-executor';
+import { logger } from '../src/utils/logger';
+
+describe('CursorManager', () => {
+  let cursors: CursorManager;
+  let openStream: jest.Mock;
+  let finished: jest.Mock;
+
+  // Fake stream yielding `total` rows in batches, like SqlExecutor.streamQuery
+  function fakeStream(total: number) {
+    return async function* (_sql: string, options: { batchSize?: number }) {
+      const batchSize = options.batchSize || 100;
+      let sent = 0;
+      try {
+        let done = false;
+        while (!done) {
+          const count = Math.min(batchSize, total - sent);
+          const rows = Array.from({ length: count }, (_, i) => ({ id: sent + i + 1 }));
+          sent += count;
+          done = count < batchSize;
+          yield { fields: ['id'], rows, done } as StreamBatch;
+        }
+      } finally {
+        finished();
+      }
+    };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    finished = jest.fn();
+    openStream = jest.fn(fakeStream(5));
+    cursors = new CursorManager(openStream, { idleTimeoutMs: 1000, maxCursors: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should return the first page and a cursor for the rest', async () => {
+    const page = await cursors.open('SELECT * FROM t', { pageSize: 2, params: [1] });
+
+    expect(openStream).toHaveBeenCalledWith('SELECT * FROM t', {
+      params: [1],
+      batchSize: 2,
+      timeoutMs: undefined,
+    });
+    expect(page.rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(page.hasMore).toBe(true);
+    expect(page.cursor).toBeDefined();
+    expect(cursors.count()).toBe(1);
+  });
+
+  test('should page through until the cursor is exhausted', async () => {
+    const first = await cursors.open('SELECT * FROM t', { pageSize: 2 });
+    const second = await cursors.fetch(first.cursor!);
+    const last = await cursors.fetch(first.cursor!);
+
+    expect(second.rows).toEqual([{ id: 3 }, { id: 4 }]);
+    expect(last.rows).toEqual([{ id: 5 }]);
+    expect(last.hasMore).toBe(false);
+    expect(last.cursor).toBeUndefined();
+    expect(finished).toHaveBeenCalled();
+    expect(cursors.count()).toBe(0);
+    await expect(cursors.fetch(first.cursor!)).rejects.toThrow('Cursor not found');
+  });
+
+  test('should not keep a cursor when everything fits in the first page', async () => {
+    const page = await cursors.open('SELECT * FROM t', { pageSize: 10 });
+
+    expect(page.rows).toHaveLength(5);
+    expect(page.hasMore).toBe(false);
+    expect(page.cursor).toBeUndefined();
+    expect(cursors.count()).toBe(0);
+  });
+
+  test('should close cursors explicitly', async () => {
+    const page = await cursors.open('SELECT * FROM t', { pageSize: 2 });
+
+    await cursors.close(page.cursor!);
+
+    expect(finished).toHaveBeenCalled();
+    expect(cursors.count()).toBe(0);
+  });
+
+  test('should close idle cursors automatically', async () => {
+    const page = await cursors.open('SELECT * FROM t', { pageSize: 2 });
+    // The timer fires while the stdio server owns stdout
+    logger.setStderrOnly(true);
+    const stdout = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringContaining('[WARN] Closing idle cursor'),
+      expect.objectContaining({ cursorId: page.cursor })
+    );
+    stdout.mockRestore();
+    stderr.mockRestore();
+    logger.setStderrOnly(false);
+    expect(cursors.count()).toBe(0);
+    await expect(cursors.fetch(page.cursor!)).rejects.toThrow('Cursor not found');
+  });
+
+  test('should forget a cursor whose query failed', async () => {
+    openStream.mockImplementation(async function* () {
+      throw new Error('relation "t" does not exist');
+    });
+
+    await expect(cursors.open('SELECT * FROM t')).rejects.toThrow('does not exist');
+    expect(cursors.count()).toBe(0);
+  });
+
+  test('should limit the number of open cursors', async () => {
+    await cursors.open('SELECT * FROM t', { pageSize: 1 });
+    await cursors.open('SELECT * FROM t', { pageSize: 1 });
+
+    await expect(cursors.open('SELECT * FROM t', { pageSize: 1 })).rejects.toThrow(
+      'Too many open cursors (max 2)'
+    );
+  });
+
+  test('should keep cursors to the owner that opened them', async () => {
+    const page = await cursors.open('SELECT * FROM t', { pageSize: 2, owner: 'client-a' });
+
+    await expect(cursors.fetch(page.cursor!, 'client-b')).rejects.toThrow(
+      `Cursor not found: ${page.cursor}`
+    );
+    await expect(cursors.close(page.cursor!)).rejects.toThrow('Cursor not found');
+    expect((await cursors.fetch(page.cursor!, 'client-a')).rows).toEqual([{ id: 3 }, { id: 4 }]);
+  });
+
+  test('should close only the cursors of a closed owner', async () => {
+    await cursors.open('SELECT * FROM t', { pageSize: 2, owner: 'client-a' });
+    const other = await cursors.open('SELECT * FROM t', { pageSize: 2, owner: 'client-b' });
+
+    await cursors.closeOwnedBy('client-a');
+
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(cursors.count()).toBe(1);
+    expect((await cursors.fetch(other.cursor!, 'client-b')).hasMore).toBe(true);
+  });
+});
@@ -109,21 +109,20 @@ describe('Dual Mode Entry Point', () => {
 
       proc.stdout.on('data', data => {
         stdout += data.toString();
-        if (stdout.includes('jsonrpc')) {
+        if (stdout.includes('sql_exec')) {
           gotResponse = true;
           proc.kill();
         }
       });
 
-      // Send a tools/list request
-      const request = {
-        jsonrpc: '2.0',
-        id: 2,
-        method: 'tools/list',
-        params: {},
-      };
+      // Complete the handshake, then send a tools/list request
+      const messages = [
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} },
+      ];
 
-      proc.stdin.write(JSON.stringify(request) + '\n');
+      proc.stdin.write(messages.map(message => JSON.stringify(message)).join('\n') + '\n');
 
       // Wait for response or timeout
       await new Promise(resolve => {
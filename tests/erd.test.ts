@@ -0,0 +1,191 @@
+import { ColumnInfo, ConstraintInfo, SchemaResult, TableInfo } from '../src/core/sql-executor';
+import {
+  buildErdGraph,
+  formatErdDot,
+  formatErdMermaid,
+  formatErdPlantUml,
+  renderErd,
+} from '../src/utils/erd';
+
+function column(name: string, type = 'integer', nullable = false): ColumnInfo {
+  return {
+    column_name: name,
+    data_type: type,
+    is_nullable: nullable ? 'YES' : 'NO',
+    column_default: null,
+    character_maximum_length: null,
+  };
+}
+
+function pk(table: string, columns = ['id']): ConstraintInfo {
+  return { constraint_type: 'PRIMARY KEY', constraint_name: `${table}_pkey`, columns };
+}
+
+function fk(table: string, columns: string[], target: string, schema = 'public'): ConstraintInfo {
+  return {
+    constraint_type: 'FOREIGN KEY',
+    constraint_name: `${table}_${columns.join('_')}_fkey`,
+    columns,
+    referenced_schema: schema,
+    referenced_table: target,
+    referenced_columns: ['id'],
+    on_delete: 'NO ACTION',
+    on_update: 'NO ACTION',
+  };
+}
+
+const orgs: TableInfo = {
+  schema: 'public',
+  name: 'orgs',
+  columns: [column('id'), column('name', 'text')],
+  constraints: [pk('orgs')],
+};
+const users: TableInfo = {
+  schema: 'public',
+  name: 'users',
+  columns: [column('id'), column('org_id', 'integer', true), column('email', 'character varying')],
+  constraints: [
+    pk('users'),
+    fk('users', ['org_id'], 'orgs'),
+    { constraint_type: 'UNIQUE', constraint_name: 'users_email_key', columns: ['email'] },
+  ],
+};
+const profiles: TableInfo = {
+  schema: 'public',
+  name: 'profiles',
+  columns: [column('user_id'), column('bio', 'text', true)],
+  constraints: [pk('profiles', ['user_id']), fk('profiles', ['user_id'], 'users')],
+};
+const posts: TableInfo = {
+  schema: 'public',
+  name: 'posts',
+  columns: [column('id'), column('author_id')],
+  constraints: [pk('posts'), fk('posts', ['author_id'], 'users')],
+};
+const events: TableInfo = {
+  schema: 'audit',
+  name: 'events',
+  columns: [column('id'), column('user_id', 'integer', true)],
+  constraints: [pk('events'), fk('events', ['user_id'], 'users')],
+};
+
+const schema: SchemaResult = { tables: [orgs, users, profiles, posts, events] };
+
+describe('ER diagrams', () => {
+  describe('buildErdGraph', () => {
+    test('should describe every foreign key between the selected tables', () => {
+      const graph = buildErdGraph(schema, { schemas: ['public'] });
+
+      expect(graph.tables.map(t => t.name)).toEqual(['orgs', 'users', 'profiles', 'posts']);
+      expect(graph.relationships.map(r => [r.from, r.to, r.optional, r.unique])).toEqual([
+        ['public.users', 'public.orgs', true, false],
+        ['public.profiles', 'public.users', false, true],
+        ['public.posts', 'public.users', false, false],
+      ]);
+    });
+
+    test('should select tables by name and report missing ones', () => {
+      const graph = buildErdGraph(schema, { tables: ['users', 'public.posts', 'comments'] });
+
+      expect(graph.tables.map(t => t.name)).toEqual(['users', 'posts']);
+      expect(graph.relationships).toHaveLength(1);
+      expect(graph.missingTables).toEqual(['comments']);
+    });
+
+    test('should follow foreign keys both ways from a seed table', () => {
+      expect(buildErdGraph(schema, { seed: 'orgs', depth: 0 }).tables.map(t => t.name)).toEqual([
+        'orgs',
+      ]);
+      expect(buildErdGraph(schema, { seed: 'orgs' }).tables.map(t => t.name)).toEqual([
+        'orgs',
+        'users',
+      ]);
+      expect(buildErdGraph(schema, { seed: 'orgs', depth: 2 }).tables.map(t => t.name)).toEqual([
+        'orgs',
+        'users',
+        'profiles',
+        'posts',
+        'events',
+      ]);
+      expect(
+        buildErdGraph(schema, { seed: 'posts', depth: 5, schemas: ['public'] }).tables.map(
+          t => t.name
+        )
+      ).toEqual(['orgs', 'users', 'profiles', 'posts']);
+    });
+
+    test('should reject an unknown seed table', () => {
+      expect(() => buildErdGraph(schema, { seed: 'comments' })).toThrow(
+        'Seed table not found: comments'
+      );
+    });
+  });
+
+  describe('formatErdMermaid', () => {
+    test('should draw key columns and relationships', () => {
+      const graph = buildErdGraph(schema, { tables: ['orgs', 'users', 'profiles'] });
+
+      expect(formatErdMermaid(graph)).toBe(
+        [
+          'erDiagram',
+          '  orgs {',
+          '    integer id PK',
+          '  }',
+          '  users {',
+          '    integer id PK',
+          '    integer org_id FK',
+          '    character_varying email UK',
+          '  }',
+          '  profiles {',
+          '    integer user_id PK, FK',
+          '  }',
+          '  orgs |o--o{ users : "org_id"',
+          '  users ||--o| profiles : "user_id"',
+          '',
+        ].join('\n')
+      );
+    });
+
+    test('should qualify names across schemas and note missing tables', () => {
+      const graph = buildErdGraph(schema, { tables: ['events', 'users', 'comments'] });
+      const diagram = formatErdMermaid(graph, { allColumns: true });
+
+      expect(diagram).toContain('  %% Tables not found: comments\n');
+      expect(diagram).toContain('  audit_events {\n    integer id PK\n    integer user_id FK\n');
+      expect(diagram).toContain('  public_users |o--o{ audit_events : "user_id"');
+    });
+  });
+
+  describe('formatErdDot', () => {
+    test('should draw one node per table and dash nullable foreign keys', () => {
+      const graph = buildErdGraph(schema, { tables: ['orgs', 'users'] });
+      const diagram = formatErdDot(graph);
+
+      expect(diagram).toMatch(/^digraph erd \{\n/);
+      expect(diagram).toContain('<B>public.orgs</B>');
+      expect(diagram).toContain('<TD ALIGN="LEFT">org_id: integer FK</TD>');
+      expect(diagram).toContain('"public.users" -> "public.orgs" [label="org_id", style=dashed];');
+      expect(diagram.endsWith('}\n')).toBe(true);
+    });
+  });
+
+  describe('formatErdPlantUml', () => {
+    test('should put primary keys above the separator', () => {
+      const graph = buildErdGraph(schema, { tables: ['users', 'posts'] });
+      const diagram = formatErdPlantUml(graph, { allColumns: true });
+
+      expect(diagram).toContain(
+        'entity "public.users" as public_users {\n  * id : integer <<PK>>\n  --\n  org_id : integer <<FK>>\n  * email : character varying <<UK>>\n}'
+      );
+      expect(diagram).toContain('public_users ||--o{ public_posts : author_id');
+      expect(diagram).toMatch(/^@startuml\n[\s\S]*@enduml\n$/);
+    });
+  });
+
+  test('renderErd should dispatch on format', () => {
+    const graph = buildErdGraph(schema, { tables: ['orgs'] });
+    expect(renderErd(graph, 'mermaid')).toMatch(/^erDiagram/);
+    expect(renderErd(graph, 'dot')).toMatch(/^digraph/);
+    expect(renderErd(graph, 'plantuml')).toMatch(/^@startuml/);
+  });
+});
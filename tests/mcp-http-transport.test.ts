@@ -0,0 +1,380 @@
+import { request } from 'http';
+import { SqlAgentMcpServer } from '../src/mcp';
+import {
+  HttpTransportOptions,
+  McpHttpTransport,
+  parseTransportArgs,
+} from '../src/mcp/http-transport';
+
+// Nothing here reaches the database
+jest.mock('../src/core/sql-executor');
+
+interface Reply {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+describe('McpHttpTransport', () => {
+  let server: SqlAgentMcpServer;
+  let transport: McpHttpTransport;
+  let port: number;
+
+  async function start(options: Partial<HttpTransportOptions> = {}): Promise<void> {
+    server = new SqlAgentMcpServer();
+    transport = new McpHttpTransport(server, { port: 0, token: '', ...options });
+    port = (await transport.listen()).port;
+  }
+
+  afterEach(async () => {
+    delete process.env.SEQUELAE_HTTP_TOKEN;
+    await transport.close();
+  });
+
+  function send(
+    method: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+    path = '/mcp'
+  ): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          path,
+          method,
+          agent: false,
+          headers: { 'Content-Type': 'application/json', ...headers },
+        },
+        res => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', chunk => (text += chunk));
+          res.on('end', () =>
+            resolve({ status: res.statusCode!, headers: res.headers, body: text })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(
+        body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+      );
+    });
+  }
+
+  // initialize plus notifications/initialized; returns the session id
+  async function handshake(headers: Record<string, string> = {}): Promise<string> {
+    const reply = await send(
+      'POST',
+      { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} },
+      headers
+    );
+    const sessionId = reply.headers['mcp-session-id'] as string;
+    await send(
+      'POST',
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { ...headers, 'Mcp-Session-Id': sessionId }
+    );
+    return sessionId;
+  }
+
+  describe('sessions', () => {
+    beforeEach(() => start());
+
+    test('should hand out a session id on initialize and answer as JSON', async () => {
+      const reply = await send('POST', {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26' },
+      });
+
+      expect(reply.status).toBe(200);
+      expect(reply.headers['content-type']).toBe('application/json');
+      expect(reply.headers['mcp-session-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(JSON.parse(reply.body)).toMatchObject({
+        jsonrpc: '2.0',
+        id: 1,
+        result: { protocolVersion: '2025-03-26' },
+      });
+      expect(transport.sessionCount).toBe(1);
+    });
+
+    test('should accept notifications with 202 and serve tools/list to the session', async () => {
+      const sessionId = await handshake();
+
+      const notification = await send(
+        'POST',
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const reply = await send(
+        'POST',
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(notification.status).toBe(202);
+      expect(notification.body).toBe('');
+      expect(reply.status).toBe(200);
+      expect(reply.headers['mcp-session-id']).toBe(sessionId);
+      expect(JSON.parse(reply.body).result.tools.length).toBeGreaterThan(0);
+    });
+
+    test('should negotiate each session on its own', async () => {
+      const versions = [];
+      for (const protocolVersion of ['2024-11-05', '2025-03-26']) {
+        const reply = await send('POST', {
+          jsonrpc: '2.0',
+          id: 0,
+          method: 'initialize',
+          params: { protocolVersion },
+        });
+        versions.push(JSON.parse(reply.body).result.protocolVersion);
+        expect(reply.headers['mcp-session-id']).toEqual(expect.any(String));
+      }
+
+      expect(versions).toEqual(['2024-11-05', '2025-03-26']);
+      expect(transport.sessionCount).toBe(2);
+    });
+
+    test('should stream replies as server-sent events when the client accepts them', async () => {
+      const sessionId = await handshake();
+
+      const reply = await send(
+        'POST',
+        [
+          { jsonrpc: '2.0', id: 1, method: 'ping' },
+          { jsonrpc: '2.0', id: 2, method: 'ping' },
+        ],
+        { 'Mcp-Session-Id': sessionId, Accept: 'application/json, text/event-stream' }
+      );
+
+      expect(reply.status).toBe(200);
+      expect(reply.headers['content-type']).toBe('text/event-stream');
+      expect(reply.body).toBe(
+        'event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n' +
+          'event: message\ndata: {"jsonrpc":"2.0","id":2,"result":{}}\n\n'
+      );
+    });
+
+    test('should require a known session id', async () => {
+      const missing = await send('POST', { jsonrpc: '2.0', id: 1, method: 'ping' });
+      const unknown = await send(
+        'POST',
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { 'Mcp-Session-Id': 'nope' }
+      );
+
+      expect(missing.status).toBe(400);
+      expect(JSON.parse(missing.body)).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32000, message: 'Missing Mcp-Session-Id header' },
+      });
+      expect(unknown.status).toBe(404);
+    });
+
+    test('should not keep a session whose initialize failed', async () => {
+      const reply = await send('POST', { jsonrpc: '1.0', id: 1, method: 'initialize' });
+
+      expect(reply.status).toBe(200);
+      expect(JSON.parse(reply.body).error.code).toBe(-32600);
+      expect(reply.headers['mcp-session-id']).toBeUndefined();
+      expect(transport.sessionCount).toBe(0);
+    });
+
+    test('should end a session on DELETE', async () => {
+      const sessionId = await handshake();
+
+      const deleted = await send('DELETE', undefined, { 'Mcp-Session-Id': sessionId });
+      const again = await send('DELETE', undefined, { 'Mcp-Session-Id': sessionId });
+      const after = await send(
+        'POST',
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(deleted.status).toBe(204);
+      expect(again.status).toBe(404);
+      expect(after.status).toBe(404);
+    });
+
+    test('should release what a session left open when it is deleted', async () => {
+      const endSession = jest.spyOn(server, 'endSession');
+      const sessionId = await handshake();
+
+      await send('DELETE', undefined, { 'Mcp-Session-Id': sessionId });
+
+      expect(endSession).toHaveBeenCalledWith(sessionId);
+    });
+
+    test('should reject bad JSON, other paths, other methods and unknown protocol versions', async () => {
+      const parse = await send('POST', '{ nope');
+      const path = await send('POST', {}, {}, '/other');
+      const get = await send('GET');
+      const version = await send(
+        'POST',
+        { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} },
+        { 'MCP-Protocol-Version': '1999-01-01' }
+      );
+
+      expect(parse.status).toBe(400);
+      expect(JSON.parse(parse.body).error.code).toBe(-32700);
+      expect(path.status).toBe(404);
+      expect(get.status).toBe(405);
+      expect(get.headers.allow).toBe('POST, DELETE');
+      expect(version.status).toBe(400);
+    });
+  });
+
+  describe('expiry', () => {
+    test('should forget idle sessions and release what they left open', async () => {
+      await start({ sessionIdleTimeoutMs: 1 });
+      const endSession = jest.spyOn(server, 'endSession');
+      const sessionId = await handshake();
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      (transport as any).expireSessions();
+
+      expect(transport.sessionCount).toBe(0);
+      expect(endSession).toHaveBeenCalledWith(sessionId);
+    });
+  });
+
+  describe('limits', () => {
+    test('should refuse new sessions beyond the cap until one ends', async () => {
+      await start({ maxSessions: 2 });
+      const first = await handshake();
+      await handshake();
+
+      const refused = await send('POST', {
+        jsonrpc: '2.0',
+        id: 0,
+        method: 'initialize',
+        params: {},
+      });
+      await send('DELETE', undefined, { 'Mcp-Session-Id': first });
+      const accepted = await send('POST', {
+        jsonrpc: '2.0',
+        id: 0,
+        method: 'initialize',
+        params: {},
+      });
+
+      expect(refused.status).toBe(503);
+      expect(JSON.parse(refused.body).error).toEqual({
+        code: -32000,
+        message:
+          'Too many open sessions (max 2). End one with DELETE or wait for an idle one to expire',
+      });
+      expect(accepted.status).toBe(200);
+      expect(transport.sessionCount).toBe(2);
+    });
+
+    test('should keep the rate limit budget across new sessions', async () => {
+      server = new SqlAgentMcpServer({ maxRequests: 1, windowMs: 60000 });
+      jest
+        .spyOn(server['handler'], 'handleToolCall')
+        .mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+      transport = new McpHttpTransport(server, { port: 0, token: '' });
+      port = (await transport.listen()).port;
+
+      const codes = [];
+      for (let i = 0; i < 2; i++) {
+        const sessionId = await handshake();
+        const reply = await send(
+          'POST',
+          {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'tools/call',
+            params: { name: 'sql_exec', arguments: { query: 'SELECT 1' } },
+          },
+          { 'Mcp-Session-Id': sessionId }
+        );
+        codes.push(JSON.parse(reply.body).error?.code);
+      }
+
+      expect(codes).toEqual([undefined, -32000]);
+    });
+  });
+
+  describe('security', () => {
+    test('should require the bearer token when one is set', async () => {
+      process.env.SEQUELAE_HTTP_TOKEN = 's3cret';
+      await start({ token: undefined });
+
+      const none = await send('POST', { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+      const wrong = await send(
+        'POST',
+        { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} },
+        { Authorization: 'Bearer nope' }
+      );
+      const sessionId = await handshake({ Authorization: 'Bearer s3cret' });
+
+      expect(none.status).toBe(401);
+      expect(none.headers['www-authenticate']).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+      expect(sessionId).toEqual(expect.any(String));
+    });
+
+    test('should only allow local and configured browser origins', async () => {
+      await start({ allowedOrigins: ['https://agents.example.com'] });
+      const init = { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} };
+
+      expect((await send('POST', init, { Origin: 'https://evil.example.com' })).status).toBe(403);
+      expect((await send('POST', init, { Origin: 'http://localhost:5173' })).status).toBe(200);
+      expect((await send('POST', init, { Origin: 'https://agents.example.com' })).status).toBe(200);
+    });
+
+    test('should refuse to listen beyond loopback without a token', () => {
+      expect(
+        () => new McpHttpTransport(new SqlAgentMcpServer(), { port: 0, host: '0.0.0.0' })
+      ).toThrow('Refusing to listen on 0.0.0.0 without a bearer token');
+      // Nothing to close for this test
+      transport = { close: async () => undefined } as any;
+    });
+  });
+
+  describe('close', () => {
+    test('should stop listening, forget sessions and close the server', async () => {
+      await start();
+      const closeServer = jest.spyOn(server, 'close');
+      await handshake();
+
+      await transport.close();
+
+      expect(transport.sessionCount).toBe(0);
+      expect(closeServer).toHaveBeenCalled();
+      await expect(send('POST', {})).rejects.toThrow(/ECONNREFUSED/);
+    });
+  });
+});
+
+describe('parseTransportArgs', () => {
+  test('should default to stdio', () => {
+    expect(parseTransportArgs(['--mcp'])).toEqual({ transport: 'stdio' });
+  });
+
+  test('should read the http port and host', () => {
+    expect(parseTransportArgs(['--transport', 'http'])).toEqual({ transport: 'http', port: 3000 });
+    expect(
+      parseTransportArgs(['--mcp', '--transport', 'http', '--port', '8080', '--host', '0.0.0.0'])
+    ).toEqual({ transport: 'http', port: 8080, host: '0.0.0.0' });
+  });
+
+  test('should reject invalid values', () => {
+    expect(() => parseTransportArgs(['--transport', 'ws'])).toThrow('Invalid transport: ws');
+    expect(() => parseTransportArgs(['--transport', 'http', '--port', 'abc'])).toThrow(
+      'Invalid port: abc'
+    );
+    expect(() => parseTransportArgs(['--transport', 'http', '--port'])).toThrow(
+      '--port requires a value'
+    );
+    expect(() => parseTransportArgs(['--port', '8080'])).toThrow(
+      '--port and --host only apply to --transport http'
+    );
+  });
+});
@@ -1,12 +1,25 @@
-import { SqlAgentMcpServer } from '../src/mcp';
+import { createMcpSession, LATEST_PROTOCOL_VERSION, SqlAgentMcpServer } from '../src/mcp';
 import { McpToolHandler } from '../src/mcp/tool-handler';
+import { McpResourceHandler, ResourceNotFoundError } from '../src/mcp/resource-handler';
+import { InvalidPromptError, McpPromptHandler } from '../src/mcp/prompt-handler';
+import { logger } from '../src/utils/logger';
 
-// Mock the tool handler
+// Mock the tool, resource and prompt handlers
 jest.mock('../src/mcp/tool-handler');
+jest.mock('../src/mcp/resource-handler', () => ({
+  ...jest.requireActual('../src/mcp/resource-handler'),
+  McpResourceHandler: jest.fn(),
+}));
+jest.mock('../src/mcp/prompt-handler', () => ({
+  ...jest.requireActual('../src/mcp/prompt-handler'),
+  McpPromptHandler: jest.fn(),
+}));
 
 describe('SqlAgentMcpServer', () => {
   let server: SqlAgentMcpServer;
   let mockHandler: jest.Mocked<McpToolHandler>;
+  let mockResources: jest.Mocked<McpResourceHandler>;
+  let mockPrompts: jest.Mocked<McpPromptHandler>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -14,6 +27,7 @@ describe('SqlAgentMcpServer', () => {
     // Create mock handler
     mockHandler = {
       handleToolCall: jest.fn(),
+      release: jest.fn(),
       close: jest.fn(),
     } as any;
 
@@ -21,9 +35,37 @@ describe('SqlAgentMcpServer', () => {
       () => mockHandler
     );
 
+    mockResources = {
+      listResources: jest.fn(),
+      listResourceTemplates: jest.fn(),
+      readResource: jest.fn(),
+      close: jest.fn(),
+    } as any;
+    (McpResourceHandler as jest.MockedClass<typeof McpResourceHandler>).mockImplementation(
+      () => mockResources
+    );
+
+    mockPrompts = {
+      listPrompts: jest.fn(),
+      getPrompt: jest.fn(),
+      close: jest.fn(),
+    } as any;
+    (McpPromptHandler as jest.MockedClass<typeof McpPromptHandler>).mockImplementation(
+      () => mockPrompts
+    );
+
     server = new SqlAgentMcpServer();
   });
 
+  // Complete the initialize handshake so tool requests are accepted
+  async function initialize(target: SqlAgentMcpServer): Promise<void> {
+    await target.handleRequest({
+      method: 'initialize',
+      params: { protocolVersion: LATEST_PROTOCOL_VERSION },
+    });
+    await target.handleRequest({ method: 'notifications/initialized' });
+  }
+
   describe('getServerInfo', () => {
     test('should return server information', () => {
       const info = server.getServerInfo();
@@ -40,13 +82,25 @@ describe('SqlAgentMcpServer', () => {
     test('should return all available tools', () => {
       const response = server.listTools();
 
-      expect(response.tools).toHaveLength(5);
+      expect(response.tools).toHaveLength(17);
       expect(response.tools.map(t => t.name)).toEqual([
         'sql_exec',
         'sql_file',
         'sql_schema',
+        'sql_schema_diff',
+        'sql_schema_search',
+        'sql_erd',
+        'sql_explain',
+        'sql_profile',
+        'sql_sample',
+        'sql_permissions',
         'sql_backup',
         'sql_health',
+        'sql_session_begin',
+        'sql_session_exec',
+        'sql_session_commit',
+        'sql_session_rollback',
+        'sql_fetch_more',
       ]);
 
       // Check first tool structure
@@ -61,16 +115,23 @@ describe('SqlAgentMcpServer', () => {
     });
   });
 
-  describe('handleRequest', () => {
+  describe('lifecycle', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
     test('should handle initialize request', async () => {
       const request = {
         method: 'initialize',
-        params: {},
+        params: { protocolVersion: '2025-03-26', capabilities: {} },
       };
 
       const response = await server.handleRequest(request);
 
       expect(response).toMatchObject({
+        protocolVersion: '2025-03-26',
         serverInfo: {
           name: 'sequelae-mcp',
           version: '1.0.0',
@@ -78,8 +139,96 @@ describe('SqlAgentMcpServer', () => {
         },
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
+        instructions: expect.stringContaining('sql_schema'),
       });
+      expect(server.getProtocolVersion()).toBe('2025-03-26');
+    });
+
+    test('should answer an unsupported protocol version with the latest one', async () => {
+      const response = await server.handleRequest({
+        method: 'initialize',
+        params: { protocolVersion: '2023-01-01' },
+      });
+
+      expect(response).toMatchObject({ protocolVersion: LATEST_PROTOCOL_VERSION });
+    });
+
+    test('should mention read-only mode in the instructions', async () => {
+      process.env = { ...originalEnv, SEQUELAE_READ_ONLY: 'true' };
+
+      const response = (await server.handleRequest({ method: 'initialize', params: {} })) as any;
+
+      expect(response.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+      expect(response.instructions).toContain('read-only');
+    });
+
+    test('should reject tool requests before initialize', async () => {
+      const response = await server.handleRequest({ method: 'tools/list', params: {} });
+
+      expect(response).toEqual({
+        error: {
+          code: -32003,
+          message: 'Server not initialized: send an initialize request first',
+        },
+      });
+      expect(mockHandler.handleToolCall).not.toHaveBeenCalled();
+    });
+
+    test('should answer ping before initialize', async () => {
+      expect(await server.handleRequest({ method: 'ping' })).toEqual({});
+    });
+
+    test('should reject a second initialize', async () => {
+      await initialize(server);
+
+      const response = await server.handleRequest({ method: 'initialize', params: {} });
+
+      expect(response).toMatchObject({
+        error: { code: -32600, message: 'Server already initialized' },
+      });
+    });
+
+    test('should return nothing for notifications', async () => {
+      await server.handleRequest({ method: 'initialize', params: {} });
+
+      expect(await server.handleRequest({ method: 'notifications/initialized' })).toBeUndefined();
+      expect(
+        await server.handleRequest({
+          method: 'notifications/cancelled',
+          params: { requestId: 3 },
+        })
+      ).toBeUndefined();
+    });
+
+    test('should keep the handshake of each session separate', async () => {
+      const a = createMcpSession('a');
+      const b = createMcpSession('b');
+
+      await server.handleRequest(
+        { method: 'initialize', params: { protocolVersion: '2024-11-05' } },
+        a
+      );
+      await server.handleRequest({ method: 'notifications/initialized' }, a);
+
+      expect(a).toEqual({ id: 'a', lifecycle: 'ready', protocolVersion: '2024-11-05' });
+      expect(await server.handleRequest({ method: 'tools/list' }, b)).toMatchObject({
+        error: { code: -32003 },
+      });
+      expect(await server.handleRequest({ method: 'tools/list' })).toMatchObject({
+        error: { code: -32003 },
+      });
+      expect(await server.handleRequest({ method: 'initialize', params: {} }, b)).toMatchObject({
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+      });
+    });
+  });
+
+  describe('handleRequest', () => {
+    beforeEach(async () => {
+      await initialize(server);
     });
 
     test('should handle tools/list request', async () => {
@@ -91,7 +240,7 @@ describe('SqlAgentMcpServer', () => {
       const response = await server.handleRequest(request);
 
       expect(response).toHaveProperty('tools');
-      expect((response as any).tools).toHaveLength(5);
+      expect((response as any).tools).toHaveLength(17);
     });
 
     test('should handle tools/call request', async () => {
@@ -129,12 +278,48 @@ describe('SqlAgentMcpServer', () => {
 
       expect(response).toMatchObject({
         error: {
-          code: -32603,
+          code: -32602,
           message: 'Invalid tool call parameters',
         },
       });
     });
 
+    test('should default missing tool arguments to an empty object', async () => {
+      mockHandler.handleToolCall.mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+
+      await server.handleRequest({ method: 'tools/call', params: { name: 'sql_health' } });
+
+      expect(mockHandler.handleToolCall).toHaveBeenCalledWith({
+        tool: 'sql_health',
+        arguments: {},
+      });
+    });
+
+    test('should reject tool arguments that are not an object', async () => {
+      for (const args of ['SELECT 1', null, ['SELECT 1']]) {
+        const response = await server.handleRequest({
+          method: 'tools/call',
+          params: { name: 'sql_exec', arguments: args },
+        });
+        expect(response).toEqual({
+          error: { code: -32602, message: 'Invalid tool call parameters' },
+        });
+      }
+      expect(mockHandler.handleToolCall).not.toHaveBeenCalled();
+    });
+
+    test('should reject unknown tools as invalid params', async () => {
+      const response = await server.handleRequest({
+        method: 'tools/call',
+        params: { name: 'sql_drop_everything', arguments: {} },
+      });
+
+      expect(response).toEqual({
+        error: { code: -32602, message: 'Unknown tool: sql_drop_everything' },
+      });
+      expect(mockHandler.handleToolCall).not.toHaveBeenCalled();
+    });
+
     test('should handle unknown method', async () => {
       const request = {
         method: 'unknown/method',
@@ -182,6 +367,104 @@ describe('SqlAgentMcpServer', () => {
         },
       });
     });
+
+    test('should list resources and templates', async () => {
+      const resource = {
+        uri: 'postgres://app/table/public.users',
+        name: 'public.users',
+        mimeType: 'application/sql',
+      };
+      const template = {
+        uriTemplate: 'postgres://app/table/{schema}.{table}',
+        name: 'table',
+        description: 'DDL of one table',
+        mimeType: 'application/sql',
+      };
+      mockResources.listResources.mockResolvedValue([resource]);
+      mockResources.listResourceTemplates.mockReturnValue([template]);
+
+      expect(await server.handleRequest({ method: 'resources/list' })).toEqual({
+        resources: [resource],
+      });
+      expect(await server.handleRequest({ method: 'resources/templates/list' })).toEqual({
+        resourceTemplates: [template],
+      });
+    });
+
+    test('should read a resource', async () => {
+      const contents = [
+        { uri: 'postgres://app/schema', mimeType: 'application/sql', text: 'CREATE TABLE ...' },
+      ];
+      mockResources.readResource.mockResolvedValue(contents);
+
+      const response = await server.handleRequest({
+        method: 'resources/read',
+        params: { uri: 'postgres://app/schema' },
+      });
+
+      expect(mockResources.readResource).toHaveBeenCalledWith('postgres://app/schema');
+      expect(response).toEqual({ contents });
+    });
+
+    test('should report unknown resources with -32002', async () => {
+      mockResources.readResource.mockRejectedValue(
+        new ResourceNotFoundError('postgres://app/table/public.nope')
+      );
+
+      const response = await server.handleRequest({
+        method: 'resources/read',
+        params: { uri: 'postgres://app/table/public.nope' },
+      });
+
+      expect(response).toEqual({
+        error: {
+          code: -32002,
+          message: 'Resource not found: postgres://app/table/public.nope',
+          data: { uri: 'postgres://app/table/public.nope' },
+        },
+      });
+    });
+
+    test('should require a uri to read', async () => {
+      const response = await server.handleRequest({ method: 'resources/read', params: {} });
+
+      expect(response).toMatchObject({ error: { code: -32602 } });
+      expect(mockResources.readResource).not.toHaveBeenCalled();
+    });
+
+    test('should list and get prompts', async () => {
+      const prompt = { name: 'explain_table', description: 'Explain a table', arguments: [] };
+      const rendered = {
+        description: 'Explain a table',
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Explain' } }],
+      };
+      mockPrompts.listPrompts.mockReturnValue([prompt]);
+      mockPrompts.getPrompt.mockResolvedValue(rendered);
+
+      expect(await server.handleRequest({ method: 'prompts/list' })).toEqual({ prompts: [prompt] });
+      expect(
+        await server.handleRequest({
+          method: 'prompts/get',
+          params: { name: 'explain_table', arguments: { table: 'users' } },
+        })
+      ).toEqual(rendered);
+      expect(mockPrompts.getPrompt).toHaveBeenCalledWith('explain_table', { table: 'users' });
+    });
+
+    test('should report invalid prompt requests as invalid params', async () => {
+      mockPrompts.getPrompt.mockRejectedValue(new InvalidPromptError('Unknown prompt: nope'));
+
+      expect(
+        await server.handleRequest({ method: 'prompts/get', params: { name: 'nope' } })
+      ).toEqual({ error: { code: -32602, message: 'Unknown prompt: nope' } });
+      expect(
+        await server.handleRequest({
+          method: 'prompts/get',
+          params: { name: 'explain_table', arguments: 'users' },
+        })
+      ).toEqual({ error: { code: -32602, message: 'Invalid prompt parameters' } });
+      expect(mockPrompts.getPrompt).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Rate limiting', () => {
@@ -200,6 +483,7 @@ describe('SqlAgentMcpServer', () => {
         close: jest.fn(),
       } as any;
       (rateLimitedServer as any).handler = mockRateLimitedHandler;
+      await initialize(rateLimitedServer);
 
       // First two requests should succeed
       for (let i = 0; i < 2; i++) {
@@ -248,6 +532,7 @@ describe('SqlAgentMcpServer', () => {
       });
 
       // Server without rate limiting (default behavior)
+      await initialize(server);
       const response = await server.handleRequest({
         method: 'tools/call',
         params: {
@@ -291,6 +576,10 @@ describe('SqlAgentMcpServer', () => {
       });
     });
 
+    afterEach(() => {
+      logger.setStderrOnly(false);
+    });
+
     test('should setup stdin/stdout for JSON-RPC communication', async () => {
       server.start();
 
@@ -301,6 +590,7 @@ describe('SqlAgentMcpServer', () => {
 
     test('should process JSON-RPC requests from stdin', async () => {
       server.start();
+      await initialize(server);
 
       const request = {
         jsonrpc: '2.0',
@@ -318,10 +608,41 @@ describe('SqlAgentMcpServer', () => {
       expect(response).toMatchObject({
         jsonrpc: '2.0',
         id: 1,
-        tools: expect.any(Array),
+        result: { tools: expect.any(Array) },
+      });
+    });
+
+    test('should keep request id 0', async () => {
+      server.start();
+
+      await stdinListeners['data'](
+        JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} }) + '\n'
+      );
+
+      const response = JSON.parse(mockStdout.write.mock.calls[0][0]);
+      expect(response).toMatchObject({
+        jsonrpc: '2.0',
+        id: 0,
+        result: { protocolVersion: expect.any(String) },
       });
     });
 
+    test('should not reply to notifications', async () => {
+      server.start();
+
+      await stdinListeners['data'](
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }) +
+          '\n' +
+          JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) +
+          '\n' +
+          JSON.stringify({ jsonrpc: '2.0', method: 'tools/list' }) +
+          '\n'
+      );
+
+      expect(mockStdout.write).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockStdout.write.mock.calls[0][0])).toMatchObject({ id: 1 });
+    });
+
     test('should handle parse errors', async () => {
       server.start();
 
@@ -341,6 +662,21 @@ describe('SqlAgentMcpServer', () => {
       });
     });
 
+    test('should send log lines to stderr while stdout carries the protocol', async () => {
+      const stdout = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      server.start();
+      logger.warn('Connection attempt failed, retrying');
+
+      expect(stdout).not.toHaveBeenCalled();
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringContaining('[WARN] Connection attempt failed, retrying')
+      );
+      stdout.mockRestore();
+      stderr.mockRestore();
+    });
+
     test('should close handler on stdin end', async () => {
       server.start();
 
@@ -351,11 +687,34 @@ describe('SqlAgentMcpServer', () => {
     });
   });
 
+  describe('sessions', () => {
+    test('should run tool calls of an HTTP session on its behalf and release them at the end', async () => {
+      const session = createMcpSession('http-1');
+      await server.handleRequest({ method: 'initialize', params: {} }, session);
+      await server.handleRequest({ method: 'notifications/initialized' }, session);
+
+      await server.handleRequest(
+        { method: 'tools/call', params: { name: 'sql_fetch_more', arguments: { cursor: 'c' } } },
+        session
+      );
+      await server.endSession('http-1');
+
+      expect(mockHandler.handleToolCall).toHaveBeenCalledWith({
+        tool: 'sql_fetch_more',
+        arguments: { cursor: 'c' },
+        owner: 'http-1',
+      });
+      expect(mockHandler.release).toHaveBeenCalledWith('http-1');
+    });
+  });
+
   describe('close', () => {
     test('should close the handler', async () => {
       await server.close();
 
       expect(mockHandler.close).toHaveBeenCalled();
+      expect(mockResources.close).toHaveBeenCalled();
+      expect(mockPrompts.close).toHaveBeenCalled();
     });
   });
 });
@@ -3,7 +3,7 @@ import { SQL_AGENT_TOOLS, getToolDefinition, validateToolInput } from '../src/mc
 describe('MCP Tool Definition', () => {
   describe('SQL_AGENT_TOOLS', () => {
     test('should define all required tools', () => {
-      expect(SQL_AGENT_TOOLS).toHaveLength(5);
+      expect(SQL_AGENT_TOOLS).toHaveLength(17);
 
       const toolNames = SQL_AGENT_TOOLS.map(t => t.name);
       expect(toolNames).toContain('sql_exec');
@@ -11,6 +11,18 @@ describe('MCP Tool Definition', () => {
       expect(toolNames).toContain('sql_schema');
       expect(toolNames).toContain('sql_backup');
       expect(toolNames).toContain('sql_health');
+      expect(toolNames).toContain('sql_session_begin');
+      expect(toolNames).toContain('sql_session_exec');
+      expect(toolNames).toContain('sql_session_commit');
+      expect(toolNames).toContain('sql_session_rollback');
+      expect(toolNames).toContain('sql_fetch_more');
+      expect(toolNames).toContain('sql_explain');
+      expect(toolNames).toContain('sql_profile');
+      expect(toolNames).toContain('sql_permissions');
+      expect(toolNames).toContain('sql_sample');
+      expect(toolNames).toContain('sql_schema_diff');
+      expect(toolNames).toContain('sql_schema_search');
+      expect(toolNames).toContain('sql_erd');
     });
 
     test('each tool should have required properties', () => {
@@ -96,6 +108,15 @@ describe('MCP Tool Definition', () => {
       expect(result.error).toBe('Missing required field: query');
     });
 
+    test('should reject values outside an enum', () => {
+      expect(validateToolInput('sql_schema', { format: 'markdown' }).valid).toBe(true);
+      const result = validateToolInput('sql_schema', { format: 'yaml' });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe(
+        'Invalid value for format: expected one of json, text, markdown, compact'
+      );
+    });
+
     test('should validate valid sql_file input', () => {
       const result = validateToolInput('sql_file', {
         filepath: '/path/to/file.sql',
@@ -156,6 +177,34 @@ describe('MCP Tool Definition', () => {
       expect(result.error).toBe('Invalid type for query: expected string, got number');
     });
 
+    test('should accept params array for sql_exec', () => {
+      const result = validateToolInput('sql_exec', {
+        query: 'SELECT * FROM users WHERE id = $1 AND name = $2 AND tags && $3',
+        params: [42, null, ['admin']],
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    test('should reject params that are not an array', () => {
+      const result = validateToolInput('sql_exec', {
+        query: 'SELECT $1',
+        params: '42',
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Invalid type for params: expected array, got string');
+    });
+
+    test('should reject object params', () => {
+      const result = validateToolInput('sql_exec', {
+        query: 'SELECT $1',
+        params: [{ id: 1 }],
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe(
+        'Invalid type for params[0]: expected string | number | boolean | null | array, got object'
+      );
+    });
+
     test('should reject invalid type for json flag', () => {
       const result = validateToolInput('sql_exec', {
         query: 'SELECT 1',
@@ -0,0 +1,167 @@
+import {
+  describePlanNode,
+  ExplainOutput,
+  formatPlanSummaryText,
+  parseExplainOutput,
+  seqScanRelations,
+  summarizePlan,
+} from '../src/utils/plan-summary';
+
+describe('Plan summary', () => {
+  const analyzedPlan: ExplainOutput = {
+    Plan: {
+      'Node Type': 'Sort',
+      'Total Cost': 2500.5,
+      'Plan Rows': 100,
+      'Actual Total Time': 120,
+      'Actual Rows': 5000,
+      'Actual Loops': 1,
+      'Sort Method': 'external merge',
+      'Sort Space Used': 2048,
+      'Sort Space Type': 'Disk',
+      Plans: [
+        {
+          'Node Type': 'Hash Join',
+          'Total Cost': 2000,
+          'Plan Rows': 100,
+          'Actual Total Time': 90,
+          'Actual Rows': 5000,
+          'Actual Loops': 1,
+          Plans: [
+            {
+              'Node Type': 'Seq Scan',
+              'Relation Name': 'orders',
+              Schema: 'public',
+              Filter: '(status = 1)',
+              'Total Cost': 1500,
+              'Plan Rows': 50000,
+              'Actual Total Time': 80,
+              'Actual Rows': 50000,
+              'Actual Loops': 1,
+              'Rows Removed by Filter': 10000,
+            },
+            {
+              'Node Type': 'Hash',
+              'Total Cost': 10,
+              'Plan Rows': 10,
+              'Actual Total Time': 2,
+              'Actual Rows': 10,
+              'Actual Loops': 1,
+              'Hash Batches': 4,
+              Plans: [
+                {
+                  'Node Type': 'Index Scan',
+                  'Relation Name': 'customers',
+                  Schema: 'public',
+                  'Index Name': 'customers_pkey',
+                  'Total Cost': 8,
+                  'Plan Rows': 10,
+                  'Actual Total Time': 1.5,
+                  'Actual Rows': 10,
+                  'Actual Loops': 1,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    'Planning Time': 0.4,
+    'Execution Time': 121.3,
+  };
+
+  test('should parse pg output in array or text form', () => {
+    expect(parseExplainOutput([analyzedPlan]).Plan['Node Type']).toBe('Sort');
+    expect(parseExplainOutput(JSON.stringify([analyzedPlan])).Plan['Node Type']).toBe('Sort');
+    expect(() => parseExplainOutput([{}])).toThrow('no plan found');
+  });
+
+  test('should describe nodes with relation and index', () => {
+    const indexScan = analyzedPlan.Plan.Plans![0].Plans![1].Plans![0];
+    expect(describePlanNode(indexScan)).toBe('Index Scan on public.customers using customers_pkey');
+  });
+
+  test('should list sequentially scanned relations', () => {
+    expect(seqScanRelations(analyzedPlan)).toEqual(['public.orders']);
+  });
+
+  test('should summarize an analyzed plan', () => {
+    const summary = summarizePlan(analyzedPlan);
+
+    expect(summary).toMatchObject({
+      totalCost: 2500.5,
+      estimatedRows: 100,
+      actualRows: 5000,
+      planningTime: 0.4,
+      executionTime: 121.3,
+      slowestBasis: 'time',
+    });
+    expect(summary.seqScans).toEqual([
+      {
+        node: 'Seq Scan on public.orders',
+        relation: 'public.orders',
+        tableRows: 60000,
+        filtered: true,
+      },
+    ]);
+    expect(summary.spills.map(s => s.detail)).toEqual([
+      'external merge using 2048kB on disk',
+      'hash split into 4 batches',
+    ]);
+    expect(summary.misestimates.map(m => [m.node, m.factor])).toEqual([
+      ['Sort', 50],
+      ['Hash Join', 50],
+    ]);
+    expect(summary.slowestNodes[0]).toEqual({
+      node: 'Seq Scan on public.orders',
+      exclusive: 80,
+      percent: 66.7,
+    });
+    expect(summary.slowestNodes[1].node).toBe('Sort');
+  });
+
+  test('should prefer catalog table sizes for seq scan detection', () => {
+    const summary = summarizePlan(analyzedPlan, { tableRows: { 'public.orders': 200 } });
+    expect(summary.seqScans).toEqual([]);
+  });
+
+  test('should rank nodes by cost without ANALYZE', () => {
+    const plan = {
+      Plan: {
+        'Node Type': 'Limit',
+        'Total Cost': 110,
+        'Plan Rows': 10,
+        Plans: [
+          {
+            'Node Type': 'Seq Scan',
+            'Relation Name': 'events',
+            Schema: 'public',
+            'Total Cost': 100,
+            'Plan Rows': 20000,
+          },
+        ],
+      },
+    };
+
+    const summary = summarizePlan(plan);
+
+    expect(summary.slowestBasis).toBe('cost');
+    expect(summary.actualRows).toBeUndefined();
+    expect(summary.misestimates).toEqual([]);
+    expect(summary.slowestNodes.map(n => [n.node, n.exclusive])).toEqual([
+      ['Seq Scan on public.events', 100],
+      ['Limit', 10],
+    ]);
+    expect(summary.warnings).toEqual(['Sequential scan on public.events (~20000 rows)']);
+  });
+
+  test('should render a text summary', () => {
+    const text = formatPlanSummaryText(summarizePlan(analyzedPlan));
+
+    expect(text).toContain('Total cost: 2500.5');
+    expect(text).toContain('Execution time: 121.3ms');
+    expect(text).toContain('Slowest nodes:');
+    expect(text).toContain('  - Seq Scan on public.orders: 80ms (66.7%)');
+    expect(text).toContain('Sort spilled to disk');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  DEFAULT_SENSITIVE_PATTERNS,
+  getSensitivePatterns,
+  isSensitiveColumn,
+  maskValue,
+  redactRows,
+} from '../src/utils/redaction';
+
+describe('Redaction', () => {
+  afterEach(() => {
+    delete process.env.SEQUELAE_SENSITIVE_COLUMNS;
+    delete process.env.SEQUELAE_REDACT;
+  });
+
+  describe('getSensitivePatterns', () => {
+    test('should use the environment, else the defaults, plus per-call patterns', () => {
+      expect(getSensitivePatterns()).toEqual(DEFAULT_SENSITIVE_PATTERNS);
+      expect(getSensitivePatterns(['iban'])).toEqual([...DEFAULT_SENSITIVE_PATTERNS, 'iban']);
+
+      process.env.SEQUELAE_SENSITIVE_COLUMNS = ' iban, birth_date ,';
+      expect(getSensitivePatterns()).toEqual(['iban', 'birth_date']);
+      expect(getSensitivePatterns([])).toEqual(['iban', 'birth_date']);
+    });
+
+    test('should only drop the configured patterns when SEQUELAE_REDACT is false', () => {
+      process.env.SEQUELAE_REDACT = 'false';
+      expect(getSensitivePatterns()).toEqual([]);
+      expect(getSensitivePatterns(['email'])).toEqual(['email']);
+    });
+  });
+
+  describe('isSensitiveColumn', () => {
+    test('should match name fragments in any case', () => {
+      expect(isSensitiveColumn('contact_email', DEFAULT_SENSITIVE_PATTERNS)).toBe(true);
+      expect(isSensitiveColumn('resetTokenHash', DEFAULT_SENSITIVE_PATTERNS)).toBe(true);
+      expect(isSensitiveColumn('SSN', DEFAULT_SENSITIVE_PATTERNS)).toBe(true);
+      expect(isSensitiveColumn('name', DEFAULT_SENSITIVE_PATTERNS)).toBe(false);
+    });
+  });
+
+  describe('maskValue', () => {
+    test('should keep the shape of text', () => {
+      expect(maskValue('Ann.Lee@mail.com')).toBe('xxx.xxx@xxxx.xxx');
+      expect(maskValue('+1 (555) 010-9999')).toBe('+0 (000) 000-0000');
+      expect(maskValue('Zoë')).toBe('xxx');
+    });
+
+    test('should hide other values but keep nulls', () => {
+      expect(maskValue(123456789)).toBe('[redacted]');
+      expect(maskValue({ token: 'abc' })).toBe('[redacted]');
+      expect(maskValue(null)).toBeNull();
+    });
+  });
+
+  describe('redactRows', () => {
+    test('should mask sensitive columns only', () => {
+      const rows = [
+        { id: 1, email: 'a@b.co', phone: null },
+        { id: 2, email: 'cd@e.fr', phone: '555' },
+      ];
+
+      expect(redactRows(rows, ['id', 'email', 'phone'], ['email', 'phone'])).toEqual({
+        rows: [
+          { id: 1, email: 'x@x.xx', phone: null },
+          { id: 2, email: 'xx@x.xx', phone: '000' },
+        ],
+        redactedColumns: ['email', 'phone'],
+      });
+      expect(rows[0].email).toBe('a@b.co');
+    });
+
+    test('should report sensitive columns of an empty sample', () => {
+      expect(redactRows([], ['id', 'password_hash'], DEFAULT_SENSITIVE_PATTERNS)).toEqual({
+        rows: [],
+        redactedColumns: ['password_hash'],
+      });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  applyByteBudget,
+  applyResultBudget,
+  applySharedResultBudget,
+  describeTruncation,
+  estimateTokens,
+  getResultBudget,
+  truncateCell,
+} from '../src/utils/result-budget';
+
+describe('Result budget', () => {
+  afterEach(() => {
+    delete process.env.SEQUELAE_MAX_ROWS;
+    delete process.env.SEQUELAE_MAX_BYTES;
+    delete process.env.SEQUELAE_MAX_CELL_LENGTH;
+  });
+
+  describe('getResultBudget', () => {
+    test('should use defaults', () => {
+      expect(getResultBudget()).toEqual({ maxRows: 500, maxBytes: 100000, maxCellLength: 1000 });
+    });
+
+    test('should read environment variables and prefer overrides', () => {
+      process.env.SEQUELAE_MAX_ROWS = '10';
+      process.env.SEQUELAE_MAX_BYTES = '0';
+      process.env.SEQUELAE_MAX_CELL_LENGTH = 'junk';
+
+      expect(getResultBudget({ maxRows: 3 })).toEqual({
+        maxRows: 3,
+        maxBytes: 0,
+        maxCellLength: 1000,
+      });
+    });
+  });
+
+  describe('truncateCell', () => {
+    test('should shorten long strings with a marker', () => {
+      const result = truncateCell('abcdefghij', 4);
+      expect(result).toEqual({ value: 'abcd... [truncated: 10 chars total]', truncated: true });
+    });
+
+    test('should serialize and shorten long json values', () => {
+      const result = truncateCell({ key: 'value' }, 5);
+      expect(result.value).toBe('{"key... [truncated: 15 chars total]');
+    });
+
+    test('should show long bytea values as hex', () => {
+      const result = truncateCell(Buffer.from([1, 2, 3, 4]), 2);
+      expect(result.value).toBe('\\x0102... [truncated: 4 bytes total]');
+    });
+
+    test.each([42, true, null, new Date(0), 'short', { a: 1 }])('should keep %p as is', value => {
+      expect(truncateCell(value, 10)).toEqual({ value, truncated: false });
+    });
+
+    test('should not truncate when the limit is disabled', () => {
+      expect(truncateCell('x'.repeat(5000), 0).truncated).toBe(false);
+    });
+  });
+
+  describe('applyResultBudget', () => {
+    const rows = Array.from({ length: 10 }, (_, i) => ({ id: i, name: `row ${i}` }));
+
+    test('should return everything within budget', () => {
+      const result = applyResultBudget(rows, { maxRows: 0, maxBytes: 0, maxCellLength: 0 });
+      expect(result).toEqual({
+        rows,
+        truncated: false,
+        totalRows: 10,
+        returnedRows: 10,
+        truncatedCells: 0,
+      });
+    });
+
+    test('should stop at the row limit', () => {
+      const result = applyResultBudget(rows, { maxRows: 3, maxBytes: 0, maxCellLength: 0 });
+      expect(result.rows).toEqual(rows.slice(0, 3));
+      expect(result).toMatchObject({ truncated: true, totalRows: 10, reason: 'maxRows' });
+    });
+
+    test('should stop before exceeding the byte limit', () => {
+      const rowBytes = JSON.stringify(rows[0]).length + 1;
+      const result = applyResultBudget(rows, {
+        maxRows: 0,
+        maxBytes: 2 + rowBytes * 4,
+        maxCellLength: 0,
+      });
+      expect(result.returnedRows).toBe(4);
+      expect(result.reason).toBe('maxBytes');
+      expect(JSON.stringify(result.rows).length).toBeLessThanOrEqual(2 + rowBytes * 4);
+    });
+
+    test('should count truncated cells and flag the result', () => {
+      const result = applyResultBudget([{ body: 'x'.repeat(50) }], {
+        maxRows: 0,
+        maxBytes: 0,
+        maxCellLength: 10,
+      });
+      expect(result.truncated).toBe(true);
+      expect(result.truncatedCells).toBe(1);
+      expect(result.returnedRows).toBe(1);
+    });
+  });
+
+  describe('applySharedResultBudget', () => {
+    test('should spend one row budget across the sets in order', () => {
+      const results = applySharedResultBudget(
+        [[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }], [{ id: 5 }]],
+        { maxRows: 3, maxBytes: 0, maxCellLength: 0 }
+      );
+
+      expect(results.map(r => r.rows)).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }], []]);
+      expect(results.map(r => r.truncated)).toEqual([false, true, true]);
+      expect(results[2]).toMatchObject({ totalRows: 1, returnedRows: 0, reason: 'maxRows' });
+    });
+
+    test('should spend one byte budget across the sets', () => {
+      const row = { name: 'abcdefgh' };
+      const rowBytes = JSON.stringify(row).length;
+      const results = applySharedResultBudget(
+        [
+          [row, row],
+          [row, row],
+        ],
+        {
+          maxRows: 0,
+          maxBytes: 2 + (rowBytes + 1) * 3,
+          maxCellLength: 0,
+        }
+      );
+
+      expect(results.map(r => r.returnedRows)).toEqual([2, 0]);
+      expect(results[1].reason).toBe('maxBytes');
+    });
+
+    test('should keep everything when disabled', () => {
+      const sets = [[{ id: 1 }], [{ id: 2 }]];
+      const results = applySharedResultBudget(sets, { maxRows: 0, maxBytes: 0, maxCellLength: 0 });
+      expect(results.map(r => r.rows)).toEqual(sets);
+    });
+  });
+
+  describe('applyByteBudget', () => {
+    test('should keep whole items until the budget is used up', () => {
+      const items = ['aaaa', 'bbbb', 'cccc'];
+      const result = applyByteBudget(items, 2 + 7 * 2);
+      expect(result).toEqual({ items: ['aaaa', 'bbbb'], truncated: true, omitted: ['cccc'] });
+    });
+
+    test('should keep everything when disabled', () => {
+      expect(applyByteBudget([1, 2], 0)).toEqual({ items: [1, 2], truncated: false, omitted: [] });
+    });
+  });
+
+  describe('estimateTokens', () => {
+    test('should count about four characters per token', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+    });
+  });
+
+  describe('describeTruncation', () => {
+    test('should explain dropped rows and shortened cells', () => {
+      const budget = { maxRows: 2, maxBytes: 0, maxCellLength: 5 };
+      const result = applyResultBudget([{ a: 'long value' }, { a: 'b' }, { a: 'c' }], budget);
+      const notice = describeTruncation(result, budget);
+      expect(notice).toContain('showing 2 of 3 rows (limit: 2 rows)');
+      expect(notice).toContain('1 cell value(s) were shortened to 5 characters');
+    });
+  });
+});
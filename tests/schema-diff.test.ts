@@ -0,0 +1,352 @@
+import { ColumnInfo, SchemaResult, TableInfo } from '../src/core/sql-executor';
+import {
+  createTableDdl,
+  diffSchemas,
+  formatSchemaDiffText,
+  generateMigrationDdl,
+  quoteIdent,
+} from '../src/utils/schema-diff';
+
+function column(name: string, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+  return {
+    column_name: name,
+    data_type: 'integer',
+    is_nullable: 'NO',
+    column_default: null,
+    character_maximum_length: null,
+    ...overrides,
+  };
+}
+
+const users: TableInfo = {
+  schema: 'public',
+  name: 'users',
+  columns: [
+    column('id'),
+    column('email', { data_type: 'character varying', character_maximum_length: 100 }),
+  ],
+  constraints: [{ constraint_type: 'PRIMARY KEY', constraint_name: 'users_pkey', columns: ['id'] }],
+};
+
+const posts: TableInfo = {
+  schema: 'public',
+  name: 'posts',
+  columns: [column('id'), column('author_id')],
+  constraints: [
+    { constraint_type: 'PRIMARY KEY', constraint_name: 'posts_pkey', columns: ['id'] },
+    {
+      constraint_type: 'FOREIGN KEY',
+      constraint_name: 'posts_author_id_fkey',
+      columns: ['author_id'],
+      referenced_schema: 'public',
+      referenced_table: 'users',
+      referenced_columns: ['id'],
+      on_delete: 'CASCADE',
+      on_update: 'NO ACTION',
+    },
+  ],
+};
+
+const legacy: TableInfo = {
+  schema: 'public',
+  name: 'Legacy',
+  columns: [column('id')],
+  constraints: [],
+};
+
+describe('Schema diff', () => {
+  describe('diffSchemas', () => {
+    test('should report no changes for identical schemas', () => {
+      const schema: SchemaResult = { tables: [users, posts] };
+      const diff = diffSchemas(schema, schema);
+      expect(diff.hasChanges).toBe(false);
+      expect(formatSchemaDiffText(diff)).toBe('No differences\n');
+    });
+
+    test('should find added, removed and changed tables', () => {
+      const changedUsers: TableInfo = {
+        ...users,
+        columns: [
+          column('id'),
+          column('email', {
+            data_type: 'character varying',
+            character_maximum_length: 255,
+            is_nullable: 'YES',
+            column_default: "''::character varying",
+          }),
+          column('bio', { data_type: 'text', is_nullable: 'YES' }),
+        ],
+      };
+
+      const diff = diffSchemas({ tables: [users, legacy] }, { tables: [changedUsers, posts] });
+
+      expect(diff.hasChanges).toBe(true);
+      expect(diff.addedTables.map(t => t.name)).toEqual(['posts']);
+      expect(diff.removedTables.map(t => t.name)).toEqual(['Legacy']);
+      expect(diff.changedTables).toHaveLength(1);
+      expect(diff.changedTables[0].addedColumns.map(c => c.column_name)).toEqual(['bio']);
+      expect(diff.changedTables[0].changedColumns).toEqual([
+        {
+          column: 'email',
+          changes: [
+            {
+              field: 'type',
+              from: 'character varying(100)',
+              to: 'character varying(255)',
+            },
+            { field: 'nullable', from: 'NO', to: 'YES' },
+            { field: 'default', from: null, to: "''::character varying" },
+          ],
+        },
+      ]);
+    });
+
+    test('should treat a changed constraint as removed and added', () => {
+      const cascading = { ...posts };
+      const restricting: TableInfo = {
+        ...posts,
+        constraints: [posts.constraints[0], { ...posts.constraints[1], on_delete: 'RESTRICT' }],
+      };
+
+      const diff = diffSchemas({ tables: [users, cascading] }, { tables: [users, restricting] });
+
+      const [table] = diff.changedTables;
+      expect(table.removedConstraints.map(c => c.on_delete)).toEqual(['CASCADE']);
+      expect(table.addedConstraints.map(c => c.on_delete)).toEqual(['RESTRICT']);
+    });
+
+    test('should compare indexes, leaving out those backing constraints', () => {
+      const index = (name: string, definition: string) => ({
+        schema: 'public',
+        table: 'users',
+        name,
+        definition,
+        isUnique: false,
+        isPrimary: false,
+      });
+      const from: SchemaResult = {
+        tables: [users],
+        indexes: [
+          index('users_pkey', 'CREATE UNIQUE INDEX users_pkey ON public.users USING btree (id)'),
+          index('users_old_idx', 'CREATE INDEX users_old_idx ON public.users USING btree (id)'),
+          index('users_email_idx', 'CREATE INDEX users_email_idx ON public.users (email)'),
+        ],
+      };
+      const to: SchemaResult = {
+        tables: [users],
+        indexes: [
+          index('users_email_idx', 'CREATE INDEX users_email_idx ON public.users (lower(email))'),
+          index('users_new_idx', 'CREATE INDEX users_new_idx ON public.users (email, id)'),
+        ],
+      };
+
+      const diff = diffSchemas(from, to);
+
+      expect(diff.removedIndexes.map(i => i.name)).toEqual(['users_old_idx']);
+      expect(diff.addedIndexes.map(i => i.name)).toEqual(['users_new_idx']);
+      expect(diff.changedIndexes.map(c => c.to.name)).toEqual(['users_email_idx']);
+    });
+
+    test('should skip indexes when one side has none loaded', () => {
+      const diff = diffSchemas(
+        { tables: [users] },
+        {
+          tables: [users],
+          indexes: [
+            {
+              schema: 'public',
+              table: 'users',
+              name: 'users_email_idx',
+              definition: 'CREATE INDEX users_email_idx ON public.users (email)',
+              isUnique: false,
+              isPrimary: false,
+            },
+          ],
+        }
+      );
+      expect(diff.hasChanges).toBe(false);
+    });
+  });
+
+  describe('generateMigrationDdl', () => {
+    test('should order drops, creates, alters and foreign keys', () => {
+      const changedUsers: TableInfo = {
+        ...users,
+        columns: [
+          column('id'),
+          column('email', {
+            data_type: 'character varying',
+            character_maximum_length: 255,
+            is_nullable: 'YES',
+          }),
+          column('created_at', {
+            data_type: 'timestamp with time zone',
+            column_default: 'now()',
+          }),
+        ],
+      };
+
+      const diff = diffSchemas({ tables: [users, legacy] }, { tables: [changedUsers, posts] });
+      const { statements } = generateMigrationDdl(diff);
+
+      expect(statements).toEqual([
+        'DROP TABLE public."Legacy";',
+        'CREATE TABLE public.posts (\n  id integer NOT NULL,\n  author_id integer NOT NULL,\n  CONSTRAINT posts_pkey PRIMARY KEY (id)\n);',
+        'ALTER TABLE public.users ADD COLUMN created_at timestamp with time zone DEFAULT now() NOT NULL;',
+        'ALTER TABLE public.users ALTER COLUMN email TYPE character varying(255) USING email::character varying(255);',
+        'ALTER TABLE public.users ALTER COLUMN email DROP NOT NULL;',
+        'ALTER TABLE public.posts ADD CONSTRAINT posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.users (id) ON DELETE CASCADE;',
+      ]);
+    });
+
+    test('should drop foreign keys before other constraints', () => {
+      const diff = diffSchemas(
+        { tables: [users, posts] },
+        {
+          tables: [
+            { ...users, constraints: [] },
+            { ...posts, constraints: [] },
+          ],
+        }
+      );
+
+      const { statements } = generateMigrationDdl(diff);
+      expect(statements[0]).toBe('ALTER TABLE public.posts DROP CONSTRAINT posts_author_id_fkey;');
+      expect(statements).toHaveLength(3);
+    });
+
+    test('should swap a default around a type change', () => {
+      const from = {
+        ...legacy,
+        columns: [column('status', { data_type: 'text', column_default: "'1'::text" })],
+      };
+      const to = { ...legacy, columns: [column('status', { column_default: '1' })] };
+
+      expect(
+        generateMigrationDdl(diffSchemas({ tables: [from] }, { tables: [to] })).statements
+      ).toEqual([
+        'ALTER TABLE public."Legacy" ALTER COLUMN status DROP DEFAULT;',
+        'ALTER TABLE public."Legacy" ALTER COLUMN status TYPE integer USING status::integer;',
+        'ALTER TABLE public."Legacy" ALTER COLUMN status SET DEFAULT 1;',
+      ]);
+    });
+
+    test('should drop foreign keys between dropped tables before the tables', () => {
+      const diff = diffSchemas({ tables: [posts, users] }, { tables: [] });
+
+      expect(generateMigrationDdl(diff).statements).toEqual([
+        'ALTER TABLE public.posts DROP CONSTRAINT posts_author_id_fkey;',
+        'DROP TABLE public.posts;',
+        'DROP TABLE public.users;',
+      ]);
+    });
+
+    test('should warn about types and sequences it cannot reproduce', () => {
+      const diff = diffSchemas(
+        { tables: [] },
+        {
+          tables: [
+            {
+              schema: 'public',
+              name: 'events',
+              columns: [
+                column('id', { column_default: "nextval('events_id_seq'::regclass)" }),
+                column('tags', { data_type: 'ARRAY' }),
+              ],
+              constraints: [],
+            },
+          ],
+        }
+      );
+
+      const { warnings } = generateMigrationDdl(diff);
+      expect(warnings).toEqual([
+        'public.events.id defaults to a sequence; create the sequence first or use an identity column',
+        'public.events.tags has type ARRAY; replace it with the actual type',
+      ]);
+    });
+  });
+
+  describe('createTableDdl', () => {
+    test('should inline keys and add comments and plain indexes', () => {
+      const ddl = createTableDdl(
+        {
+          ...posts,
+          comment: "Authors' posts",
+          columns: [column('id'), column('author_id', { comment: 'Writer' })],
+        },
+        [
+          {
+            schema: 'public',
+            table: 'posts',
+            name: 'posts_pkey',
+            definition: 'CREATE UNIQUE INDEX posts_pkey ON public.posts USING btree (id)',
+            isUnique: true,
+            isPrimary: true,
+          },
+          {
+            schema: 'public',
+            table: 'posts',
+            name: 'posts_author_id_idx',
+            definition: 'CREATE INDEX posts_author_id_idx ON public.posts USING btree (author_id)',
+            isUnique: false,
+            isPrimary: false,
+          },
+          {
+            schema: 'public',
+            table: 'users',
+            name: 'users_email_idx',
+            definition: 'CREATE INDEX users_email_idx ON public.users USING btree (email)',
+            isUnique: false,
+            isPrimary: false,
+          },
+        ]
+      );
+
+      expect(ddl).toBe(
+        [
+          'CREATE TABLE public.posts (',
+          '  id integer NOT NULL,',
+          '  author_id integer NOT NULL,',
+          '  CONSTRAINT posts_pkey PRIMARY KEY (id),',
+          '  CONSTRAINT posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.users (id) ON DELETE CASCADE',
+          ');',
+          "COMMENT ON TABLE public.posts IS 'Authors'' posts';",
+          "COMMENT ON COLUMN public.posts.author_id IS 'Writer';",
+          'CREATE INDEX posts_author_id_idx ON public.posts USING btree (author_id);',
+        ].join('\n')
+      );
+    });
+
+    test('should quote mixed-case names', () => {
+      expect(createTableDdl(legacy)).toBe(
+        'CREATE TABLE public."Legacy" (\n  id integer NOT NULL\n);'
+      );
+    });
+  });
+
+  describe('quoteIdent', () => {
+    test('should only quote identifiers that need it', () => {
+      expect(quoteIdent('users')).toBe('users');
+      expect(quoteIdent('Users')).toBe('"Users"');
+      expect(quoteIdent('my "table"')).toBe('"my ""table"""');
+    });
+  });
+
+  describe('formatSchemaDiffText', () => {
+    test('should mark additions, removals and changes', () => {
+      const diff = diffSchemas(
+        { tables: [users, legacy] },
+        { tables: [{ ...users, columns: [column('id', { data_type: 'bigint' })] }, posts] }
+      );
+
+      const text = formatSchemaDiffText(diff);
+      expect(text).toContain('+ table public.posts\n    + column id integer');
+      expect(text).toContain('- table public.Legacy');
+      expect(text).toContain(
+        '~ table public.users\n    - column email\n    ~ column id: type integer → bigint'
+      );
+      expect(text).toContain('Tables: 1 added, 1 removed, 1 changed');
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import { SchemaResult } from '../src/core/sql-executor';
+import {
+  formatByteSize,
+  formatColumnType,
+  formatConstraintText,
+  formatGrantText,
+  formatPermissionText,
+  formatPolicyText,
+  formatRowSecurityText,
+  formatSchemaObjectsText,
+  formatTableSummaryText,
+  parseSchemaInclude,
+  renderSchema,
+} from '../src/utils/schema-renderer';
+
+const schema: SchemaResult = {
+  tables: [
+    {
+      schema: 'public',
+      name: 'memberships',
+      columns: [
+        {
+          column_name: 'user_id',
+          data_type: 'integer',
+          is_nullable: 'NO',
+          column_default: null,
+          character_maximum_length: null,
+        },
+        {
+          column_name: 'org_id',
+          data_type: 'integer',
+          is_nullable: 'NO',
+          column_default: null,
+          character_maximum_length: null,
+        },
+        {
+          column_name: 'role',
+          data_type: 'character varying',
+          is_nullable: 'YES',
+          column_default: "'member'::character varying",
+          character_maximum_length: 20,
+        },
+      ],
+      constraints: [
+        {
+          constraint_type: 'PRIMARY KEY',
+          constraint_name: 'memberships_pkey',
+          columns: ['user_id', 'org_id'],
+        },
+        {
+          constraint_type: 'FOREIGN KEY',
+          constraint_name: 'memberships_user_id_fkey',
+          columns: ['user_id'],
+          referenced_schema: 'public',
+          referenced_table: 'users',
+          referenced_columns: ['id'],
+          on_delete: 'CASCADE',
+          on_update: 'NO ACTION',
+        },
+      ],
+    },
+  ],
+  missingTables: [{ table_name: 'orgz', suggestions: ['orgs'] }],
+  types: [{ schema: 'public', name: 'mood', kind: 'enum', labels: ['sad', 'happy'] }],
+};
+
+describe('Schema renderer', () => {
+  describe('parseSchemaInclude', () => {
+    test('should map kinds to schema options', () => {
+      expect(parseSchemaInclude('views, Indexes')).toEqual({
+        options: { includeViews: true, includeIndexes: true },
+        unknown: [],
+      });
+    });
+
+    test('should expand all', () => {
+      const { options } = parseSchemaInclude('all');
+      expect(Object.keys(options)).toHaveLength(9);
+    });
+
+    test('should report unknown kinds', () => {
+      expect(parseSchemaInclude('views,tables').unknown).toEqual(['tables']);
+    });
+  });
+
+  describe('formatConstraintText', () => {
+    test('should show single and composite key columns', () => {
+      expect(
+        formatConstraintText({
+          constraint_type: 'PRIMARY KEY',
+          constraint_name: 'users_pkey',
+          columns: ['id'],
+        })
+      ).toBe('PRIMARY KEY: id');
+      expect(
+        formatConstraintText({
+          constraint_type: 'UNIQUE',
+          constraint_name: 'memberships_key',
+          columns: ['user_id', 'org_id'],
+        })
+      ).toBe('UNIQUE: (user_id, org_id)');
+    });
+
+    test('should show what a foreign key references and its non-default actions', () => {
+      expect(
+        formatConstraintText({
+          constraint_type: 'FOREIGN KEY',
+          constraint_name: 'posts_author_fkey',
+          columns: ['author_id'],
+          referenced_schema: 'public',
+          referenced_table: 'users',
+          referenced_columns: ['id'],
+          on_delete: 'SET NULL',
+          on_update: 'CASCADE',
+        })
+      ).toBe('FOREIGN KEY: author_id → public.users(id) ON DELETE SET NULL ON UPDATE CASCADE');
+    });
+  });
+
+  describe('formatSchemaObjectsText', () => {
+    test('should render nothing when no kinds were requested', () => {
+      expect(formatSchemaObjectsText({})).toBe('');
+    });
+
+    test('should show empty sections for requested kinds', () => {
+      expect(formatSchemaObjectsText({ triggers: [] })).toBe('TRIGGERS:\n  (none)\n\n');
+    });
+
+    test('should render function signatures, triggers and sequences', () => {
+      const text = formatSchemaObjectsText({
+        functions: [
+          {
+            schema: 'public',
+            name: 'add',
+            kind: 'function',
+            arguments: 'a integer, b integer',
+            returnType: 'integer',
+            language: 'sql',
+            volatility: 'immutable',
+          },
+          {
+            schema: 'public',
+            name: 'archive',
+            kind: 'procedure',
+            arguments: 'days integer',
+            returnType: null,
+            language: 'plpgsql',
+            volatility: 'volatile',
+          },
+        ],
+        triggers: [
+          {
+            schema: 'public',
+            table: 'users',
+            name: 'touch',
+            definition: 'CREATE TRIGGER touch BEFORE UPDATE ON users',
+            enabled: false,
+          },
+        ],
+        sequences: [
+          {
+            schema: 'public',
+            name: 'users_id_seq',
+            dataType: 'bigint',
+            startValue: '1',
+            increment: '1',
+            minValue: '1',
+            maxValue: '9223372036854775807',
+            cycle: false,
+            ownedBy: 'public.users.id',
+          },
+        ],
+      });
+
+      expect(text).toContain(
+        '- function public.add(a integer, b integer) RETURNS integer [sql, immutable]'
+      );
+      expect(text).toContain('- procedure public.archive(days integer) [plpgsql, volatile]');
+      expect(text).toContain('CREATE TRIGGER touch BEFORE UPDATE ON users (disabled)');
+      expect(text).toContain('range 1..9223372036854775807, owned by public.users.id');
+    });
+  });
+
+  describe('row level security and grants', () => {
+    const ownPosts = {
+      name: 'Own posts',
+      command: 'UPDATE' as const,
+      permissive: true,
+      roles: ['authenticated'],
+      using: '(auth.uid() = user_id)',
+      withCheck: '(auth.uid() = user_id)',
+    };
+
+    test('should write policies in CREATE POLICY terms', () => {
+      expect(formatPolicyText('public', 'posts', ownPosts)).toBe(
+        'POLICY "Own posts" ON public.posts FOR UPDATE TO authenticated USING ((auth.uid() = user_id)) WITH CHECK ((auth.uid() = user_id))'
+      );
+      expect(
+        formatPolicyText('public', 'posts', {
+          ...ownPosts,
+          name: 'No drafts',
+          command: 'SELECT',
+          permissive: false,
+          roles: ['anon', 'authenticated'],
+          withCheck: null,
+          using: 'published',
+        })
+      ).toBe(
+        'POLICY "No drafts" ON public.posts AS RESTRICTIVE FOR SELECT TO anon, authenticated USING (published)'
+      );
+    });
+
+    test('should describe row level security status', () => {
+      const info = { schema: 'public', table: 'posts', enabled: true, forced: false, policies: [] };
+      expect(formatRowSecurityText({ ...info, enabled: false })).toBe('public.posts: RLS disabled');
+      expect(formatRowSecurityText({ ...info, policies: [ownPosts] })).toBe(
+        'public.posts: RLS enabled'
+      );
+      expect(formatRowSecurityText(info)).toBe(
+        'public.posts: RLS enabled, no policies (every row is hidden from all but the owner)'
+      );
+      expect(formatRowSecurityText({ ...info, forced: true })).toBe(
+        'public.posts: RLS enabled, forced, no policies (every row is hidden)'
+      );
+    });
+
+    test('should list table privileges before column privileges', () => {
+      expect(
+        formatGrantText({
+          schema: 'public',
+          table: 'posts',
+          grantee: 'app',
+          privileges: ['SELECT', 'INSERT'],
+          columns: { title: ['UPDATE'], body: ['UPDATE', 'REFERENCES'] },
+        })
+      ).toBe('public.posts TO app: SELECT, INSERT, UPDATE (title, body), REFERENCES (body)');
+    });
+
+    test('should render policies and grants as object sections', () => {
+      expect(
+        formatSchemaObjectsText({
+          rowSecurity: [
+            {
+              schema: 'public',
+              table: 'posts',
+              enabled: true,
+              forced: false,
+              policies: [ownPosts],
+            },
+          ],
+          grants: [{ schema: 'public', table: 'posts', grantee: 'PUBLIC', privileges: ['SELECT'] }],
+        })
+      ).toBe(
+        `ROW LEVEL SECURITY:\n  - public.posts: RLS enabled\n  - ${formatPolicyText('public', 'posts', ownPosts)}\n\nGRANTS:\n  - public.posts TO PUBLIC: SELECT\n\n`
+      );
+    });
+
+    test('should answer permission checks', () => {
+      const check = {
+        role: 'authenticated',
+        schema: 'public',
+        table: 'posts',
+        privilege: 'UPDATE' as const,
+        allowed: true,
+        superuser: false,
+        owner: false,
+        rowSecurity: { enabled: true, forced: false, bypassed: false, policies: [ownPosts] },
+        access: 'policies' as const,
+      };
+      expect(formatPermissionText(check)).toBe(
+        `YES: authenticated can UPDATE public.posts, limited by row level security\n  ${formatPolicyText('public', 'posts', ownPosts)}\n`
+      );
+      expect(formatPermissionText({ ...check, allowed: false, access: 'denied' })).toBe(
+        'NO: authenticated does not have UPDATE on public.posts\n'
+      );
+      expect(
+        formatPermissionText({
+          ...check,
+          column: 'title',
+          rowSecurity: { ...check.rowSecurity, policies: [] },
+          access: 'none',
+        })
+      ).toBe(
+        'NO ROWS: authenticated has UPDATE on public.posts.title, but row level security is enabled and no policy for UPDATE applies to it\n'
+      );
+      expect(
+        formatPermissionText({
+          ...check,
+          role: 'app',
+          owner: true,
+          rowSecurity: { ...check.rowSecurity, bypassed: true, policies: [] },
+          access: 'all',
+        })
+      ).toBe('YES: app can UPDATE public.posts (owner, bypasses row level security)\n');
+    });
+  });
+
+  describe('formatTableSummaryText', () => {
+    test('should put one table per line with its row estimate', () => {
+      expect(
+        formatTableSummaryText([
+          { schema: 'public', name: 'orders', rowEstimate: 120000, columnCount: 9, comment: null },
+          { schema: 'audit', name: 'log', rowEstimate: null, columnCount: 3, comment: null },
+        ])
+      ).toBe('public.orders ~120000 rows, 9 columns\naudit.log rows unknown, 3 columns\n');
+      expect(formatTableSummaryText([])).toBe('No tables found\n');
+    });
+  });
+
+  describe('formatColumnType', () => {
+    test('should prefer the full type of array and user-defined columns', () => {
+      const column = {
+        column_name: 'tags',
+        data_type: 'ARRAY',
+        is_nullable: 'YES',
+        column_default: null,
+        character_maximum_length: null,
+      };
+      expect(formatColumnType(column)).toBe('ARRAY');
+      expect(formatColumnType({ ...column, full_type: 'text[]' })).toBe('text[]');
+      expect(
+        formatColumnType({
+          ...column,
+          data_type: 'character varying',
+          character_maximum_length: 20,
+        })
+      ).toBe('character varying(20)');
+    });
+  });
+
+  describe('formatByteSize', () => {
+    test('should switch units like pg_size_pretty', () => {
+      expect(formatByteSize(8192)).toBe('8192 bytes');
+      expect(formatByteSize(65536)).toBe('64 kB');
+      expect(formatByteSize(1415577600)).toBe('1350 MB');
+      expect(formatByteSize(53687091200)).toBe('50 GB');
+    });
+  });
+
+  describe('renderSchema', () => {
+    test('should render text with columns, constraints, missing tables and objects', () => {
+      const text = renderSchema(schema, 'text');
+      expect(text).toContain('📋 public.memberships');
+      expect(text).toContain(
+        "- role: character varying(20) (nullable) DEFAULT 'member'::character varying"
+      );
+      expect(text).toContain('- PRIMARY KEY: (user_id, org_id)');
+      expect(text).toContain('- FOREIGN KEY: user_id → public.users(id) ON DELETE CASCADE');
+      expect(text).toContain('"orgz" (Did you mean: orgs?)');
+      expect(text).toContain("TYPES:\n  - public.mood: enum ('sad', 'happy')");
+    });
+
+    test('should render JSON that round-trips', () => {
+      expect(JSON.parse(renderSchema(schema, 'json'))).toEqual(schema);
+    });
+
+    test('should render markdown tables', () => {
+      const text = renderSchema(schema, 'markdown');
+      expect(text).toContain('## public.memberships');
+      expect(text).toContain('| Column | Type | Nullable | Default |');
+      expect(text).toContain(
+        "| role | character varying(20) | yes | `'member'::character varying` |"
+      );
+      expect(text).toContain('- FOREIGN KEY: user_id → public.users(id) ON DELETE CASCADE');
+      expect(text).toContain('## Tables not found\n\n- `orgz` (Did you mean: orgs?)');
+      expect(text).toContain("## Types\n\n- public.mood: enum ('sad', 'happy')");
+    });
+
+    test('should escape pipes in markdown cells', () => {
+      const piped: SchemaResult = {
+        tables: [
+          {
+            ...schema.tables[0],
+            columns: [{ ...schema.tables[0].columns[2], column_default: "'a|b'::text" }],
+            constraints: [],
+          },
+        ],
+      };
+      expect(renderSchema(piped, 'markdown')).toContain("`'a\\|b'::text`");
+    });
+
+    test('should show comments, row estimates and sizes', () => {
+      const described: SchemaResult = {
+        tables: [
+          {
+            ...schema.tables[0],
+            comment: 'Who belongs to which org',
+            rowEstimate: 1200,
+            totalBytes: 81920,
+            indexBytes: 16384,
+            columns: [
+              { ...schema.tables[0].columns[0], comment: 'Member' },
+              ...schema.tables[0].columns.slice(1),
+            ],
+          },
+        ],
+      };
+
+      const text = renderSchema(described, 'text');
+      expect(text).toContain(
+        '📋 public.memberships (~1200 rows, 80 kB total, 16 kB indexes)\n  Who belongs to which org\n'
+      );
+      expect(text).toContain('- user_id: integer -- Member\n');
+
+      const markdown = renderSchema(described, 'markdown');
+      expect(markdown).toContain(
+        '## public.memberships\n\nWho belongs to which org\n\n_~1200 rows, 80 kB total, 16 kB indexes_\n\n'
+      );
+      expect(markdown).toContain('| Column | Type | Nullable | Default | Comment |');
+      expect(markdown).toContain('| user_id | integer | no |  | Member |');
+      expect(markdown).toContain('| org_id | integer | no |  |  |');
+
+      expect(renderSchema(described, 'compact')).toContain(
+        'PK(user_id,org_id) ~1200 rows -- Who belongs to which org\n'
+      );
+    });
+
+    test('should render one compact line per table', () => {
+      expect(renderSchema(schema, 'compact')).toBe(
+        [
+          'public.memberships(user_id integer →public.users(id), org_id integer, role character varying(20)?) PK(user_id,org_id)',
+          'missing orgz (Did you mean: orgs?)',
+          'enum public.mood(sad|happy)',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+});
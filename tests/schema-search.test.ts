@@ -0,0 +1,201 @@
+import { CatalogEntry, SchemaResult } from '../src/core/sql-executor';
+import {
+  catalogFromSchema,
+  formatSearchResultsText,
+  searchSchema,
+  searchWords,
+  wordSimilarity,
+} from '../src/utils/schema-search';
+
+const catalog: CatalogEntry[] = [
+  {
+    schema: 'public',
+    name: 'invoices',
+    kind: 'table',
+    comment: 'Customer invoices',
+    columns: [
+      { column_name: 'id', data_type: 'integer', comment: null },
+      { column_name: 'due_at', data_type: 'timestamp with time zone', comment: 'Payment deadline' },
+      { column_name: 'customer_email', data_type: 'text', comment: null },
+    ],
+  },
+  {
+    schema: 'billing',
+    name: 'payments',
+    kind: 'table',
+    comment: null,
+    columns: [
+      { column_name: 'due_date', data_type: 'date', comment: null },
+      { column_name: 'amount', data_type: 'numeric(12,2)', comment: null },
+    ],
+  },
+  {
+    schema: 'public',
+    name: 'users',
+    kind: 'table',
+    comment: null,
+    columns: [
+      { column_name: 'email', data_type: 'text', comment: null },
+      { column_name: 'createdAt', data_type: 'timestamp without time zone', comment: null },
+    ],
+  },
+  {
+    schema: 'public',
+    name: 'active_users',
+    kind: 'view',
+    comment: null,
+    columns: [{ column_name: 'email', data_type: 'text', comment: null }],
+  },
+];
+
+function names(term: string, options = {}): string[] {
+  return searchSchema(catalog, term, options).map(
+    hit => `${hit.schema}.${hit.table}${hit.column ? `.${hit.column}` : ''}`
+  );
+}
+
+describe('Schema search', () => {
+  describe('searchWords', () => {
+    test('should split snake case, camel case and phrases into singular words', () => {
+      expect(searchWords('invoice_due_date')).toEqual(['invoice', 'due', 'date']);
+      expect(searchWords('invoiceDueDate')).toEqual(['invoice', 'due', 'date']);
+      expect(searchWords('Invoices, due dates')).toEqual(['invoice', 'due', 'date']);
+      expect(searchWords('address')).toEqual(['address']);
+    });
+  });
+
+  describe('wordSimilarity', () => {
+    test('should rank equal words over prefixes over typos', () => {
+      expect(wordSimilarity('email', 'email')).toBe(1);
+      expect(wordSimilarity('cust', 'customer')).toBe(0.9);
+      expect(wordSimilarity('emial', 'email')).toBeCloseTo(0.64);
+      expect(wordSimilarity('id', 'ip')).toBe(0);
+      expect(wordSimilarity('date', 'data')).toBeCloseTo(0.6);
+    });
+  });
+
+  describe('searchSchema', () => {
+    test('should rank an exact column name above one that contains it', () => {
+      const hits = searchSchema(catalog, 'email');
+      expect(hits.map(hit => `${hit.table}.${hit.column}`)).toEqual([
+        'active_users.email',
+        'users.email',
+        'invoices.customer_email',
+      ]);
+      expect(hits[0]).toMatchObject({
+        kind: 'column',
+        schema: 'public',
+        tableKind: 'view',
+        type: 'text',
+        score: 1,
+        matched: ['column'],
+      });
+      expect(hits[2].score).toBe(0.95);
+    });
+
+    test('should match concepts spread over table and column names', () => {
+      expect(names('invoice due date')).toEqual([
+        'billing.payments.due_date',
+        'public.invoices.due_at',
+        'public.invoices',
+      ]);
+      expect(searchSchema(catalog, 'invoice due date')[1].matched).toEqual(['column', 'table']);
+    });
+
+    test('should not list every column of a table that matches by name', () => {
+      expect(names('invoice')).toEqual(['public.invoices']);
+    });
+
+    test('should search comments and types', () => {
+      expect(searchSchema(catalog, 'deadline')).toEqual([
+        {
+          kind: 'column',
+          schema: 'public',
+          table: 'invoices',
+          tableKind: 'table',
+          column: 'due_at',
+          type: 'timestamp with time zone',
+          comment: 'Payment deadline',
+          score: 0.8,
+          matched: ['comment'],
+        },
+      ]);
+      expect(names('numeric')).toEqual(['billing.payments.amount']);
+    });
+
+    test('should tolerate typos', () => {
+      expect(names('emial')).toContain('public.users.email');
+    });
+
+    test('should filter schemas and limit the hits', () => {
+      expect(names('due', { schemas: ['billing'] })).toEqual(['billing.payments.due_date']);
+      expect(names('email', { limit: 1 })).toEqual(['public.active_users.email']);
+    });
+
+    test('should reject a term without words', () => {
+      expect(() => searchSchema(catalog, ' -- ')).toThrow(
+        'Search term must contain letters or digits'
+      );
+    });
+  });
+
+  describe('catalogFromSchema', () => {
+    test('should list tables and views without comments', () => {
+      const schema: SchemaResult = {
+        tables: [
+          {
+            schema: 'public',
+            name: 'users',
+            columns: [
+              {
+                column_name: 'tags',
+                data_type: 'ARRAY',
+                full_type: 'text[]',
+                is_nullable: 'YES',
+                column_default: null,
+                character_maximum_length: null,
+              },
+            ],
+            constraints: [],
+          },
+        ],
+        views: [
+          {
+            schema: 'public',
+            name: 'tag_counts',
+            definition: 'SELECT 1',
+            columns: [{ column_name: 'n', data_type: 'bigint' }],
+          },
+        ],
+      };
+      expect(catalogFromSchema(schema)).toEqual([
+        {
+          schema: 'public',
+          name: 'users',
+          kind: 'table',
+          comment: null,
+          columns: [{ column_name: 'tags', data_type: 'text[]', comment: null }],
+        },
+        {
+          schema: 'public',
+          name: 'tag_counts',
+          kind: 'view',
+          comment: null,
+          columns: [{ column_name: 'n', data_type: 'bigint', comment: null }],
+        },
+      ]);
+    });
+  });
+
+  describe('formatSearchResultsText', () => {
+    test('should print one hit per line with its score and comment', () => {
+      expect(formatSearchResultsText('deadline', searchSchema(catalog, 'deadline'))).toBe(
+        '0.80 column public.invoices.due_at timestamp with time zone -- Payment deadline\n'
+      );
+      expect(formatSearchResultsText('invoice', searchSchema(catalog, 'invoice'))).toBe(
+        '1.00 table public.invoices -- Customer invoices\n'
+      );
+      expect(formatSearchResultsText('widget', [])).toBe('No tables or columns match "widget"\n');
+    });
+  });
+});
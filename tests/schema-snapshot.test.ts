@@ -0,0 +1,272 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SchemaResult, TableInfo } from '../src/core/sql-executor';
+import {
+  SCHEMA_SNAPSHOT_VERSION,
+  createSchemaSnapshot,
+  isConnectionError,
+  querySchemaSnapshot,
+  readSchemaSnapshot,
+  serializeSchemaSnapshot,
+} from '../src/core/schema-snapshot';
+
+function table(schema: string, name: string): TableInfo {
+  return {
+    schema,
+    name,
+    columns: [
+      {
+        column_name: 'id',
+        data_type: 'integer',
+        is_nullable: 'NO',
+        column_default: null,
+        character_maximum_length: null,
+      },
+      {
+        column_name: 'created_at',
+        data_type: 'timestamp with time zone',
+        is_nullable: 'YES',
+        column_default: 'now()',
+        character_maximum_length: null,
+      },
+    ],
+    constraints: [
+      {
+        constraint_type: 'UNIQUE',
+        constraint_name: `${name}_created_at_key`,
+        columns: ['created_at'],
+      },
+      { constraint_type: 'PRIMARY KEY', constraint_name: `${name}_pkey`, columns: ['id'] },
+    ],
+  };
+}
+
+const schema: SchemaResult = {
+  tables: [table('public', 'users'), table('audit', 'events'), table('public', 'user_roles')],
+  views: [
+    {
+      schema: 'public',
+      name: 'active_users',
+      definition: 'SELECT id FROM users',
+      columns: [{ column_name: 'id', data_type: 'integer' }],
+    },
+  ],
+  types: [{ schema: 'public', name: 'mood', kind: 'enum', labels: ['sad', 'ok', 'happy'] }],
+  indexes: [
+    {
+      schema: 'public',
+      table: 'users',
+      name: 'users_pkey',
+      definition: 'CREATE UNIQUE INDEX users_pkey ON public.users USING btree (id)',
+      isUnique: true,
+      isPrimary: true,
+    },
+    {
+      schema: 'public',
+      table: 'user_roles',
+      name: 'user_roles_pkey',
+      definition: 'CREATE UNIQUE INDEX user_roles_pkey ON public.user_roles USING btree (id)',
+      isUnique: true,
+      isPrimary: true,
+    },
+  ],
+  missingTables: [{ table_name: 'userz', suggestions: ['users'] }],
+};
+
+describe('Schema snapshots', () => {
+  describe('createSchemaSnapshot', () => {
+    test('should sort tables and constraints but keep column and label order', () => {
+      const snapshot = createSchemaSnapshot(schema, true);
+
+      expect(snapshot.version).toBe(SCHEMA_SNAPSHOT_VERSION);
+      expect(snapshot.allSchemas).toBe(true);
+      expect(snapshot.schema.tables.map(t => `${t.schema}.${t.name}`)).toEqual([
+        'audit.events',
+        'public.user_roles',
+        'public.users',
+      ]);
+      expect(snapshot.schema.tables[0].columns.map(c => c.column_name)).toEqual([
+        'id',
+        'created_at',
+      ]);
+      expect(snapshot.schema.tables[0].constraints.map(c => c.constraint_type)).toEqual([
+        'PRIMARY KEY',
+        'UNIQUE',
+      ]);
+      expect(snapshot.schema.types?.[0].labels).toEqual(['sad', 'ok', 'happy']);
+      expect(snapshot.schema.indexes?.map(i => i.name)).toEqual(['user_roles_pkey', 'users_pkey']);
+      expect(snapshot.schema.missingTables).toBeUndefined();
+    });
+
+    test('should keep comments but drop row estimates and sizes', () => {
+      const snapshot = createSchemaSnapshot(
+        {
+          tables: [
+            {
+              ...schema.tables[0],
+              comment: 'Audit trail',
+              rowEstimate: 5000000,
+              totalBytes: 734003200,
+              indexBytes: 104857600,
+            },
+          ],
+        },
+        true
+      );
+
+      expect(snapshot.schema.tables[0].comment).toBe('Audit trail');
+      expect(snapshot.schema.tables[0]).not.toHaveProperty('rowEstimate');
+      expect(snapshot.schema.tables[0]).not.toHaveProperty('totalBytes');
+      expect(snapshot.schema.tables[0]).not.toHaveProperty('indexBytes');
+    });
+
+    test('should serialize the same schema to the same text regardless of input order', () => {
+      const reordered: SchemaResult = {
+        indexes: [...(schema.indexes || [])].reverse(),
+        types: schema.types,
+        views: schema.views,
+        tables: [...schema.tables].reverse(),
+      };
+
+      const first = serializeSchemaSnapshot(createSchemaSnapshot(schema, true));
+      const second = serializeSchemaSnapshot(createSchemaSnapshot(reordered, true));
+
+      expect(second).toBe(first);
+      expect(first.endsWith('}\n')).toBe(true);
+      expect(first.indexOf('"allSchemas"')).toBeLessThan(first.indexOf('"schema"'));
+      expect(first).not.toContain('materializedViews');
+    });
+  });
+
+  describe('readSchemaSnapshot', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'sequelae-snapshot-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should read a snapshot written by serializeSchemaSnapshot', () => {
+      const file = join(dir, 'schema.json');
+      const snapshot = createSchemaSnapshot(schema, false);
+      writeFileSync(file, serializeSchemaSnapshot(snapshot));
+
+      expect(readSchemaSnapshot(file)).toEqual(JSON.parse(serializeSchemaSnapshot(snapshot)));
+    });
+
+    test('should wrap a plain schema saved from sql_schema', () => {
+      const file = join(dir, 'schema.json');
+      writeFileSync(file, JSON.stringify({ tables: [table('public', 'users')] }));
+
+      const snapshot = readSchemaSnapshot(file);
+      expect(snapshot.allSchemas).toBe(false);
+      expect(snapshot.schema.tables).toHaveLength(1);
+    });
+
+    test('should refuse snapshots from a newer version', () => {
+      const file = join(dir, 'schema.json');
+      writeFileSync(
+        file,
+        JSON.stringify({ version: 99, allSchemas: false, schema: { tables: [] } })
+      );
+
+      expect(() => readSchemaSnapshot(file)).toThrow('Unsupported schema snapshot version 99');
+    });
+  });
+
+  describe('querySchemaSnapshot', () => {
+    const snapshot = createSchemaSnapshot(schema, true);
+
+    test('should keep to the public schema unless all schemas are asked for', () => {
+      expect(querySchemaSnapshot(snapshot).tables.map(t => t.name)).toEqual([
+        'user_roles',
+        'users',
+      ]);
+      expect(querySchemaSnapshot(snapshot, undefined, true).tables).toHaveLength(3);
+    });
+
+    test('should filter tables and suggest names for missing ones', () => {
+      const result = querySchemaSnapshot(snapshot, ['users', 'usr', 'events']);
+
+      expect(result.tables.map(t => t.name)).toEqual(['users']);
+      expect(result.missingTables).toEqual([
+        { table_name: 'usr', suggestions: [] },
+        { table_name: 'events', suggestions: [] },
+      ]);
+      expect(querySchemaSnapshot(snapshot, ['userz']).missingTables).toEqual([
+        { table_name: 'userz', suggestions: ['users', 'user_roles'] },
+      ]);
+    });
+
+    test('should only include the object kinds asked for', () => {
+      const result = querySchemaSnapshot(snapshot, ['users'], false, {
+        includeIndexes: true,
+        includeTypes: true,
+      });
+
+      expect(result.views).toBeUndefined();
+      expect(result.types?.map(t => t.name)).toEqual(['mood']);
+      expect(result.indexes?.map(i => i.name)).toEqual(['users_pkey']);
+    });
+
+    test('should sort policies and filter row security and grants by table', () => {
+      const policy = (name: string) => ({
+        name,
+        command: 'ALL' as const,
+        permissive: true,
+        roles: ['public'],
+        using: 'true',
+        withCheck: null,
+      });
+      const withSecurity = createSchemaSnapshot(
+        {
+          ...schema,
+          rowSecurity: [
+            { schema: 'public', table: 'users', enabled: true, forced: false, policies: [] },
+            {
+              schema: 'public',
+              table: 'user_roles',
+              enabled: true,
+              forced: false,
+              policies: [policy('b'), policy('a')],
+            },
+          ],
+          grants: [
+            { schema: 'public', table: 'users', grantee: 'app', privileges: ['SELECT'] },
+            { schema: 'public', table: 'user_roles', grantee: 'app', privileges: ['SELECT'] },
+          ],
+        },
+        true
+      );
+
+      expect(withSecurity.schema.rowSecurity?.map(r => r.table)).toEqual(['user_roles', 'users']);
+      expect(withSecurity.schema.rowSecurity?.[0].policies.map(p => p.name)).toEqual(['a', 'b']);
+
+      const result = querySchemaSnapshot(withSecurity, ['users'], false, {
+        includePolicies: true,
+        includeGrants: true,
+      });
+      expect(result.rowSecurity?.map(r => r.table)).toEqual(['users']);
+      expect(result.grants?.map(g => g.table)).toEqual(['users']);
+      expect(querySchemaSnapshot(withSecurity).rowSecurity).toBeUndefined();
+    });
+  });
+
+  describe('isConnectionError', () => {
+    test('should tell unreachable databases from failing queries', () => {
+      expect(isConnectionError(Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }))).toBe(
+        true
+      );
+      expect(isConnectionError(Object.assign(new Error('gone'), { code: '08006' }))).toBe(true);
+      expect(isConnectionError(new Error('timeout exceeded when trying to connect'))).toBe(true);
+      expect(
+        isConnectionError(Object.assign(new Error('relation does not exist'), { code: '42P01' }))
+      ).toBe(false);
+      expect(isConnectionError('ECONNREFUSED')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { SessionManager } from '../src/core/session-manager';
+import { PoolManager } from '../src/core/pool-manager';
+import { ReadOnlyViolationError } from '../src/utils/sql-classifier';
+import { logger } from '../src/utils/logger';
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+  let mockPoolManager: any;
+  let mockClient: any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    mockClient = {
+      query: jest.fn(async (sql: string) => ({
+        command: sql.split(' ')[0].toUpperCase(),
+        rowCount: 1,
+        rows: [{ id: 1 }],
+      })),
+      release: jest.fn(),
+    };
+    mockPoolManager = {
+      getClient: jest.fn().mockResolvedValue(mockClient),
+    };
+
+    sessions = new SessionManager(mockPoolManager as PoolManager, {
+      idleTimeoutMs: 1000,
+      maxSessions: 2,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should pin a client and keep the transaction open across calls', async () => {
+    const { sessionId } = await sessions.begin();
+
+    await sessions.exec(sessionId, 'UPDATE accounts SET balance = 0');
+    const result = await sessions.exec(sessionId, 'SELECT * FROM accounts WHERE id = $1', [1]);
+
+    expect(mockPoolManager.getClient).toHaveBeenCalledTimes(1);
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL READ COMMITTED');
+    expect(mockClient.query).toHaveBeenCalledWith('SELECT * FROM accounts WHERE id = $1', [1]);
+    expect(mockClient.release).not.toHaveBeenCalled();
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(sessions.count()).toBe(1);
+  });
+
+  test('should commit and release the client', async () => {
+    const { sessionId } = await sessions.begin({ isolationLevel: 'serializable' });
+
+    const result = await sessions.commit(sessionId);
+
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL SERIALIZABLE');
+    expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(result).toMatchObject({ sessionId, command: 'COMMIT', committed: true });
+    expect(mockClient.release).toHaveBeenCalled();
+    expect(sessions.count()).toBe(0);
+  });
+
+  test('should report a commit of a failed transaction as not committed', async () => {
+    const { sessionId } = await sessions.begin();
+    mockClient.query.mockResolvedValueOnce({ command: 'ROLLBACK', rowCount: 0, rows: [] });
+
+    const result = await sessions.commit(sessionId);
+
+    expect(result.committed).toBe(false);
+  });
+
+  test('should roll back idle sessions automatically', async () => {
+    const { sessionId } = await sessions.begin();
+    // The timer fires while the stdio server owns stdout
+    logger.setStderrOnly(true);
+    const stdout = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringContaining('[WARN] Rolling back idle session'),
+      expect.objectContaining({ sessionId })
+    );
+    stdout.mockRestore();
+    stderr.mockRestore();
+    logger.setStderrOnly(false);
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(sessions.count()).toBe(0);
+    await expect(sessions.exec(sessionId, 'SELECT 1')).rejects.toThrow('Session not found');
+  });
+
+  test('should limit a per-call timeout to that call', async () => {
+    const { sessionId } = await sessions.begin();
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql === 'SHOW statement_timeout'
+        ? { command: 'SHOW', rowCount: 1, rows: [{ statement_timeout: '30s' }] }
+        : { command: sql.split(' ')[0].toUpperCase(), rowCount: 1, rows: [{ id: 1 }] }
+    );
+
+    await sessions.exec(sessionId, 'UPDATE accounts SET balance = 0', undefined, 500);
+    await sessions.exec(sessionId, 'SELECT 1');
+
+    expect(mockClient.query.mock.calls.slice(1)).toEqual([
+      ['SHOW statement_timeout'],
+      ['SET LOCAL statement_timeout = 500'],
+      ['UPDATE accounts SET balance = 0'],
+      ["SELECT set_config('statement_timeout', $1, true)", ['30s']],
+      ['SELECT 1'],
+    ]);
+  });
+
+  test('should reject transaction control statements', async () => {
+    const { sessionId } = await sessions.begin();
+
+    await expect(sessions.exec(sessionId, 'COMMIT')).rejects.toThrow(
+      'Transaction control statements are not allowed'
+    );
+    await expect(sessions.exec(sessionId, 'ROLLBACK TO SAVEPOINT a')).resolves.toBeDefined();
+  });
+
+  test('should enforce read-only sessions', async () => {
+    const { sessionId, readOnly } = await sessions.begin({ readOnly: true });
+
+    expect(readOnly).toBe(true);
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL READ COMMITTED READ ONLY');
+    await expect(sessions.exec(sessionId, 'DELETE FROM accounts')).rejects.toThrow(
+      ReadOnlyViolationError
+    );
+  });
+
+  test('should not let a session relax server-wide read-only mode', async () => {
+    const readOnlySessions = new SessionManager(mockPoolManager as PoolManager, {
+      readOnly: true,
+    });
+
+    const session = await readOnlySessions.begin({ readOnly: false });
+
+    expect(session.readOnly).toBe(true);
+    await readOnlySessions.closeAll();
+  });
+
+  test('should limit the number of open sessions', async () => {
+    await sessions.begin();
+    await sessions.begin();
+
+    await expect(sessions.begin()).rejects.toThrow('Too many open sessions (max 2)');
+  });
+
+  test('should reject invalid isolation levels', async () => {
+    await expect(sessions.begin({ isolationLevel: 'chaos' })).rejects.toThrow(
+      'Invalid isolation level'
+    );
+    expect(mockPoolManager.getClient).not.toHaveBeenCalled();
+  });
+
+  test('should roll back everything on closeAll', async () => {
+    await sessions.begin();
+    await sessions.begin();
+
+    await sessions.closeAll();
+
+    expect(sessions.count()).toBe(0);
+    expect(mockClient.release).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep sessions to the owner that opened them', async () => {
+    const { sessionId } = await sessions.begin({ owner: 'client-a' });
+
+    await expect(
+      sessions.exec(sessionId, 'SELECT 1', undefined, undefined, 'client-b')
+    ).rejects.toThrow(`Session not found: ${sessionId}`);
+    await expect(sessions.exec(sessionId, 'SELECT 1')).rejects.toThrow('Session not found');
+    await expect(sessions.rollback(sessionId, 'client-b')).rejects.toThrow('Session not found');
+    await expect(sessions.commit(sessionId, 'client-a')).resolves.toMatchObject({ sessionId });
+  });
+
+  test('should roll back only the sessions of a closed owner', async () => {
+    await sessions.begin({ owner: 'client-a' });
+    const other = await sessions.begin({ owner: 'client-b' });
+
+    await sessions.closeOwnedBy('client-a');
+
+    expect(sessions.count()).toBe(1);
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    await expect(
+      sessions.exec(other.sessionId, 'SELECT 1', undefined, undefined, 'client-b')
+    ).resolves.toMatchObject({ rowCount: 1 });
+  });
+});
@@ -0,0 +1,121 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+import { assertReadOnly, classifySql, ReadOnlyViolationError } from '../src/utils/sql-classifier';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SQL Classifier', () => {
+  describe('classifySql', () => {
+    test.each([
+      'SELECT * FROM users',
+      'select 1',
+      '(SELECT 1) UNION (SELECT 2)',
+      'SHOW search_path',
+      'EXPLAIN DELETE FROM users',
+      'EXPLAIN ANALYZE SELECT * FROM users',
+      'EXPLAIN (ANALYZE false) UPDATE users SET name = 1',
+      'WITH recent AS (SELECT * FROM posts) SELECT * FROM recent',
+      'SELECT * FROM accounts FOR UPDATE',
+      "SELECT 'DROP TABLE users; DELETE FROM x' AS text",
+    ])('should allow read-only statement: %s', sql => {
+      const [classification] = classifySql(sql);
+      expect(classification.readOnly).toBe(true);
+    });
+
+    test.each([
+      ['DROP TABLE users', 'DROP'],
+      ['INSERT INTO users (name) VALUES ($1)', 'INSERT'],
+      ['BEGIN', 'BEGIN'],
+      ['SET transaction_read_only = off', 'SET'],
+      ['WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone', 'WITH'],
+      ['SELECT * INTO backup_users FROM users', 'SELECT'],
+      ['EXPLAIN ANALYZE DELETE FROM users', 'EXPLAIN'],
+      ['EXPLAIN (ANALYZE, BUFFERS) UPDATE users SET name = 1', 'EXPLAIN'],
+    ])('should reject %s', (sql, command) => {
+      const [classification] = classifySql(sql);
+      expect(classification.readOnly).toBe(false);
+      expect(classification.command).toBe(command);
+      expect(classification.reason).toBeDefined();
+    });
+
+    test('should classify every statement in the input', () => {
+      const result = classifySql('SELECT 1; DROP TABLE users; SELECT 2');
+      expect(result.map(c => [c.command, c.readOnly])).toEqual([
+        ['SELECT', true],
+        ['DROP', false],
+        ['SELECT', true],
+      ]);
+    });
+  });
+
+  describe('assertReadOnly', () => {
+    test('should pass for read-only input', () => {
+      expect(() => assertReadOnly('SELECT 1; SHOW timezone')).not.toThrow();
+    });
+
+    test('should name the offending statement', () => {
+      let caught: unknown;
+      try {
+        assertReadOnly('SELECT 1;\nTRUNCATE audit_log');
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ReadOnlyViolationError);
+      const violation = caught as ReadOnlyViolationError;
+      expect(violation.code).toBe('READ_ONLY_VIOLATION');
+      expect(violation.statementIndex).toBe(1);
+      expect(violation.command).toBe('TRUNCATE');
+      expect(violation.statement).toBe('TRUNCATE audit_log');
+      expect(violation.message).toContain('statement 2');
+    });
+  });
+
+  describe('SqlExecutor in read-only mode', () => {
+    let mockClient: any;
+    let mockPoolManager: any;
+
+    beforeEach(() => {
+      mockClient = {
+        query: jest.fn().mockResolvedValue({ command: 'SELECT', rowCount: 0, rows: [] }),
+        release: jest.fn(),
+      };
+      mockPoolManager = {
+        initialize: jest.fn(),
+        getClient: jest.fn().mockResolvedValue(mockClient),
+        isInitialized: jest.fn().mockReturnValue(true),
+      };
+      (PoolManager.getInstance as jest.Mock).mockReturnValue(mockPoolManager);
+    });
+
+    afterEach(() => {
+      delete process.env.SEQUELAE_READ_ONLY;
+    });
+
+    test('should run reads inside a READ ONLY transaction', async () => {
+      const executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: true });
+
+      await executor.executeQuery('SELECT * FROM users', false);
+
+      expect(mockClient.query).toHaveBeenNthCalledWith(1, 'BEGIN READ ONLY');
+      expect(mockClient.query).toHaveBeenNthCalledWith(2, 'SELECT * FROM users');
+      expect(mockClient.query).toHaveBeenNthCalledWith(3, 'COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    test('should reject writes without checking out a client', async () => {
+      const executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: true });
+
+      await expect(executor.executeQuery('DROP TABLE users')).rejects.toThrow(
+        ReadOnlyViolationError
+      );
+      expect(mockPoolManager.getClient).not.toHaveBeenCalled();
+    });
+
+    test('should read the mode from SEQUELAE_READ_ONLY', () => {
+      process.env.SEQUELAE_READ_ONLY = 'true';
+      const executor = new SqlExecutor('postgresql://test@localhost/test');
+      expect(executor.isReadOnly).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+import { ReadOnlyViolationError } from '../src/utils/sql-classifier';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor explain', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+  let mockPoolManager: any;
+
+  const plan = {
+    Plan: {
+      'Node Type': 'Seq Scan',
+      'Relation Name': 'users',
+      Schema: 'public',
+      'Total Cost': 35.5,
+      'Plan Rows': 2550,
+    },
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.startsWith('EXPLAIN')) {
+          return { rows: [{ 'QUERY PLAN': [plan] }] };
+        }
+        if (sql.includes('pg_class')) {
+          return { rows: [{ relation: 'public.users', rows: '1000000' }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    mockPoolManager = {
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue(mockPoolManager);
+
+    executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: false });
+  });
+
+  test('should explain inside a transaction that is rolled back', async () => {
+    const result = await executor.explain('SELECT * FROM users');
+
+    expect(mockClient.query).toHaveBeenNthCalledWith(1, 'BEGIN');
+    expect(mockClient.query).toHaveBeenNthCalledWith(
+      2,
+      'EXPLAIN (FORMAT JSON) SELECT * FROM users'
+    );
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.query).not.toHaveBeenCalledWith('COMMIT');
+    expect(mockClient.release).toHaveBeenCalled();
+    expect(result.plan).toEqual(plan);
+    expect(result.analyzed).toBe(false);
+  });
+
+  test('should use catalog row counts for sequential scans', async () => {
+    const result = await executor.explain('SELECT * FROM users');
+
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('reltuples'), [
+      ['public.users'],
+    ]);
+    expect(result.summary.seqScans[0].tableRows).toBe(1000000);
+  });
+
+  test('should run ANALYZE with BUFFERS, params and a timeout and still roll back', async () => {
+    const result = await executor.explain('DELETE FROM users WHERE id = $1', {
+      analyze: true,
+      buffers: true,
+      params: [7],
+      timeoutMs: 500,
+    });
+
+    expect(mockClient.query).toHaveBeenCalledWith('SET LOCAL statement_timeout = 500');
+    expect(mockClient.query).toHaveBeenCalledWith(
+      'EXPLAIN (FORMAT JSON, ANALYZE, BUFFERS) DELETE FROM users WHERE id = $1',
+      [7]
+    );
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(result.analyzed).toBe(true);
+  });
+
+  test('should roll back when EXPLAIN fails', async () => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('EXPLAIN')) {
+        throw new Error('relation "nope" does not exist');
+      }
+      return { rows: [] };
+    });
+
+    await expect(executor.explain('SELECT * FROM nope')).rejects.toThrow('does not exist');
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  test.each([
+    ['SELECT 1; SELECT 2', 'exactly one statement'],
+    ['EXPLAIN SELECT 1', 'without EXPLAIN'],
+  ])('should reject %p', async (sql, message) => {
+    await expect(executor.explain(sql)).rejects.toThrow(message);
+    expect(mockPoolManager.getClient).not.toHaveBeenCalled();
+  });
+
+  test('should refuse ANALYZE of writes in read-only mode', async () => {
+    const readOnlyExecutor = new SqlExecutor('postgresql://test@localhost/test', {
+      readOnly: true,
+    });
+
+    await expect(
+      readOnlyExecutor.explain('UPDATE users SET name = 1', { analyze: true })
+    ).rejects.toThrow(ReadOnlyViolationError);
+
+    await readOnlyExecutor.explain('UPDATE users SET name = 1');
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN READ ONLY');
+  });
+});
@@ -0,0 +1,59 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor parameterized queries', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+  let mockPoolManager: any;
+
+  beforeEach(() => {
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ command: 'SELECT', rowCount: 1, rows: [{ id: 1 }] }),
+      release: jest.fn(),
+    };
+    mockPoolManager = {
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue(mockPoolManager);
+
+    executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: false });
+  });
+
+  test('should pass params to pg as bind parameters', async () => {
+    const result = await executor.executeQuery('SELECT * FROM users WHERE id = $1', [1]);
+
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN');
+    expect(mockClient.query).toHaveBeenCalledWith('SELECT * FROM users WHERE id = $1', [1]);
+    expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    expect(result.rows).toEqual([{ id: 1 }]);
+  });
+
+  test('should honour transaction and timeout arguments after params', async () => {
+    await executor.executeQuery('SELECT $1::int', [5], false, 1000);
+
+    expect(mockClient.query).toHaveBeenCalledWith('SET statement_timeout = 1000');
+    expect(mockClient.query).toHaveBeenCalledWith('SELECT $1::int', [5]);
+    expect(mockClient.query).not.toHaveBeenCalledWith('BEGIN');
+  });
+
+  test('should keep the original signature working', async () => {
+    await executor.executeQuery('SELECT 1', false, 500);
+
+    expect(mockClient.query).toHaveBeenCalledWith('SET statement_timeout = 500');
+    expect(mockClient.query).toHaveBeenCalledWith('SELECT 1');
+    expect(mockClient.query).not.toHaveBeenCalledWith('BEGIN');
+    // The timeout must not outlive the query on the pooled client
+    expect(mockClient.query).toHaveBeenLastCalledWith('RESET statement_timeout');
+  });
+
+  test('should reject multiple statements with params', async () => {
+    await expect(executor.executeQuery('SELECT $1; SELECT 2', [1])).rejects.toThrow(
+      'Parameterized queries must contain a single statement'
+    );
+    expect(mockPoolManager.getClient).not.toHaveBeenCalled();
+  });
+});
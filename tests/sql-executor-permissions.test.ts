@@ -0,0 +1,127 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor checkPermission', () => {
+  let executor: SqlExecutor;
+  let mockPool: any;
+  let role: Record<string, unknown>[];
+  let check: Record<string, unknown>;
+  let columnExists: boolean;
+
+  const ownPosts = {
+    name: 'Own posts',
+    command: 'UPDATE',
+    permissive: true,
+    roles: ['authenticated'],
+    using: '(auth.uid() = user_id)',
+    withCheck: '(auth.uid() = user_id)',
+  };
+
+  beforeEach(() => {
+    role = [{ superuser: false, bypass_rls: false }];
+    columnExists = true;
+    check = { allowed: true, owner: false, enabled: true, forced: false, policies: [ownPosts] };
+    mockPool = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM pg_roles')) {
+          return { rows: role };
+        }
+        if (sql.includes('c.relkind = ANY($3)')) {
+          return {
+            rows: [{ oid: 16400, schema: 'public', name: 'posts', kind: 'r', row_estimate: '10' }],
+          };
+        }
+        if (sql.includes('FROM pg_attribute')) {
+          return { rows: columnExists ? [{ '?column?': 1 }] : [] };
+        }
+        return { rows: [check] };
+      }),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue({
+      initialize: jest.fn(),
+      getPool: jest.fn().mockReturnValue(mockPool),
+      isInitialized: jest.fn().mockReturnValue(true),
+    });
+
+    executor = new SqlExecutor('postgresql://test@localhost/test');
+  });
+
+  test('should report rows limited by the policies that apply to the role', async () => {
+    const result = await executor.checkPermission('authenticated', 'posts', 'UPDATE');
+
+    const [sql, params] = mockPool.query.mock.calls[2];
+    expect(sql).toContain('has_table_privilege($1, c.oid, $3)');
+    expect(sql).toContain("p.cmd IN ('ALL', $3)");
+    expect(params).toEqual(['authenticated', 16400, 'UPDATE']);
+    expect(result).toEqual({
+      role: 'authenticated',
+      schema: 'public',
+      table: 'posts',
+      privilege: 'UPDATE',
+      allowed: true,
+      superuser: false,
+      owner: false,
+      rowSecurity: { enabled: true, forced: false, bypassed: false, policies: [ownPosts] },
+      access: 'policies',
+    });
+  });
+
+  test('should tell when no policy lets any row through', async () => {
+    check = { ...check, policies: [{ ...ownPosts, permissive: false }] };
+    const result = await executor.checkPermission('authenticated', 'posts', 'UPDATE');
+    expect(result.access).toBe('none');
+  });
+
+  test('should let owners and superusers bypass row level security unless forced', async () => {
+    check = { ...check, owner: true, policies: [] };
+    expect(await executor.checkPermission('app', 'posts', 'DELETE')).toMatchObject({
+      access: 'all',
+      rowSecurity: { bypassed: true },
+    });
+
+    check = { ...check, forced: true };
+    expect((await executor.checkPermission('app', 'posts', 'DELETE')).access).toBe('none');
+
+    role = [{ superuser: true, bypass_rls: false }];
+    expect((await executor.checkPermission('postgres', 'posts', 'DELETE')).access).toBe('all');
+  });
+
+  test('should not apply row level security to TRUNCATE', async () => {
+    check = { ...check, policies: [] };
+    expect((await executor.checkPermission('app', 'posts', 'TRUNCATE')).access).toBe('all');
+  });
+
+  test('should report missing privileges', async () => {
+    check = { ...check, allowed: false };
+    expect((await executor.checkPermission('anon', 'posts', 'INSERT')).access).toBe('denied');
+  });
+
+  test('should check column privileges', async () => {
+    const result = await executor.checkPermission('authenticated', 'posts', 'UPDATE', 'title');
+
+    const [sql, params] = mockPool.query.mock.calls[3];
+    expect(sql).toContain('has_column_privilege($1, c.oid, $4, $3)');
+    expect(params).toEqual(['authenticated', 16400, 'UPDATE', 'title']);
+    expect(result.column).toBe('title');
+
+    columnExists = false;
+    await expect(
+      executor.checkPermission('authenticated', 'posts', 'UPDATE', 'nope')
+    ).rejects.toThrow('Column not found: public.posts.nope');
+    await expect(
+      executor.checkPermission('authenticated', 'posts', 'DELETE', 'title')
+    ).rejects.toThrow('DELETE cannot be granted on columns');
+  });
+
+  test('should reject unknown roles and privileges', async () => {
+    role = [];
+    await expect(executor.checkPermission('nobody', 'posts', 'SELECT')).rejects.toThrow(
+      'Role not found: nobody'
+    );
+    await expect(executor.checkPermission('app', 'posts', 'EXECUTE' as any)).rejects.toThrow(
+      'Unknown privilege: EXECUTE'
+    );
+  });
+});
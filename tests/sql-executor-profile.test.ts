@@ -0,0 +1,164 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor profileTable', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+  let relations: Record<string, unknown>[];
+
+  const columns = [
+    {
+      column_name: 'id',
+      data_type: 'integer',
+      category: 'N',
+      null_frac: 0,
+      n_distinct: -1,
+      most_common_vals: null,
+      most_common_freqs: null,
+      histogram_bounds: ['1', '500', '1000'],
+      correlation: 1,
+    },
+    {
+      column_name: 'created_at',
+      data_type: 'timestamp with time zone',
+      category: 'D',
+      null_frac: 0,
+      n_distinct: -0.9,
+      most_common_vals: null,
+      most_common_freqs: null,
+      histogram_bounds: null,
+      correlation: 0.2,
+    },
+    {
+      column_name: 'Status',
+      data_type: 'text',
+      category: 'S',
+      null_frac: 0.5,
+      n_distinct: 2,
+      most_common_vals: ['paid', 'open'],
+      most_common_freqs: [0.3, 0.2],
+      histogram_bounds: null,
+      correlation: null,
+    },
+  ];
+
+  beforeEach(() => {
+    relations = [{ oid: 16384, schema: 'public', name: 'orders', kind: 'r', row_estimate: '1000' }];
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM pg_class')) {
+          return { rows: relations };
+        }
+        if (sql.includes('FROM pg_attribute')) {
+          return { rows: columns };
+        }
+        if (sql.includes('TABLESAMPLE')) {
+          return {
+            rows: [
+              {
+                rows: '10',
+                c0: { nonNull: 10, distinct: 10, top: null, min: '3', max: '998', avg: '501.2' },
+                c1: {
+                  nonNull: 10,
+                  distinct: 10,
+                  top: null,
+                  min: '2024-01-01 00:00:00+00',
+                  max: '2024-06-30 00:00:00+00',
+                  avg: '2024-03-31 12:00:00+00',
+                },
+                c2: { nonNull: 5, distinct: 2, top: [{ value: 'paid', count: 3 }] },
+              },
+            ],
+          };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue({
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    });
+
+    executor = new SqlExecutor('postgresql://test@localhost/test');
+  });
+
+  test('should profile from pg_stats inside a read-only transaction', async () => {
+    const profile = await executor.profileTable('orders', { timeoutMs: 5000 });
+
+    expect(mockClient.query).toHaveBeenNthCalledWith(1, 'BEGIN READ ONLY');
+    expect(mockClient.query).toHaveBeenNthCalledWith(2, 'SET LOCAL statement_timeout = 5000');
+    expect(mockClient.query.mock.calls[2][1]).toEqual(['orders', null, ['r', 'p', 'm']]);
+    expect(mockClient.query.mock.calls[3][1]).toEqual([16384, 'public', 'orders', false]);
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+
+    expect(profile).toMatchObject({
+      schema: 'public',
+      table: 'orders',
+      rowEstimate: 1000,
+      source: 'pg_stats',
+      analyzed: true,
+    });
+    expect(profile.columns[0]).toMatchObject({ distinct: 1000, min: '1', max: '1000' });
+    expect(profile.columns[1].distinct).toBe(900);
+    expect(profile.columns[2].mostCommon).toEqual([
+      { value: 'paid', frequency: 0.3 },
+      { value: 'open', frequency: 0.2 },
+    ]);
+  });
+
+  test('should profile a sample exactly', async () => {
+    const profile = await executor.profileTable('public.orders', {
+      samplePercent: 1,
+      method: 'bernoulli',
+      top: 3,
+    });
+
+    const [sql, params] = mockClient.query.mock.calls.find(([text]: [string]) =>
+      text.includes('TABLESAMPLE')
+    );
+    expect(sql).toContain('FROM "public"."orders"\n        TABLESAMPLE BERNOULLI ($1)');
+    expect(sql).toContain('count(DISTINCT "Status"::text)');
+    expect(sql).toContain('\'avg\', avg("id")::text');
+    expect(sql).toContain('\'avg\', (to_timestamp(avg(extract(epoch FROM "created_at"))))::text');
+    expect(sql).not.toContain('min("Status")');
+    expect(params).toEqual([1, 3]);
+
+    expect(profile.source).toBe('sample');
+    expect(profile.sample).toEqual({ method: 'bernoulli', percent: 1, rows: 10 });
+    expect(profile.columns[0]).toMatchObject({ nullFraction: 0, min: '3', avg: '501.2' });
+    expect(profile.columns[2]).toMatchObject({
+      nullFraction: 0.5,
+      distinct: 2,
+      mostCommon: [{ value: 'paid', frequency: 0.3 }],
+    });
+  });
+
+  test('should report missing and ambiguous tables', async () => {
+    relations = [];
+    await expect(executor.profileTable('nope')).rejects.toThrow('Table not found: nope');
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+
+    relations = [
+      { oid: 1, schema: 'billing', name: 'orders', kind: 'r', row_estimate: '-1' },
+      { oid: 2, schema: 'sales', name: 'orders', kind: 'r', row_estimate: '-1' },
+    ];
+    await expect(executor.profileTable('orders')).rejects.toThrow(
+      'Table name orders is ambiguous; qualify it with a schema: billing.orders, sales.orders'
+    );
+  });
+
+  test('should validate options before connecting', async () => {
+    await expect(executor.profileTable('orders', { samplePercent: 0 })).rejects.toThrow(
+      'Sample percent must be greater than 0 and at most 100'
+    );
+    await expect(executor.profileTable('orders', { top: 0 })).rejects.toThrow(
+      'top must be a positive integer'
+    );
+    expect(mockClient.query).not.toHaveBeenCalled();
+  });
+});
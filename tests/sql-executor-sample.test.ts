@@ -0,0 +1,100 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor sampleRows', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+  let rowEstimate: string;
+
+  beforeEach(() => {
+    rowEstimate = '500';
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM pg_class')) {
+          return {
+            rows: [
+              { oid: 16384, schema: 'public', name: 'users', kind: 'r', row_estimate: rowEstimate },
+            ],
+          };
+        }
+        if (sql.includes('FROM pg_attribute')) {
+          return {
+            rows: [
+              { column_name: 'id', data_type: 'integer' },
+              { column_name: 'Email', data_type: 'text' },
+            ],
+          };
+        }
+        if (sql.includes('ORDER BY random()')) {
+          return { rows: [{ id: 7, Email: 'a@b.co' }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue({
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    });
+
+    executor = new SqlExecutor('postgresql://test@localhost/test');
+  });
+
+  function sampleQuery(): [string, unknown[]] {
+    return mockClient.query.mock.calls.find(([sql]: [string]) => sql.includes('ORDER BY random()'));
+  }
+
+  test('should order small tables randomly inside a read-only transaction', async () => {
+    const sample = await executor.sampleRows('users', { rows: 5, timeoutMs: 1000 });
+
+    expect(mockClient.query).toHaveBeenNthCalledWith(1, 'BEGIN READ ONLY');
+    expect(mockClient.query).toHaveBeenNthCalledWith(2, 'SET LOCAL statement_timeout = 1000');
+    expect(sampleQuery()).toEqual([
+      'SELECT "id", "Email" FROM "public"."users" ORDER BY random() LIMIT $1',
+      [5],
+    ]);
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+    expect(sample).toMatchObject({
+      schema: 'public',
+      table: 'users',
+      rowEstimate: 500,
+      method: 'random',
+      columns: [
+        { column_name: 'id', data_type: 'integer' },
+        { column_name: 'Email', data_type: 'text' },
+      ],
+      rows: [{ id: 7, Email: 'a@b.co' }],
+    });
+    expect(sample).not.toHaveProperty('percent');
+  });
+
+  test('should use TABLESAMPLE sized from the row estimate on large tables', async () => {
+    rowEstimate = '2000000';
+    const sample = await executor.sampleRows('public.users');
+
+    const [sql, params] = sampleQuery();
+    expect(sql).toContain('FROM "public"."users" TABLESAMPLE BERNOULLI ($1)');
+    // 10 rows, three times over, of two million
+    expect(params).toEqual([0.0015, 10]);
+    expect(sample).toMatchObject({ method: 'bernoulli', percent: 0.0015 });
+  });
+
+  test('should read the whole table when sampling one that was never analyzed', async () => {
+    rowEstimate = '-1';
+    const sample = await executor.sampleRows('users', { method: 'system' });
+
+    expect(sampleQuery()[1]).toEqual([100, 10]);
+    expect(sample).toMatchObject({ rowEstimate: null, method: 'system', percent: 100 });
+  });
+
+  test('should limit the number of rows', async () => {
+    await expect(executor.sampleRows('users', { rows: 101 })).rejects.toThrow(
+      'rows must be a whole number from 1 to 100'
+    );
+    expect(mockClient.query).not.toHaveBeenCalled();
+  });
+});
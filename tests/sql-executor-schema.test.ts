@@ -0,0 +1,431 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor schema objects', () => {
+  let executor: SqlExecutor;
+  let mockPool: any;
+
+  beforeEach(() => {
+    mockPool = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('pg_get_viewdef')) {
+          return {
+            rows: [
+              {
+                schema: 'public',
+                name: 'active_users',
+                kind: 'v',
+                definition: ' SELECT id FROM users;',
+                populated: true,
+                columns: [{ column_name: 'id', data_type: 'integer' }],
+              },
+              {
+                schema: 'public',
+                name: 'user_stats',
+                kind: 'm',
+                definition: ' SELECT count(*) AS n FROM users;',
+                populated: false,
+                columns: [{ column_name: 'n', data_type: 'bigint' }],
+              },
+            ],
+          };
+        }
+        if (sql.includes('FROM pg_type')) {
+          return {
+            rows: [
+              {
+                schema: 'public',
+                name: 'mood',
+                kind: 'enum',
+                labels: ['sad', 'happy'],
+                attributes: null,
+                base_type: null,
+              },
+              {
+                schema: 'public',
+                name: 'email',
+                kind: 'domain',
+                labels: null,
+                attributes: null,
+                base_type: 'text',
+              },
+            ],
+          };
+        }
+        if (sql.includes('FROM pg_sequences')) {
+          return {
+            rows: [
+              {
+                schema: 'public',
+                name: 'users_id_seq',
+                data_type: 'integer',
+                start_value: '1',
+                increment: '1',
+                min_value: '1',
+                max_value: '2147483647',
+                cycle: false,
+                owned_by: 'public.users.id',
+              },
+            ],
+          };
+        }
+        return { rows: [] };
+      }),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue({
+      initialize: jest.fn(),
+      getPool: jest.fn().mockReturnValue(mockPool),
+      isInitialized: jest.fn().mockReturnValue(true),
+    });
+
+    executor = new SqlExecutor('postgresql://test@localhost/test');
+  });
+
+  test('should not query anything when no object kinds are requested', async () => {
+    const objects = await executor.getSchemaObjects();
+
+    expect(objects).toEqual({});
+    expect(mockPool.query).not.toHaveBeenCalled();
+  });
+
+  test('should split views and materialized views', async () => {
+    const objects = await executor.getSchemaObjects(undefined, false, {
+      includeViews: true,
+      includeMaterializedViews: true,
+    });
+
+    expect(mockPool.query).toHaveBeenCalledTimes(1);
+    expect(mockPool.query.mock.calls[0][1]).toEqual([['v', 'm'], null]);
+    expect(objects.views).toEqual([
+      {
+        schema: 'public',
+        name: 'active_users',
+        definition: ' SELECT id FROM users;',
+        columns: [{ column_name: 'id', data_type: 'integer' }],
+      },
+    ]);
+    expect(objects.materializedViews).toHaveLength(1);
+    expect(objects.materializedViews![0]).toMatchObject({ name: 'user_stats', populated: false });
+  });
+
+  test('should bind table names instead of interpolating them', async () => {
+    await executor.getSchemaObjects(["users'; DROP TABLE users; --"], false, {
+      includeIndexes: true,
+      includeTriggers: true,
+    });
+
+    expect(mockPool.query).toHaveBeenCalledTimes(2);
+    for (const [sql, params] of mockPool.query.mock.calls) {
+      expect(sql).not.toContain('DROP TABLE');
+      expect(params).toEqual([["users'; DROP TABLE users; --"]]);
+    }
+  });
+
+  test('should only keep the details that apply to each type kind', async () => {
+    const objects = await executor.getSchemaObjects(undefined, false, { includeTypes: true });
+
+    expect(objects.types).toEqual([
+      { schema: 'public', name: 'mood', kind: 'enum', labels: ['sad', 'happy'] },
+      { schema: 'public', name: 'email', kind: 'domain', baseType: 'text' },
+    ]);
+  });
+
+  test('should map sequences and keep bigint bounds as strings', async () => {
+    const objects = await executor.getSchemaObjects(undefined, false, { includeSequences: true });
+
+    expect(objects.sequences).toEqual([
+      {
+        schema: 'public',
+        name: 'users_id_seq',
+        dataType: 'integer',
+        startValue: '1',
+        increment: '1',
+        minValue: '1',
+        maxValue: '2147483647',
+        cycle: false,
+        ownedBy: 'public.users.id',
+      },
+    ]);
+  });
+
+  test('should read row level security with its policies', async () => {
+    const policies = [
+      {
+        name: 'Own posts',
+        command: 'UPDATE',
+        permissive: true,
+        roles: ['authenticated'],
+        using: '(auth.uid() = user_id)',
+        withCheck: null,
+      },
+    ];
+    mockPool.query.mockResolvedValueOnce({
+      rows: [{ schema: 'public', table: 'posts', enabled: true, forced: false, policies }],
+    });
+
+    const objects = await executor.getSchemaObjects(['posts'], false, { includePolicies: true });
+
+    expect(mockPool.query.mock.calls[0][0]).toContain('FROM pg_policies p');
+    expect(mockPool.query.mock.calls[0][1]).toEqual([['posts']]);
+    expect(objects.rowSecurity).toEqual([
+      { schema: 'public', table: 'posts', enabled: true, forced: false, policies },
+    ]);
+  });
+
+  test('should group grants per table and role with column grants apart', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        { schema: 'public', table: 'posts', grantee: 'anon', column: null, privilege: 'SELECT' },
+        { schema: 'public', table: 'posts', grantee: 'app', column: null, privilege: 'SELECT' },
+        { schema: 'public', table: 'posts', grantee: 'app', column: 'body', privilege: 'UPDATE' },
+        { schema: 'public', table: 'posts', grantee: 'app', column: 'body', privilege: 'SELECT' },
+        { schema: 'public', table: 'posts', grantee: 'app', column: 'title', privilege: 'UPDATE' },
+        { schema: 'public', table: 'posts', grantee: 'owner', column: null, privilege: 'UPDATE' },
+        { schema: 'public', table: 'posts', grantee: 'owner', column: null, privilege: 'INSERT' },
+      ],
+    });
+
+    const objects = await executor.getSchemaObjects(undefined, false, { includeGrants: true });
+
+    expect(mockPool.query.mock.calls[0][0]).toContain(
+      "aclexplode(COALESCE(c.relacl, acldefault('r', c.relowner)))"
+    );
+    expect(objects.grants).toEqual([
+      { schema: 'public', table: 'posts', grantee: 'anon', privileges: ['SELECT'] },
+      {
+        schema: 'public',
+        table: 'posts',
+        grantee: 'app',
+        privileges: ['SELECT'],
+        columns: { body: ['UPDATE'], title: ['UPDATE'] },
+      },
+      { schema: 'public', table: 'posts', grantee: 'owner', privileges: ['INSERT', 'UPDATE'] },
+    ]);
+  });
+
+  test('should limit to the public schema unless all schemas are requested', async () => {
+    await executor.getSchemaObjects(undefined, false, { includeFunctions: true });
+    await executor.getSchemaObjects(undefined, true, { includeFunctions: true });
+
+    expect(mockPool.query.mock.calls[0][0]).toContain("n.nspname = 'public'");
+    expect(mockPool.query.mock.calls[1][0]).toContain(
+      "n.nspname NOT IN ('pg_catalog', 'information_schema')"
+    );
+  });
+
+  test('should group constraint columns per constraint with foreign key targets', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'memberships',
+          columns: '[]',
+          constraints: JSON.stringify([
+            {
+              constraint_name: 'memberships_pkey',
+              constraint_type: 'PRIMARY KEY',
+              columns: ['user_id', 'org_id'],
+            },
+            {
+              constraint_name: 'memberships_user_id_fkey',
+              constraint_type: 'FOREIGN KEY',
+              columns: ['user_id'],
+              referenced_schema: 'public',
+              referenced_table: 'users',
+              referenced_columns: ['id'],
+              on_delete: 'CASCADE',
+              on_update: 'NO ACTION',
+            },
+          ]),
+        },
+      ],
+    });
+
+    const schema = await executor.getSchema();
+
+    const sql = mockPool.query.mock.calls[0][0];
+    expect(sql).toContain('FROM pg_constraint con');
+    expect(sql).not.toContain('key_column_usage');
+    expect(schema.tables[0].constraints).toHaveLength(2);
+    expect(schema.tables[0].constraints[0].columns).toEqual(['user_id', 'org_id']);
+    expect(schema.tables[0].constraints[1]).toMatchObject({
+      referenced_table: 'users',
+      referenced_columns: ['id'],
+      on_delete: 'CASCADE',
+    });
+  });
+
+  test('should only keep the full type of array and user-defined columns', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'posts',
+          columns: JSON.stringify([
+            {
+              column_name: 'id',
+              data_type: 'integer',
+              is_nullable: 'NO',
+              column_default: null,
+              character_maximum_length: null,
+              full_type: null,
+            },
+            {
+              column_name: 'tags',
+              data_type: 'ARRAY',
+              is_nullable: 'YES',
+              column_default: null,
+              character_maximum_length: null,
+              full_type: 'text[]',
+            },
+          ]),
+          constraints: '[]',
+        },
+      ],
+    });
+
+    const schema = await executor.getSchema();
+
+    expect(mockPool.query.mock.calls[0][0]).toContain('format_type(a.atttypid, a.atttypmod)');
+    expect(schema.tables[0].columns[0]).not.toHaveProperty('full_type');
+    expect(schema.tables[0].columns[1].full_type).toBe('text[]');
+  });
+
+  test('should summarise tables with row estimates', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        { schema: 'public', name: 'orders', row_estimate: '120000', column_count: 9 },
+        { schema: 'public', name: 'users', row_estimate: '-1', column_count: 4 },
+      ],
+    });
+
+    const tables = await executor.getTableSummary();
+
+    expect(mockPool.query.mock.calls[0][0]).toContain('c.reltuples');
+    expect(mockPool.query.mock.calls[0][0]).toContain("n.nspname = 'public'");
+    expect(tables).toEqual([
+      { schema: 'public', name: 'orders', rowEstimate: 120000, columnCount: 9 },
+      { schema: 'public', name: 'users', rowEstimate: null, columnCount: 4 },
+    ]);
+  });
+
+  test('should list tables and views with their comments for search', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        {
+          schema: 'public',
+          name: 'active_users',
+          kind: 'v',
+          comment: null,
+          columns: [{ column_name: 'id', data_type: 'integer', comment: null }],
+        },
+        {
+          schema: 'public',
+          name: 'users',
+          kind: 'r',
+          comment: 'Registered accounts',
+          columns: [{ column_name: 'id', data_type: 'integer', comment: 'Surrogate key' }],
+        },
+      ],
+    });
+
+    const catalog = await executor.getSchemaCatalog();
+
+    const sql = mockPool.query.mock.calls[0][0];
+    expect(sql).toContain("obj_description(c.oid, 'pg_class')");
+    expect(sql).toContain('col_description(c.oid, a.attnum)');
+    expect(sql).toContain("n.nspname NOT IN ('pg_catalog', 'information_schema')");
+    expect(catalog.map(entry => entry.kind)).toEqual(['view', 'table']);
+    expect(catalog[1].comment).toBe('Registered accounts');
+  });
+
+  test('should read table and column comments, row estimates and sizes', async () => {
+    mockPool.query.mockResolvedValueOnce({
+      rows: [
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'events',
+          table_comment: 'Raw click stream',
+          row_estimate: '512000000',
+          total_bytes: '107374182400',
+          index_bytes: '21474836480',
+          columns: JSON.stringify([
+            {
+              column_name: 'id',
+              data_type: 'bigint',
+              is_nullable: 'NO',
+              column_default: null,
+              character_maximum_length: null,
+              full_type: null,
+              comment: 'Event id',
+            },
+            {
+              column_name: 'payload',
+              data_type: 'jsonb',
+              is_nullable: 'YES',
+              column_default: null,
+              character_maximum_length: null,
+              full_type: null,
+              comment: null,
+            },
+          ]),
+          constraints: '[]',
+        },
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'fresh',
+          table_comment: null,
+          row_estimate: '-1',
+          total_bytes: '8192',
+          index_bytes: '0',
+          columns: '[]',
+          constraints: '[]',
+        },
+      ],
+    });
+
+    const schema = await executor.getSchema();
+
+    const sql = mockPool.query.mock.calls[0][0];
+    expect(sql).toContain("obj_description(cls.oid, 'pg_class') as table_comment");
+    expect(sql).toContain('pg_total_relation_size(cls.oid)');
+    expect(sql).toContain('col_description(cls.oid, c.ordinal_position::int)');
+    expect(schema.tables[0]).toMatchObject({
+      comment: 'Raw click stream',
+      rowEstimate: 512000000,
+      totalBytes: 107374182400,
+      indexBytes: 21474836480,
+    });
+    expect(schema.tables[0].columns[0].comment).toBe('Event id');
+    expect(schema.tables[0].columns[1]).not.toHaveProperty('comment');
+    expect(schema.tables[1]).not.toHaveProperty('comment');
+    expect(schema.tables[1]).not.toHaveProperty('rowEstimate');
+    expect(schema.tables[1].totalBytes).toBe(8192);
+  });
+
+  test('should bind requested table names as a parameter', async () => {
+    await executor.getSchema(["users'; DROP TABLE users; --", 'posts']);
+
+    const [sql, params] = mockPool.query.mock.calls[0];
+    expect(sql).toContain('unnest($1::text[])');
+    expect(sql).toContain('JOIN requested_tables rt ON kc.table_name = rt.table_name');
+    expect(sql).not.toContain('DROP TABLE');
+    expect(params).toEqual([["users'; DROP TABLE users; --", 'posts']]);
+  });
+
+  test('should not bind parameters when listing every table', async () => {
+    await executor.getSchema(undefined, true);
+
+    expect(mockPool.query.mock.calls[0]).toHaveLength(1);
+    expect(mockPool.query.mock.calls[0][0]).not.toContain('requested_tables');
+    expect(mockPool.query.mock.calls[0][0]).toContain(
+      "t.table_schema NOT IN ('pg_catalog', 'information_schema')"
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SqlExecutor, StatementExecutionError } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor multi-statement scripts', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+
+  beforeEach(() => {
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.startsWith('INSERT')) {
+          return { command: 'INSERT', rowCount: 2, rows: [] };
+        }
+        if (sql.startsWith('SELECT')) {
+          return { command: 'SELECT', rowCount: 1, rows: [{ count: 2 }] };
+        }
+        return { command: sql.split(' ')[0], rowCount: null, rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue({
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    });
+
+    executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: false });
+  });
+
+  const script = [
+    'CREATE TABLE t (id int);',
+    '',
+    'INSERT INTO t VALUES (1), (2);',
+    'SELECT count(*) FROM t;',
+  ].join('\n');
+
+  test('should run each statement and report per-statement results', async () => {
+    const result = await executor.executeScript(script);
+
+    expect(mockClient.query.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      'BEGIN',
+      'CREATE TABLE t (id int)',
+      'INSERT INTO t VALUES (1), (2)',
+      'SELECT count(*) FROM t',
+      'COMMIT',
+    ]);
+    expect(result.statements).toHaveLength(3);
+    expect(result.statements![1]).toMatchObject({
+      index: 1,
+      command: 'INSERT',
+      rowCount: 2,
+      startLine: 3,
+      endLine: 3,
+    });
+    // Top-level fields mirror the last statement
+    expect(result).toMatchObject({ command: 'SELECT', rowCount: 1, rows: [{ count: 2 }] });
+  });
+
+  test('should not wrap scripts that manage their own transaction', async () => {
+    await executor.executeScript('BEGIN;\nSELECT 1;\nCOMMIT;');
+
+    expect(mockClient.query.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      'BEGIN',
+      'SELECT 1',
+      'COMMIT',
+    ]);
+  });
+
+  test('should reset the statement timeout before returning the client to the pool', async () => {
+    await executor.executeScript('SELECT 1;', true, 2000);
+
+    expect(mockClient.query.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      'SET statement_timeout = 2000',
+      'BEGIN',
+      'SELECT 1',
+      'COMMIT',
+      'RESET statement_timeout',
+    ]);
+    expect(mockClient.release).toHaveBeenCalledWith();
+  });
+
+  test('should discard a client whose statement timeout cannot be reset', async () => {
+    const resetError = new Error('Connection terminated');
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'RESET statement_timeout') {
+        throw resetError;
+      }
+      return { command: 'OK', rowCount: 0, rows: [] };
+    });
+
+    await executor.executeScript('SELECT 1;', true, 2000);
+
+    expect(mockClient.release).toHaveBeenCalledWith(resetError);
+  });
+
+  test('should report the failing statement and file line', async () => {
+    const pgError = Object.assign(new Error('column "nme" does not exist'), {
+      code: '42703',
+      position: '22',
+    });
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT')) {
+        throw pgError;
+      }
+      return { command: 'OK', rowCount: 0, rows: [] };
+    });
+
+    const failing = 'CREATE TABLE t (id int);\n\nSELECT id,\n       nme FROM t;';
+    const error = await executor.executeScript(failing).catch(e => e);
+
+    expect(error).toBeInstanceOf(StatementExecutionError);
+    expect(error).toMatchObject({
+      statementIndex: 1,
+      line: 4,
+      startLine: 3,
+      endLine: 4,
+      code: '42703',
+      position: 22,
+    });
+    expect(error.message).toBe('Statement 2 (line 4) failed: column "nme" does not exist');
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  test('should execute files through the script path', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sequelae-'));
+    const filepath = join(dir, 'migration.sql');
+    writeFileSync(filepath, script);
+
+    try {
+      const result = await executor.executeFile(filepath);
+      expect(result.statements).toHaveLength(3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { SqlExecutor } from '../src/core/sql-executor';
+import { PoolManager } from '../src/core/pool-manager';
+
+jest.mock('../src/core/pool-manager');
+
+describe('SqlExecutor streaming', () => {
+  let executor: SqlExecutor;
+  let mockClient: any;
+  let mockPoolManager: any;
+  let remaining: number;
+
+  beforeEach(() => {
+    remaining = 5;
+    mockClient = {
+      query: jest.fn(async (sql: string) => {
+        const fetch = /^FETCH FORWARD (\d+)/.exec(sql);
+        if (fetch) {
+          const count = Math.min(Number(fetch[1]), remaining);
+          remaining -= count;
+          return {
+            command: 'FETCH',
+            rowCount: count,
+            rows: Array.from({ length: count }, (_, i) => ({ n: i })),
+            fields: [{ name: 'n' }],
+          };
+        }
+        return { command: sql.split(' ')[0], rowCount: 0, rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    mockPoolManager = {
+      initialize: jest.fn(),
+      getClient: jest.fn().mockResolvedValue(mockClient),
+      isInitialized: jest.fn().mockReturnValue(true),
+    };
+    (PoolManager.getInstance as jest.Mock).mockReturnValue(mockPoolManager);
+
+    executor = new SqlExecutor('postgresql://test@localhost/test', { readOnly: false });
+  });
+
+  async function collect(stream: AsyncGenerator<any>): Promise<any[]> {
+    const batches = [];
+    for await (const batch of stream) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  test('should fetch through a cursor in batches', async () => {
+    const batches = await collect(
+      executor.streamQuery('SELECT n FROM numbers WHERE n > $1', { params: [0], batchSize: 2 })
+    );
+
+    expect(batches.map(b => b.rows.length)).toEqual([2, 2, 1]);
+    expect(batches.map(b => b.done)).toEqual([false, false, true]);
+    expect(batches[0].fields).toEqual(['n']);
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN');
+    expect(mockClient.query).toHaveBeenCalledWith(
+      'DECLARE sequelae_stream NO SCROLL CURSOR FOR SELECT n FROM numbers WHERE n > $1',
+      [0]
+    );
+    expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  test('should end with an empty batch when the last batch is exactly full', async () => {
+    remaining = 4;
+    const batches = await collect(executor.streamQuery('SELECT 1', { batchSize: 2 }));
+
+    expect(batches.map(b => b.rows.length)).toEqual([2, 2, 0]);
+  });
+
+  test('should roll back and release when the consumer stops early', async () => {
+    const stream = executor.streamQuery('SELECT 1', { batchSize: 2 });
+    await stream.next();
+    await stream.return(undefined);
+
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.query).not.toHaveBeenCalledWith('COMMIT');
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  test('should roll back and release when a fetch fails', async () => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('FETCH')) {
+        throw new Error('canceling statement due to statement timeout');
+      }
+      return { rows: [] };
+    });
+
+    await expect(collect(executor.streamQuery('SELECT 1', { timeoutMs: 10 }))).rejects.toThrow(
+      'statement timeout'
+    );
+    expect(mockClient.query).toHaveBeenCalledWith('SET LOCAL statement_timeout = 10');
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  test.each(['INSERT INTO t VALUES (1)', 'SELECT 1; SELECT 2', ''])(
+    'should refuse to stream %p',
+    async sql => {
+      await expect(collect(executor.streamQuery(sql))).rejects.toThrow(
+        'Only a single SELECT, WITH, VALUES or TABLE query can be streamed'
+      );
+      expect(mockPoolManager.getClient).not.toHaveBeenCalled();
+    }
+  );
+
+  test('should stream inside a READ ONLY transaction in read-only mode', async () => {
+    const readOnlyExecutor = new SqlExecutor('postgresql://test@localhost/test', {
+      readOnly: true,
+    });
+
+    await collect(readOnlyExecutor.streamQuery('SELECT 1', { batchSize: 10 }));
+
+    expect(mockClient.query).toHaveBeenCalledWith('BEGIN READ ONLY');
+  });
+});
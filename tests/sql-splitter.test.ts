@@ -0,0 +1,80 @@
+import { splitSqlStatements, tokenizeSql } from '../src/utils/sql-splitter';
+
+describe('SQL Splitter', () => {
+  describe('tokenizeSql', () => {
+    test('should skip comments and whitespace', () => {
+      const tokens = tokenizeSql('-- leading\nSELECT /* inline /* nested */ */ 1');
+      expect(tokens.map(t => t.text)).toEqual(['SELECT', '1']);
+    });
+
+    test('should keep string literals and quoted identifiers as single tokens', () => {
+      const tokens = tokenizeSql(`SELECT 'it''s; DROP', "weird;name" FROM t`);
+      expect(tokens.map(t => t.text)).toEqual([
+        'SELECT',
+        "'it''s; DROP'",
+        ',',
+        '"weird;name"',
+        'FROM',
+        't',
+      ]);
+      expect(tokens[1].type).toBe('literal');
+    });
+
+    test('should handle E strings with backslash escapes', () => {
+      const tokens = tokenizeSql("SELECT E'a\\'b;c'");
+      expect(tokens.map(t => t.text)).toEqual(['SELECT', "E'a\\'b;c'"]);
+    });
+
+    test('should treat positional parameters as literals, not dollar quotes', () => {
+      const tokens = tokenizeSql('SELECT $1, $2');
+      expect(tokens.filter(t => t.type === 'literal').map(t => t.text)).toEqual(['$1', '$2']);
+    });
+
+    test('should track parenthesis depth', () => {
+      const tokens = tokenizeSql('SELECT (SELECT 1)');
+      expect(tokens.map(t => t.depth)).toEqual([0, 0, 1, 1, 0]);
+    });
+  });
+
+  describe('splitSqlStatements', () => {
+    test('should split on top-level semicolons', () => {
+      const statements = splitSqlStatements('SELECT 1; SELECT 2;');
+      expect(statements.map(s => s.text)).toEqual(['SELECT 1', 'SELECT 2']);
+      expect(statements.map(s => s.index)).toEqual([0, 1]);
+    });
+
+    test('should not split inside dollar-quoted bodies', () => {
+      const sql = `
+        CREATE FUNCTION f() RETURNS void AS $body$
+        BEGIN
+          DELETE FROM t;
+        END;
+        $body$ LANGUAGE plpgsql;
+        SELECT f();
+      `;
+      const statements = splitSqlStatements(sql);
+      expect(statements).toHaveLength(2);
+      expect(statements[0].text).toContain('DELETE FROM t;');
+      expect(statements[1].text).toBe('SELECT f()');
+    });
+
+    test('should report the source line range of each statement', () => {
+      const sql = '-- header\nCREATE TABLE t (\n  id int\n);\n\nINSERT INTO t VALUES (1);\n';
+      const statements = splitSqlStatements(sql);
+      expect(statements.map(s => [s.startLine, s.endLine])).toEqual([
+        [2, 4],
+        [6, 6],
+      ]);
+    });
+
+    test('should drop empty and comment-only statements', () => {
+      const statements = splitSqlStatements(';; -- nothing here\n; SELECT 1');
+      expect(statements).toHaveLength(1);
+      expect(statements[0].text).toBe('SELECT 1');
+    });
+
+    test('should return no statements for empty input', () => {
+      expect(splitSqlStatements('   ')).toEqual([]);
+    });
+  });
+});
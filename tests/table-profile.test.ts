@@ -0,0 +1,238 @@
+import {
+  ColumnStatsRow,
+  formatProfileText,
+  isRangeColumn,
+  profileColumnFromSample,
+  profileColumnFromStats,
+  TableProfile,
+  thinHistogram,
+} from '../src/utils/table-profile';
+
+function stats(overrides: Partial<ColumnStatsRow>): ColumnStatsRow {
+  return {
+    column_name: 'amount',
+    data_type: 'integer',
+    category: 'N',
+    null_frac: 0,
+    n_distinct: null,
+    most_common_vals: null,
+    most_common_freqs: null,
+    histogram_bounds: null,
+    correlation: null,
+    ...overrides,
+  };
+}
+
+describe('Table profile', () => {
+  describe('isRangeColumn', () => {
+    test('should cover numbers, dates and timestamps only', () => {
+      expect(isRangeColumn('N', 'numeric(12,2)')).toBe(true);
+      expect(isRangeColumn('D', 'date')).toBe(true);
+      expect(isRangeColumn('D', 'timestamp with time zone')).toBe(true);
+      expect(isRangeColumn('D', 'time without time zone')).toBe(false);
+      expect(isRangeColumn('S', 'text')).toBe(false);
+    });
+  });
+
+  describe('thinHistogram', () => {
+    test('should keep eleven evenly spaced bounds including both ends', () => {
+      const bounds = Array.from({ length: 101 }, (_, i) => String(i));
+      expect(thinHistogram(bounds)).toEqual([
+        '0',
+        '10',
+        '20',
+        '30',
+        '40',
+        '50',
+        '60',
+        '70',
+        '80',
+        '90',
+        '100',
+      ]);
+      expect(thinHistogram(['1', '2'])).toEqual(['1', '2']);
+    });
+  });
+
+  describe('profileColumnFromStats', () => {
+    test('should turn a negative n_distinct into a count', () => {
+      const profile = profileColumnFromStats(stats({ n_distinct: -0.5 }), 1000, 10);
+      expect(profile.distinct).toBe(500);
+      expect(profileColumnFromStats(stats({ n_distinct: -0.5 }), null, 10).distinct).toBeNull();
+      expect(profileColumnFromStats(stats({ n_distinct: 4 }), 1000, 10).distinct).toBe(4);
+    });
+
+    test('should derive range and average from common values and the histogram', () => {
+      const profile = profileColumnFromStats(
+        stats({
+          null_frac: 0.1,
+          n_distinct: 50,
+          most_common_vals: ['100', '5'],
+          most_common_freqs: [0.4, 0.1],
+          histogram_bounds: ['10', '20', '30'],
+          correlation: 0.98,
+        }),
+        1000,
+        1
+      );
+      expect(profile).toEqual({
+        column: 'amount',
+        type: 'integer',
+        nullFraction: 0.1,
+        distinct: 50,
+        mostCommon: [{ value: '100', frequency: 0.4 }],
+        histogramBounds: ['10', '20', '30'],
+        correlation: 0.98,
+        min: '5',
+        max: '100',
+        // (100 * 0.4 + 5 * 0.1 + 20 * 0.4) / 0.9
+        avg: '53.8889',
+      });
+    });
+
+    test('should order dates chronologically and skip the average', () => {
+      const profile = profileColumnFromStats(
+        stats({
+          column_name: 'created_at',
+          data_type: 'date',
+          category: 'D',
+          most_common_vals: ['2024-03-01'],
+          most_common_freqs: [0.2],
+          histogram_bounds: ['2023-01-01', '2023-06-01', '2024-12-31'],
+        }),
+        1000,
+        10
+      );
+      expect(profile.min).toBe('2023-01-01');
+      expect(profile.max).toBe('2024-12-31');
+      expect(profile.avg).toBeUndefined();
+    });
+
+    test('should leave text columns without a range', () => {
+      const profile = profileColumnFromStats(
+        stats({
+          column_name: 'status',
+          data_type: 'text',
+          category: 'S',
+          most_common_vals: ['paid', 'pending'],
+          most_common_freqs: [0.6, 0.3],
+        }),
+        1000,
+        10
+      );
+      expect(profile.mostCommon).toEqual([
+        { value: 'paid', frequency: 0.6 },
+        { value: 'pending', frequency: 0.3 },
+      ]);
+      expect(profile).not.toHaveProperty('min');
+      expect(profile).not.toHaveProperty('histogramBounds');
+    });
+  });
+
+  describe('profileColumnFromSample', () => {
+    test('should turn counts into fractions of the sampled rows', () => {
+      expect(
+        profileColumnFromSample(
+          { column_name: 'amount', data_type: 'integer' },
+          {
+            nonNull: 90,
+            distinct: 12,
+            top: [{ value: '5', count: 30 }],
+            min: '1',
+            max: '99',
+            avg: '17.5',
+          },
+          100
+        )
+      ).toEqual({
+        column: 'amount',
+        type: 'integer',
+        nullFraction: 0.1,
+        distinct: 12,
+        mostCommon: [{ value: '5', frequency: 0.3 }],
+        min: '1',
+        max: '99',
+        avg: '17.5',
+      });
+    });
+
+    test('should cope with an empty sample', () => {
+      const profile = profileColumnFromSample(
+        { column_name: 'note', data_type: 'text' },
+        { nonNull: 0, distinct: 0, top: null },
+        0
+      );
+      expect(profile.nullFraction).toBeNull();
+      expect(profile.mostCommon).toEqual([]);
+    });
+  });
+
+  describe('formatProfileText', () => {
+    const profile: TableProfile = {
+      schema: 'public',
+      table: 'orders',
+      rowEstimate: 120000,
+      source: 'pg_stats',
+      analyzed: true,
+      columns: [
+        {
+          column: 'status',
+          type: 'text',
+          nullFraction: 0,
+          distinct: 4,
+          mostCommon: [
+            { value: 'paid', frequency: 0.62 },
+            { value: 'refunded', frequency: 0.031 },
+          ],
+        },
+        {
+          column: 'total',
+          type: 'numeric',
+          nullFraction: 0.25,
+          distinct: 9000,
+          mostCommon: [],
+          min: '0',
+          max: '950',
+          avg: '42.5',
+        },
+        { column: 'meta', type: 'jsonb', nullFraction: null, distinct: null, mostCommon: [] },
+      ],
+      duration: 3,
+    };
+
+    test('should print one line per column', () => {
+      expect(formatProfileText(profile)).toBe(
+        [
+          'PROFILE public.orders (~120000 rows, from pg_stats)',
+          "  status text: 0% null, ~4 distinct, top 'paid' 62%, 'refunded' 3.1%",
+          '  total numeric: 25% null, ~9000 distinct, range 0 .. 950, avg 42.5',
+          '  meta jsonb: no statistics',
+          '',
+        ].join('\n')
+      );
+    });
+
+    test('should describe samples and warn about missing statistics', () => {
+      expect(
+        formatProfileText({
+          ...profile,
+          analyzed: false,
+          rowEstimate: null,
+          columns: [],
+        })
+      ).toBe(
+        'PROFILE public.orders (rows unknown, from pg_stats)\n⚠️  No statistics yet; run ANALYZE public.orders or profile a sample\n'
+      );
+      expect(
+        formatProfileText({
+          ...profile,
+          source: 'sample',
+          sample: { method: 'system', percent: 1, rows: 1180 },
+          columns: [profile.columns[0]],
+        })
+      ).toContain(
+        '(~120000 rows, exact over a 1% system sample of 1180 rows)\n  status text: 0% null, 4 distinct'
+      );
+    });
+  });
+});